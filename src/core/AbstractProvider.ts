@@ -7,10 +7,19 @@ import {
   TaskParams,
   StandardTask,
   TaskType,
+  TaskCapability,
+  ProviderCapabilities,
   ProviderConfig,
+  PricingTable,
+  CostEstimate,
+  RetryInfo,
   isPrimaryGenerationTask,
   isImageTo3DParams
 } from '../types';
+import { throwIfAborted } from '../utils/abort';
+import { ApiError } from './Magi3DClient';
+import { withRetry } from '../utils/retry';
+import { estimateTaskCost, mergePricing } from '../utils/pricing';
 
 /**
  * Supported image input formats for 3D generation.
@@ -37,6 +46,55 @@ import {
  */
 export type ImageInput = string;
 
+/**
+ * Per-request options passed through to provider HTTP calls.
+ *
+ * @example
+ * ```typescript
+ * const controller = new AbortController();
+ * const taskId = await provider.createTask(params, { signal: controller.signal });
+ * ```
+ */
+export interface RequestOptions {
+  /**
+   * Signal that aborts all in-flight HTTP requests (including file uploads)
+   * made on behalf of this call.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Called before a failed HTTP request made on behalf of this call is
+   * retried (see {@link ProviderConfig.maxRetries}).
+   */
+  onRetry?: (info: RetryInfo) => void;
+
+  /**
+   * Whether rate-limited requests are retried (default: `true`).
+   *
+   * @remarks
+   * {@link Magi3DClient} turns this off for calls made through a
+   * submission queue or batch scheduler, which retry rate limits
+   * themselves, so one rejection is not retried at several layers.
+   */
+  retryRateLimits?: boolean;
+}
+
+/**
+ * Kind of result a task type produces.
+ * @internal
+ */
+function getOutputKind(type: TaskType): TaskCapability['output'] {
+  switch (type) {
+    case TaskType.TEXT_TO_IMAGE:
+    case TaskType.GENERATE_IMAGE:
+      return 'image';
+    case TaskType.PRE_RIG_CHECK:
+      return 'data';
+    default:
+      return 'model';
+  }
+}
+
 /**
  * Abstract base class for all 3D generation providers.
  *
@@ -62,13 +120,18 @@ export type ImageInput = string;
  *     // Upload or validate input, return URL/token
  *   }
  *
- *   protected async doCreateTask(params: TaskParams): Promise<string> {
+ *   protected async doCreateTask(params: TaskParams, options: RequestOptions): Promise<string> {
  *     // Call your API based on params.type, return task ID
  *   }
  *
- *   async getTaskStatus(taskId: string): Promise<StandardTask> {
+ *   async getTaskStatus(taskId: string, options?: RequestOptions): Promise<StandardTask> {
  *     // Fetch and normalize task status
  *   }
+ *
+ *   // Optional: the default rejects with ApiError code 'UNSUPPORTED'
+ *   async cancelTask(taskId: string): Promise<void> {
+ *     // Cancel the task
+ *   }
  * }
  * ```
  *
@@ -114,6 +177,80 @@ export abstract class AbstractProvider<TConfig extends ProviderConfig = Provider
     return this.supportedTaskTypes.has(taskType);
   }
 
+  /**
+   * Describes the params, options and outputs of each supported task type.
+   *
+   * @remarks
+   * Built-in providers return their entry of {@link PROVIDER_CAPABILITIES}.
+   * The default implementation lists the supported task types with empty
+   * field lists; custom providers should override it to describe their
+   * params and options.
+   *
+   * @returns Capabilities keyed by supported task type
+   *
+   * @example
+   * ```typescript
+   * const capabilities = provider.describeCapabilities();
+   * for (const field of capabilities[TaskType.TEXT_TO_3D]?.options ?? []) {
+   *   console.log(field.name, field.type, field.min, field.max);
+   * }
+   * ```
+   */
+  describeCapabilities(): ProviderCapabilities {
+    const capabilities: ProviderCapabilities = {};
+    for (const type of this.supportedTaskTypes) {
+      capabilities[type] = {
+        type,
+        params: [],
+        options: [],
+        output: getOutputKind(type),
+        outputFormats: []
+      };
+    }
+    return capabilities;
+  }
+
+  /**
+   * Estimates the cost of a task before submitting it.
+   *
+   * @remarks
+   * Prices come from {@link getDefaultPricing}, with task types replaced
+   * by `config.pricing`. Estimates are computed locally; nothing is sent
+   * to the provider.
+   *
+   * @param params - Task parameters
+   * @returns The estimate, or `undefined` if the task type is not supported
+   *          or has no price
+   *
+   * @example
+   * ```typescript
+   * const estimate = provider.estimateCost({
+   *   type: TaskType.TEXT_TO_3D,
+   *   prompt: 'a cat',
+   *   providerOptions: { texture_quality: 'detailed' }
+   * });
+   * console.log(`${estimate?.amount} ${estimate?.unit}`); // => '30 credits'
+   * ```
+   */
+  estimateCost(params: TaskParams): CostEstimate | undefined {
+    if (!this.supports(params.type)) {
+      return undefined;
+    }
+    return estimateTaskCost(this.name, mergePricing(this.getDefaultPricing(), this.config.pricing), params);
+  }
+
+  /**
+   * Default prices of this provider's task types.
+   *
+   * @remarks
+   * Built-in providers return their entry of {@link PROVIDER_PRICING}.
+   * The default implementation has no prices, so custom providers are
+   * only estimated when `config.pricing` is set.
+   */
+  protected getDefaultPricing(): PricingTable {
+    return { unit: 'credits', tasks: {} };
+  }
+
   /**
    * Creates a new task (generation or post-processing).
    *
@@ -136,9 +273,11 @@ export abstract class AbstractProvider<TConfig extends ProviderConfig = Provider
    * - `CONVERT` - Format conversion
    *
    * @param params - Task parameters (type determines the operation)
+   * @param options - Request options (e.g., abort signal)
    * @returns Promise resolving to the task ID for status tracking
    *
    * @throws Error if the task type is not supported
+   * @throws Error named `AbortError` if `options.signal` is aborted
    * @throws Error if input preparation fails
    * @throws Error if the provider API returns an error
    *
@@ -171,21 +310,23 @@ export abstract class AbstractProvider<TConfig extends ProviderConfig = Provider
    * });
    * ```
    */
-  async createTask(params: TaskParams): Promise<string> {
+  async createTask(params: TaskParams, options: RequestOptions = {}): Promise<string> {
     // Check if task type is supported
     if (!this.supports(params.type)) {
       throw new Error(`Provider ${this.name} does not support task type: ${params.type}`);
     }
 
+    throwIfAborted(options.signal);
+
     // For image-based generation, prepare the input
     if (isPrimaryGenerationTask(params) && isImageTo3DParams(params)) {
       const readyInput = await this.prepareInput(params.input);
       // Create a copy with the prepared input
       const preparedParams = { ...params, input: readyInput };
-      return this.doCreateTask(preparedParams);
+      return this.doCreateTask(preparedParams, options);
     }
 
-    return this.doCreateTask(params);
+    return this.doCreateTask(params, options);
   }
 
   // =========================================================
@@ -217,10 +358,14 @@ export abstract class AbstractProvider<TConfig extends ProviderConfig = Provider
    * Use the `params.type` field to determine the operation and build
    * the appropriate API payload.
    *
+   * Pass `options.signal` to every HTTP request so callers can abort
+   * in-flight work.
+   *
    * @param params - Task parameters (already validated and prepared)
+   * @param options - Request options (e.g., abort signal)
    * @returns Promise resolving to the task ID
    */
-  protected abstract doCreateTask(params: TaskParams): Promise<string>;
+  protected abstract doCreateTask(params: TaskParams, options: RequestOptions): Promise<string>;
 
   /**
    * Fetches the current status of a task.
@@ -230,9 +375,70 @@ export abstract class AbstractProvider<TConfig extends ProviderConfig = Provider
    * mapping provider-specific statuses to {@link TaskStatus} enum values.
    *
    * @param taskId - The task ID to query
+   * @param options - Request options (e.g., abort signal)
    * @returns Promise resolving to normalized task status
    *
    * @throws Error if the task is not found or API call fails
    */
-  abstract getTaskStatus(taskId: string): Promise<StandardTask>;
+  abstract getTaskStatus(taskId: string, options?: RequestOptions): Promise<StandardTask>;
+
+  /**
+   * Cancels a pending or running task.
+   *
+   * @remarks
+   * The default implementation rejects with an {@link ApiError} whose code
+   * is `UNSUPPORTED`, so callers can tell "cannot cancel" apart from a
+   * failed cancellation request. Providers with a cancellation endpoint
+   * override it.
+   *
+   * A successfully canceled task reports {@link TaskStatus.CANCELED} on
+   * subsequent status queries.
+   *
+   * @param taskId - The task ID to cancel
+   *
+   * @throws ApiError with code `UNSUPPORTED` if the provider cannot cancel tasks
+   * @throws ApiError if the cancellation request fails
+   */
+  async cancelTask(taskId: string): Promise<void> {
+    throw new ApiError(`${this.name} does not support task cancellation (task: ${taskId})`, 'UNSUPPORTED');
+  }
+
+  /**
+   * Runs an HTTP request with the configured retry policy.
+   *
+   * @remarks
+   * Retries up to `config.maxRetries` times (default: 3) with exponential
+   * backoff and jitter, honoring `Retry-After` hints on {@link ApiError}.
+   * Pass `idempotent: true` for requests that are safe to repeat (status
+   * queries) so timeouts are retried as well. Rate-limit errors are not
+   * retried when `options.retryRateLimits` is `false`.
+   *
+   * The request function is called once per attempt, so any per-request
+   * signing must happen inside it.
+   *
+   * @param request - Function performing the request
+   * @param options - Request options of the call, plus idempotency
+   * @returns Promise resolving to the request result
+   *
+   * @example
+   * ```typescript
+   * const response = await this.withRetry(
+   *   () => this.client.get(`/task/${taskId}`, { signal: options.signal }),
+   *   { ...options, idempotent: true }
+   * );
+   * ```
+   */
+  protected withRetry<T>(
+    request: () => Promise<T>,
+    options: RequestOptions & { idempotent?: boolean } = {}
+  ): Promise<T> {
+    return withRetry(request, {
+      ...this.config.retry,
+      maxRetries: this.config.maxRetries ?? 3,
+      idempotent: options.idempotent ?? false,
+      retryRateLimits: options.retryRateLimits ?? true,
+      signal: options.signal,
+      onRetry: options.onRetry
+    });
+  }
 }
@@ -0,0 +1,276 @@
+/**
+ * @module core/Budget
+ * @description Spend limits enforced before tasks are submitted
+ */
+
+import { TaskStore } from '../types';
+
+/**
+ * A spend limit over a sliding time window.
+ *
+ * @example
+ * ```typescript
+ * // At most 500 credits and 50 tasks per hour
+ * { window: 60 * 60 * 1000, maxCredits: 500, maxTasks: 50 }
+ * ```
+ */
+export interface BudgetLimit {
+  /** Window length in milliseconds */
+  window: number;
+  /** Maximum credits (in the provider's pricing unit) within the window */
+  maxCredits?: number;
+  /** Maximum number of submitted tasks within the window */
+  maxTasks?: number;
+}
+
+/**
+ * Budget settings for {@link Magi3DClientOptions.budget}.
+ *
+ * @example
+ * ```typescript
+ * const client = new Magi3DClient(provider, {
+ *   budget: {
+ *     global: [{ window: 24 * 60 * 60 * 1000, maxCredits: 10000 }],
+ *     perTag: [{ window: 60 * 60 * 1000, maxCredits: 200 }],
+ *     tags: { 'tenant-vip': [{ window: 60 * 60 * 1000, maxCredits: 2000 }] }
+ *   }
+ * });
+ *
+ * await client.createTask(params, { tag: tenantId });
+ * ```
+ */
+export interface BudgetOptions {
+  /** Limits on all submissions of the client */
+  global?: BudgetLimit[];
+
+  /** Limits applied to each tag separately (e.g., per tenant) */
+  perTag?: BudgetLimit[];
+
+  /** Limits for specific tags, replacing `perTag` for them */
+  tags?: Record<string, BudgetLimit[]>;
+
+  /**
+   * Where submissions are recorded. Use a shared store (e.g., a Redis
+   * adapter) to enforce limits across instances.
+   * Defaults to a {@link MemoryTaskStore}.
+   */
+  store?: TaskStore;
+}
+
+/**
+ * Spend recorded within a budget window.
+ */
+export interface BudgetUsage {
+  /** Credits recorded within the window */
+  credits: number;
+  /** Tasks submitted within the window */
+  tasks: number;
+}
+
+/**
+ * Error thrown when a submission would exceed a budget limit.
+ *
+ * @remarks
+ * Thrown by `createTask()` before the provider is called, so nothing is
+ * submitted or billed.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await client.createTask(params, { tag: tenantId });
+ * } catch (error) {
+ *   if (error instanceof BudgetExceededError) {
+ *     console.log(`${error.tag ?? 'global'} budget used: ${error.usage.credits} credits`);
+ *     if (error.retryAfter !== undefined) {
+ *       setTimeout(retry, error.retryAfter);
+ *     }
+ *   }
+ * }
+ * ```
+ */
+export class BudgetExceededError extends Error {
+  /** The SDK error code */
+  readonly code = 'BUDGET_EXCEEDED';
+  /** Tag whose limit was exceeded (undefined for global limits) */
+  readonly tag?: string;
+  /** The limit that was exceeded */
+  readonly limit: BudgetLimit;
+  /** Spend within the limit's window, before the rejected task */
+  readonly usage: BudgetUsage;
+  /** Credits of the rejected task */
+  readonly cost: number;
+  /**
+   * Time until the task would fit in the window, in milliseconds
+   * (undefined if it never fits, e.g., its cost exceeds `maxCredits`)
+   */
+  readonly retryAfter?: number;
+
+  constructor(limit: BudgetLimit, usage: BudgetUsage, cost: number, tag?: string, retryAfter?: number) {
+    const scope = tag === undefined ? 'Global' : `Tag "${tag}"`;
+    super(`${scope} budget exceeded: ${usage.tasks} tasks, ${usage.credits} credits in the last ${limit.window}ms`);
+    this.name = 'BudgetExceededError';
+    this.tag = tag;
+    this.limit = limit;
+    this.usage = usage;
+    this.cost = cost;
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * A recorded submission.
+ * @internal
+ */
+interface BudgetEntry {
+  /** Reservation ID */
+  id: string;
+  /** Task ID, once submitted */
+  taskId?: string;
+  tag?: string;
+  credits: number;
+  /** Submission time (milliseconds since epoch) */
+  at: number;
+}
+
+/**
+ * Records submissions of one client under a single store key and checks
+ * them against the configured limits.
+ *
+ * @remarks
+ * Updates are serialized within the process. Instances sharing a store
+ * may race between reading and writing the ledger, so limits shared
+ * across instances can be overshot by concurrent submissions.
+ *
+ * @internal
+ */
+export class BudgetLedger {
+  /** Tail of the update chain */
+  private writes: Promise<unknown> = Promise.resolve();
+
+  /** Counter for reservation IDs */
+  private sequence = 0;
+
+  /** Longest window of any limit */
+  private readonly retention: number;
+
+  constructor(
+    private store: TaskStore,
+    private key: string,
+    private options: BudgetOptions
+  ) {
+    const limits = [
+      ...(options.global ?? []),
+      ...(options.perTag ?? []),
+      ...Object.values(options.tags ?? {}).flat()
+    ];
+    this.retention = Math.max(0, ...limits.map((limit) => limit.window));
+  }
+
+  /**
+   * Records a submission if it fits every applicable limit.
+   *
+   * @returns Reservation ID, to {@link commit} or {@link release}
+   * @throws BudgetExceededError if a limit would be exceeded
+   */
+  async reserve(credits: number, tag?: string): Promise<string> {
+    const id = `${Date.now().toString(36)}-${(this.sequence++).toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+    await this.update((entries, now) => {
+      this.check(entries, now, this.options.global ?? [], credits);
+      if (tag !== undefined) {
+        const limits = this.options.tags?.[tag] ?? this.options.perTag ?? [];
+        this.check(entries.filter((entry) => entry.tag === tag), now, limits, credits, tag);
+      }
+      entries.push({ id, tag, credits, at: now });
+    });
+    return id;
+  }
+
+  /** Links a reservation to the submitted task */
+  commit(id: string, taskId: string): Promise<void> {
+    return this.update((entries) => {
+      const entry = entries.find((item) => item.id === id);
+      if (entry) {
+        entry.taskId = taskId;
+      }
+    });
+  }
+
+  /** Removes a reservation whose submission failed */
+  release(id: string): Promise<void> {
+    return this.update((entries) => {
+      const index = entries.findIndex((item) => item.id === id);
+      if (index !== -1) {
+        entries.splice(index, 1);
+      }
+    });
+  }
+
+  /** Replaces the recorded credits of a task */
+  record(taskId: string, credits: number): Promise<void> {
+    return this.update((entries) => {
+      const entry = entries.find((item) => item.taskId === taskId);
+      if (entry) {
+        entry.credits = credits;
+      }
+    });
+  }
+
+  /**
+   * Throws if adding a submission would exceed one of the limits.
+   * @internal
+   */
+  private check(entries: BudgetEntry[], now: number, limits: BudgetLimit[], credits: number, tag?: string): void {
+    for (const limit of limits) {
+      const recent = entries
+        .filter((entry) => entry.at > now - limit.window)
+        .sort((a, b) => a.at - b.at);
+      const usage = {
+        credits: recent.reduce((sum, entry) => sum + entry.credits, 0),
+        tasks: recent.length
+      };
+      const excessTasks = limit.maxTasks === undefined ? 0 : usage.tasks + 1 - limit.maxTasks;
+      const excessCredits = limit.maxCredits === undefined ? 0 : usage.credits + credits - limit.maxCredits;
+      if (excessTasks <= 0 && excessCredits <= 0) {
+        continue;
+      }
+
+      // Wait until enough of the oldest entries leave the window
+      let retryAfter: number | undefined;
+      if (limit.maxTasks !== 0 && (limit.maxCredits === undefined || credits <= limit.maxCredits)) {
+        let freedTasks = 0;
+        let freedCredits = 0;
+        for (const entry of recent) {
+          freedTasks++;
+          freedCredits += entry.credits;
+          if (freedTasks >= excessTasks && freedCredits >= excessCredits) {
+            retryAfter = entry.at + limit.window - now;
+            break;
+          }
+        }
+      }
+      throw new BudgetExceededError(limit, usage, credits, tag, retryAfter);
+    }
+  }
+
+  /**
+   * Applies a change to the stored entries after earlier updates finish.
+   * @internal
+   */
+  private update(change: (entries: BudgetEntry[], now: number) => void): Promise<void> {
+    const next = this.writes.catch(() => undefined).then(async () => {
+      const now = Date.now();
+      // Copy, since in-memory stores return the stored object itself
+      const entries = ((await this.store.get<BudgetEntry[]>(this.key)) ?? [])
+        .filter((entry) => entry.at > now - this.retention)
+        .map((entry) => ({ ...entry }));
+      change(entries, now);
+      if (entries.length === 0) {
+        await this.store.delete(this.key);
+      } else {
+        await this.store.set(this.key, entries, { ttl: this.retention });
+      }
+    });
+    this.writes = next;
+    return next;
+  }
+}
@@ -3,9 +3,83 @@
  * @description High-level client for 3D generation with polling support
  */
 
-import { AbstractProvider } from './AbstractProvider';
-import { TaskParams, StandardTask, TaskStatus } from '../types';
+import { AbstractProvider, RequestOptions } from './AbstractProvider';
+import { TaskParams, StandardTask, TaskStatus, RetryInfo, TaskStore, TaskId, TypedTask, CostEstimate } from '../types';
 import { EventEmitter } from 'eventemitter3';
+import { createAbortError, sleep, throwIfAborted } from '../utils/abort';
+import { SubmissionQueue, QueueOptions } from './SubmissionQueue';
+import { Middleware, MiddlewareChain } from './Middleware';
+import { MemoryTaskStore } from '../stores/MemoryTaskStore';
+import { stableHash } from '../utils/hash';
+import { PollingStrategy, AdaptivePollingStrategy, FixedIntervalStrategy } from './PollingStrategy';
+import { CheckpointOptions, CheckpointRegistry, PollCheckpoint } from './PollCheckpoints';
+import { BudgetLedger, BudgetOptions } from './Budget';
+
+/**
+ * Task statuses that end polling.
+ * @internal
+ */
+const TERMINAL_STATUSES: TaskStatus[] = [
+  TaskStatus.SUCCEEDED,
+  TaskStatus.FAILED,
+  TaskStatus.TIMEOUT,
+  TaskStatus.CANCELED
+];
+
+/**
+ * Default time an idempotency key maps to its task (24 hours).
+ * @internal
+ */
+const IDEMPOTENCY_TTL = 24 * 60 * 60 * 1000;
+
+/**
+ * How long an idempotency key stays reserved for a submission in progress
+ * (10 minutes), so a process that dies mid-submission does not block it.
+ * @internal
+ */
+const IDEMPOTENCY_RESERVATION_TTL = 10 * 60 * 1000;
+
+/**
+ * How often a call waiting on another process's reservation checks it.
+ * @internal
+ */
+const IDEMPOTENCY_WAIT_INTERVAL = 500;
+
+/**
+ * Idempotency store entry: the task ID, or a reservation while the
+ * submission is in progress.
+ * @internal
+ */
+type IdempotencyRecord = string | { pending: true };
+
+/**
+ * Default time a cached result is reused (24 hours).
+ * @internal
+ */
+const RESULT_CACHE_TTL = 24 * 60 * 60 * 1000;
+
+/**
+ * Default time a polling checkpoint is kept without updates (24 hours).
+ * @internal
+ */
+const CHECKPOINT_TTL = 24 * 60 * 60 * 1000;
+
+/**
+ * Default polling timeout (5 minutes).
+ * @internal
+ */
+const DEFAULT_POLL_TIMEOUT = 300000;
+
+/**
+ * Internal state passed between polling helpers.
+ * @internal
+ */
+interface PollSession {
+  /** Scheduler for status requests (batch polling) */
+  scheduler?: SubmissionQueue;
+  /** Checkpoint being resumed */
+  resume?: PollCheckpoint;
+}
 
 /**
  * Custom error class for API-level errors (HTTP errors, validation errors, etc.).
@@ -33,13 +107,16 @@ export class ApiError extends Error {
   readonly httpStatus?: number;
   /** Raw provider response for debugging */
   readonly raw: unknown;
+  /** Server-requested delay before retrying, in milliseconds (from `Retry-After`) */
+  readonly retryAfter?: number;
 
-  constructor(message: string, code: string, raw?: unknown, httpStatus?: number) {
+  constructor(message: string, code: string, raw?: unknown, httpStatus?: number, retryAfter?: number) {
     super(`${message} (code: ${code})`);
     this.name = 'ApiError';
     this.code = code;
     this.raw = raw;
     this.httpStatus = httpStatus;
+    this.retryAfter = retryAfter;
   }
 }
 
@@ -79,6 +156,47 @@ export class TaskError extends Error {
   }
 }
 
+/**
+ * Error thrown when polling exceeds its timeout.
+ *
+ * @remarks
+ * A poll timeout does not mean the task failed: the provider may still be
+ * working on it. The task can be polled again later with the same `taskId`.
+ *
+ * Pass `onTimeout: 'resolve'` to {@link Magi3DClient.pollUntilDone} to
+ * resolve with the last snapshot marked {@link TaskStatus.TIMEOUT} instead.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await client.pollUntilDone(taskId, { timeout: 60000 });
+ * } catch (error) {
+ *   if (error instanceof PollTimeoutError) {
+ *     console.log(`Still ${error.task?.status} after ${error.elapsed}ms`);
+ *     queue.add('track-task', { taskId: error.taskId });
+ *   }
+ * }
+ * ```
+ */
+export class PollTimeoutError extends Error {
+  /** The SDK error code */
+  readonly code = 'POLL_TIMEOUT';
+  /** The task ID that was being polled */
+  readonly taskId: string;
+  /** Time spent polling, in milliseconds */
+  readonly elapsed: number;
+  /** Last task snapshot (undefined if no status fetch succeeded) */
+  readonly task?: StandardTask;
+
+  constructor(taskId: string, timeout: number, elapsed: number, task?: StandardTask) {
+    super(`Task ${taskId} timed out after ${timeout}ms`);
+    this.name = 'PollTimeoutError';
+    this.taskId = taskId;
+    this.elapsed = elapsed;
+    this.task = task;
+  }
+}
+
 /**
  * Configuration options for polling task status.
  *
@@ -94,17 +212,33 @@ export class TaskError extends Error {
  */
 export interface PollOptions {
   /**
-   * Time between status checks in milliseconds.
-   * @defaultValue 3000
+   * Fixed time between status checks in milliseconds.
+   * Shorthand for `strategy: new FixedIntervalStrategy(interval)`.
    */
   interval?: number;
 
+  /**
+   * Decides the time between status checks. Takes precedence over
+   * `interval`. Defaults to the client's `polling` strategy.
+   */
+  strategy?: PollingStrategy;
+
   /**
    * Maximum total wait time in milliseconds before timing out.
    * @defaultValue 300000 (5 minutes)
    */
   timeout?: number;
 
+  /**
+   * What to do when `timeout` is exceeded:
+   * - `'reject'` - reject with {@link PollTimeoutError}
+   * - `'resolve'` - resolve with the last snapshot, with `status` set to
+   *   `TIMEOUT` and `error.code` set to `POLL_TIMEOUT` (rejects anyway if
+   *   no status fetch succeeded)
+   * @defaultValue 'reject'
+   */
+  onTimeout?: 'reject' | 'resolve';
+
   /**
    * Maximum number of consecutive network errors before giving up.
    * Resets to 0 after each successful status fetch.
@@ -119,16 +253,382 @@ export interface PollOptions {
    * @param task - Current task status
    */
   onProgress?: (task: StandardTask) => void;
+
+  /**
+   * Signal that stops polling and aborts the in-flight status request.
+   * Polling rejects with the signal's abort reason.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Saves polling state to the client's checkpoint store after each check,
+   * so {@link Magi3DClient.resumePending} can pick the task up after a
+   * restart. Applies to `pollUntilDone()` and `pollMany()`.
+   *
+   * @remarks
+   * The checkpoint is removed when polling ends, except when stopped by
+   * `signal`: aborting on shutdown leaves the task to be resumed.
+   * @defaultValue false
+   */
+  checkpoint?: boolean;
+}
+
+/**
+ * Configuration options for {@link Magi3DClient.watchTask}.
+ *
+ * @remarks
+ * Same as {@link PollOptions} without `onProgress`; snapshots are delivered
+ * through the async iterator instead.
+ */
+export type WatchOptions = Omit<PollOptions, 'onProgress'>;
+
+/**
+ * Options for {@link Magi3DClient.createTask}.
+ *
+ * @example
+ * ```typescript
+ * const controller = new AbortController();
+ * request.signal.addEventListener('abort', () => controller.abort());
+ *
+ * const taskId = await client.createTask(params, { signal: controller.signal });
+ * ```
+ */
+export interface CreateTaskOptions extends RequestOptions {
+  /**
+   * Key identifying this submission.
+   *
+   * @remarks
+   * Repeat calls with the same key (e.g., a retried API request) return
+   * the task ID of the first submission instead of creating, and paying
+   * for, another task. Keys are remembered in the client's idempotency
+   * store for `idempotency.ttl` (see {@link Magi3DClientOptions.idempotency}).
+   * A failed submission does not record the key, so it can be retried.
+   */
+  idempotencyKey?: string;
+
+  /**
+   * Skips the result cache lookup and always submits a new task.
+   * The new task replaces the cached entry.
+   */
+  bypassCache?: boolean;
+
+  /**
+   * How long this task can be reused from the result cache, in milliseconds.
+   * Overrides `cache.ttl` (see {@link Magi3DClientOptions.cache}).
+   */
+  cacheTtl?: number;
+
+  /**
+   * Budget tag (e.g., a tenant or user ID) the task counts against, in
+   * addition to the global limits (see {@link Magi3DClientOptions.budget}).
+   */
+  tag?: string;
+
+  /**
+   * Credits to record against the budget, instead of the provider's
+   * estimate (see {@link Magi3DClient.estimateCost}).
+   */
+  cost?: number;
+}
+
+/**
+ * Options for {@link Magi3DClient.createTasks}.
+ *
+ * @typeParam P - Task params type of the batch
+ *
+ * @example
+ * ```typescript
+ * const results = await client.createTasks(items.map((item) => item.params), {
+ *   idempotencyKey: (params, index) => `${batchId}:${items[index].id}`
+ * });
+ * ```
+ */
+export interface CreateTasksOptions<P extends TaskParams = TaskParams>
+  extends Omit<CreateTaskOptions, 'idempotencyKey'> {
+  /**
+   * Builds the idempotency key of each submission (see
+   * {@link CreateTaskOptions.idempotencyKey}). Return `undefined` to
+   * submit an entry without a key.
+   *
+   * @param params - Parameters of the entry
+   * @param index - Position of the entry in the batch
+   */
+  idempotencyKey?: (params: P, index: number) => string | undefined;
+}
+
+/**
+ * Result cache settings for {@link Magi3DClientOptions.cache}.
+ */
+export interface ResultCacheOptions {
+  /**
+   * Store mapping parameter hashes to task IDs.
+   * Defaults to a {@link MemoryTaskStore}.
+   */
+  store?: TaskStore;
+
+  /**
+   * How long a task can be reused, in milliseconds. Keep this below the
+   * provider's task retention, since cached tasks are re-fetched from it.
+   * @defaultValue 86400000 (24 hours)
+   */
+  ttl?: number;
+}
+
+/**
+ * Idempotency settings for {@link Magi3DClientOptions.idempotency}.
+ */
+export interface IdempotencyOptions {
+  /**
+   * Store mapping idempotency keys to task IDs.
+   *
+   * @remarks
+   * Defaults to a {@link MemoryTaskStore}, which only deduplicates within
+   * one process. Use a shared store (e.g., Redis) when requests can be
+   * retried against other server instances.
+   */
+  store?: TaskStore;
+
+  /**
+   * How long a key maps to its task, in milliseconds.
+   * @defaultValue 86400000 (24 hours)
+   */
+  ttl?: number;
+}
+
+/**
+ * Configuration options for {@link Magi3DClient}.
+ *
+ * @example
+ * ```typescript
+ * const client = new Magi3DClient(provider, {
+ *   queue: { maxConcurrent: 3, requestsPerSecond: 2 }
+ * });
+ * ```
+ */
+export interface Magi3DClientOptions {
+  /**
+   * Submission queue for `createTask()`.
+   *
+   * @remarks
+   * When set, submissions are limited to `maxConcurrent` in flight and
+   * `requestsPerSecond` started, and submissions rejected with a rate-limit
+   * error are held and retried automatically. When omitted, `createTask()`
+   * calls the provider directly.
+   */
+  queue?: QueueOptions;
+
+  /**
+   * Middleware applied to `createTask()`, `getTask()` and each polling tick.
+   * More can be added later with {@link Magi3DClient.use}.
+   */
+  middleware?: Middleware[];
+
+  /**
+   * Request budget shared by {@link Magi3DClient.createTasks} and
+   * {@link Magi3DClient.pollMany}.
+   *
+   * @remarks
+   * All batch submissions and status requests go through one scheduler
+   * (submissions use the submission queue instead, when one is
+   * configured), which spaces them evenly at `requestsPerSecond` (default: 5) with at
+   * most `maxConcurrent` (default: 10) in flight. When many tasks are polled,
+   * each task is simply polled less often than its strategy asks for.
+   */
+  batch?: QueueOptions;
+
+  /**
+   * Where `idempotencyKey`s passed to `createTask()` are remembered.
+   */
+  idempotency?: IdempotencyOptions;
+
+  /**
+   * Enables the result cache for `createTask()`.
+   *
+   * @remarks
+   * Submissions are keyed by a stable hash of the params (after middleware)
+   * and the provider name. Submitting the same params again returns the
+   * earlier task ID instead of creating, and paying for, a new task, as
+   * long as that task is still running or succeeded. The cached task is
+   * re-fetched from the provider, so polling it returns fresh artifact URLs
+   * (Tripo URLs expire after 5 minutes).
+   *
+   * Disabled when omitted; pass `{}` to use the defaults.
+   */
+  cache?: ResultCacheOptions;
+
+  /**
+   * Default polling strategy, used when polling calls pass neither
+   * `strategy` nor `interval`.
+   *
+   * @remarks
+   * Defaults to an {@link AdaptivePollingStrategy}, which checks sparsely
+   * at first and more often near the expected completion, and learns task
+   * durations per provider and task type over the client's lifetime.
+   */
+  polling?: PollingStrategy;
+
+  /**
+   * Where polling checkpoints are saved (see {@link PollOptions.checkpoint}).
+   */
+  checkpoints?: CheckpointOptions;
+
+  /**
+   * Spend limits enforced by `createTask()`.
+   *
+   * @remarks
+   * Each submission is recorded with its estimated cost (or
+   * `CreateTaskOptions.cost`), globally and under its `tag`. A submission
+   * that would exceed a limit within its window is rejected with
+   * {@link BudgetExceededError} before the provider is called. Tasks
+   * without a price count as 0 credits but still count as tasks. Failed
+   * submissions and cache hits are not recorded.
+   *
+   * Disabled when omitted.
+   */
+  budget?: BudgetOptions;
+}
+
+/**
+ * Aggregate progress reported by {@link Magi3DClient.pollMany}.
+ */
+export interface BatchProgress {
+  /** Number of tasks being polled */
+  total: number;
+  /** Tasks that succeeded */
+  succeeded: number;
+  /** Tasks that failed, were canceled, timed out or could not be polled */
+  failed: number;
+  /** Tasks still running */
+  pending: number;
+  /** Average progress across all tasks (0-100, settled tasks count as 100) */
+  progress: number;
+  /** The snapshot that triggered this update (if any) */
+  task?: StandardTask;
+}
+
+/**
+ * Options for {@link Magi3DClient.pollMany}.
+ *
+ * @remarks
+ * Polling options apply to each task. `onProgress` receives aggregate
+ * progress instead of single task snapshots.
+ */
+export interface PollManyOptions extends Omit<PollOptions, 'onProgress'> {
+  /**
+   * Called whenever a task is polled or settles.
+   * @param progress - Aggregate progress across all tasks
+   */
+  onProgress?: (progress: BatchProgress) => void;
+}
+
+/**
+ * Fields shared by all task lifecycle events.
+ */
+export interface TaskEvent {
+  /** Task ID (as returned by `createTask()`) */
+  taskId: string;
+  /** Name of the client's provider (e.g., 'Tripo') */
+  provider: string;
+}
+
+/**
+ * Payload of the `created` event.
+ */
+export interface TaskCreatedEvent extends TaskEvent {
+  /** The params that were submitted (after middleware) */
+  params: TaskParams;
+}
+
+/**
+ * Payload of the `cacheHit` event.
+ */
+export interface TaskCacheHitEvent extends TaskEvent {
+  /** The params that matched the cache (after middleware) */
+  params: TaskParams;
+  /** Current status of the cached task */
+  task: StandardTask;
+}
+
+/**
+ * Payload of the `statusChange` event.
+ */
+export interface TaskStatusChangeEvent extends TaskEvent {
+  /** Previous status (`undefined` on the first poll) */
+  previous?: TaskStatus;
+  /** New status */
+  next: TaskStatus;
+  /** Task snapshot with the new status */
+  task: StandardTask;
+}
+
+/**
+ * Payload of the `succeeded`, `failed` and `canceled` events.
+ */
+export interface TaskSettledEvent extends TaskEvent {
+  /** Final task snapshot */
+  task: StandardTask;
+}
+
+/**
+ * Payload of the `resumed` event.
+ */
+export interface TaskResumedEvent extends TaskEvent {
+  /** The checkpoint polling resumes from */
+  checkpoint: PollCheckpoint;
+}
+
+/**
+ * Payload of the `timeout` event.
+ */
+export interface TaskTimeoutEvent extends TaskEvent {
+  /** Time spent polling, in milliseconds */
+  elapsed: number;
+  /** Last task snapshot, if any status was fetched */
+  task?: StandardTask;
+}
+
+/**
+ * Payload of the `pollError` event.
+ */
+export interface PollErrorEvent extends TaskEvent {
+  /** The status fetch error */
+  error: unknown;
+  /** Number of consecutive failed fetches, including this one */
+  consecutiveErrors: number;
+}
+
+/**
+ * Payload of the `retry` event.
+ */
+export interface RetryEvent extends Omit<TaskEvent, 'taskId'>, RetryInfo {
+  /** Task ID (absent for submissions, which have no ID yet) */
+  taskId?: string;
+  /** The client operation being retried */
+  operation: 'createTask' | 'getTask';
 }
 
 /**
  * Events emitted by {@link Magi3DClient}.
  *
+ * @remarks
+ * Polling events (`statusChange`, terminal events, `timeout`, `pollError`)
+ * are emitted by both {@link Magi3DClient.pollUntilDone} and
+ * {@link Magi3DClient.watchTask}; `progress` is only emitted by
+ * `pollUntilDone()`.
+ *
  * @example
  * ```typescript
  * client.on('progress', (task) => {
  *   console.log(`Task ${task.id}: ${task.progress}%`);
  * });
+ *
+ * client.on('statusChange', ({ taskId, previous, next }) => {
+ *   metrics.increment('task.status', { from: previous, to: next });
+ * });
+ *
+ * client.on('failed', ({ taskId, provider, task }) => {
+ *   logger.warn(`${provider} task ${taskId} failed: ${task.error?.code}`);
+ * });
  * ```
  */
 export interface Magi3DClientEvents {
@@ -136,6 +636,36 @@ export interface Magi3DClientEvents {
    * Emitted on each polling cycle with the current task status.
    */
   progress: (task: StandardTask) => void;
+
+  /** Emitted after a task was submitted */
+  created: (event: TaskCreatedEvent) => void;
+
+  /** Emitted when `createTask()` reuses a task from the result cache */
+  cacheHit: (event: TaskCacheHitEvent) => void;
+
+  /** Emitted when `resumePending()` reattaches to a checkpointed task */
+  resumed: (event: TaskResumedEvent) => void;
+
+  /** Emitted when a polled task's status differs from the previous poll */
+  statusChange: (event: TaskStatusChangeEvent) => void;
+
+  /** Emitted when a polled task succeeds */
+  succeeded: (event: TaskSettledEvent) => void;
+
+  /** Emitted when a polled task fails */
+  failed: (event: TaskSettledEvent) => void;
+
+  /** Emitted when a polled task is canceled */
+  canceled: (event: TaskSettledEvent) => void;
+
+  /** Emitted when polling times out, or the provider reports `TIMEOUT` */
+  timeout: (event: TaskTimeoutEvent) => void;
+
+  /** Emitted when a status fetch fails during polling */
+  pollError: (event: PollErrorEvent) => void;
+
+  /** Emitted before a failed request is retried (provider or queue retries) */
+  retry: (event: RetryEvent) => void;
 }
 
 /**
@@ -198,19 +728,101 @@ export interface Magi3DClientEvents {
  * @see {@link AbstractProvider} for provider implementation details
  * @see {@link TripoProvider} for the Tripo AI provider
  */
-export class Magi3DClient extends EventEmitter {
+export class Magi3DClient extends EventEmitter<Magi3DClientEvents> {
+  /** Submission queue (present when `options.queue` is configured) */
+  private queue?: SubmissionQueue;
+
+  /** Middleware hooks applied around provider calls */
+  private middleware: MiddlewareChain;
+
+  /** Shared scheduler for batch submissions and polling */
+  private scheduler: SubmissionQueue;
+
+  /** Idempotency key store and key lifetime */
+  private idempotency: Required<IdempotencyOptions>;
+
+  /** Keyed submissions in progress in this process */
+  private pendingKeys = new Map<string, Promise<string>>();
+
+  /** Result cache store and default lifetime (disabled when undefined) */
+  private cache?: Required<ResultCacheOptions>;
+
+  /** Default polling strategy */
+  private polling: PollingStrategy;
+
+  /** Saved polling sessions of this client's provider */
+  private checkpoints: CheckpointRegistry;
+
+  /** Task IDs with checkpointed polling in progress in this process */
+  private activePolls = new Set<string>();
+
+  /** Recorded spend (disabled when undefined) */
+  private budget?: BudgetLedger;
+
   /**
    * Creates a new Magi3DClient instance.
    *
    * @param provider - The provider instance to use for API calls
+   * @param options - Client options (submission queue, middleware, etc.)
    *
    * @example
    * ```typescript
    * const client = new Magi3DClient(new TripoProvider({ apiKey: 'xxx' }));
+   *
+   * // With a rate-limit aware submission queue
+   * const client = new Magi3DClient(new TripoProvider(), {
+   *   queue: { maxConcurrent: 2, requestsPerSecond: 1 }
+   * });
    * ```
    */
-  constructor(private provider: AbstractProvider) {
+  constructor(private provider: AbstractProvider, options: Magi3DClientOptions = {}) {
     super();
+    if (options.queue) {
+      this.queue = new SubmissionQueue(options.queue);
+    }
+    this.middleware = new MiddlewareChain(options.middleware);
+    this.scheduler = new SubmissionQueue({ requestsPerSecond: 5, maxConcurrent: 10, ...options.batch });
+    this.idempotency = {
+      store: options.idempotency?.store ?? new MemoryTaskStore(),
+      ttl: options.idempotency?.ttl ?? IDEMPOTENCY_TTL
+    };
+    this.polling = options.polling ?? new AdaptivePollingStrategy();
+    this.checkpoints = new CheckpointRegistry(
+      options.checkpoints?.store ?? new MemoryTaskStore(),
+      `poll:${provider.name}:pending:`,
+      options.checkpoints?.ttl ?? CHECKPOINT_TTL
+    );
+    if (options.cache) {
+      this.cache = {
+        store: options.cache.store ?? new MemoryTaskStore(),
+        ttl: options.cache.ttl ?? RESULT_CACHE_TTL
+      };
+    }
+    if (options.budget) {
+      this.budget = new BudgetLedger(
+        options.budget.store ?? new MemoryTaskStore(),
+        `budget:${provider.name}`,
+        options.budget
+      );
+    }
+  }
+
+  /**
+   * Adds a middleware to the end of the chain.
+   *
+   * @param middleware - Hooks to apply to subsequent calls
+   * @returns This client, for chaining
+   *
+   * @example
+   * ```typescript
+   * client
+   *   .use({ beforeCreate: (params) => ({ ...params, providerOptions: { pbr: true } }) })
+   *   .use({ onError: (error) => Sentry.captureException(error) });
+   * ```
+   */
+  use(middleware: Middleware): this {
+    this.middleware.use(middleware);
+    return this;
   }
 
   /**
@@ -220,10 +832,33 @@ export class Magi3DClient extends EventEmitter {
    * This is the unified entry point for all operations. The `type` field
    * in params determines what operation is performed.
    *
+   * When a submission queue is configured, the call waits for a free slot
+   * and is retried automatically on rate-limit errors.
+   *
+   * Middleware `beforeCreate` hooks run before submission and `afterCreate`
+   * hooks after it; failures pass through `onError` hooks.
+   *
+   * With an `idempotencyKey`, a repeat submission returns the task ID of
+   * the first one (without running middleware or emitting `created`).
+   *
+   * When the result cache is enabled, params matching a running or
+   * succeeded task return that task's ID and emit `cacheHit` instead of
+   * `created`.
+   *
+   * The returned ID is a string typed as {@link TaskId}, which remembers
+   * the params type. Polling it yields a {@link TypedTask} whose `result`
+   * only has the fields that task type produces (e.g., `riggable` for
+   * `PRE_RIG_CHECK`).
+   *
+   * @typeParam P - Task params type, inferred from `params`
    * @param params - Task parameters (type determines the operation)
+   * @param options - Creation options (e.g., abort signal, idempotency key)
    * @returns Promise resolving to the task ID
    *
    * @throws Error if the provider API returns an error
+   * @throws BudgetExceededError if the submission would exceed a budget limit
+   * @throws Error thrown (or returned by `onError`) by middleware
+   * @throws Error named `AbortError` if `options.signal` is aborted
    *
    * @example
    * ```typescript
@@ -256,16 +891,252 @@ export class Magi3DClient extends EventEmitter {
    *   taskId: originalTaskId,
    *   format: 'fbx'
    * });
+   *
+   * // Safe to retry: the same request ID always maps to one task
+   * const taskId = await client.createTask(params, { idempotencyKey: req.headers['idempotency-key'] });
+   * ```
+   */
+  async createTask<P extends TaskParams>(params: P, options: CreateTaskOptions = {}): Promise<TaskId<P>> {
+    return this.submit(params, options, this.queue);
+  }
+
+  /**
+   * Submits a task through a queue (if any), honoring its idempotency key.
+   * @internal
+   */
+  private submit(params: TaskParams, options: CreateTaskOptions, queue?: SubmissionQueue): Promise<string> {
+    const { idempotencyKey } = options;
+    return idempotencyKey
+      ? this.submitOnce(idempotencyKey, params, options, queue)
+      : this.submitTask(params, options, queue);
+  }
+
+  /**
+   * Submits a task unless its idempotency key already maps to one.
+   *
+   * @remarks
+   * Concurrent calls with the same key in this process share one
+   * submission. Across processes, the key is reserved with the store's
+   * `setIfAbsent` before submitting; other callers wait for the reservation
+   * to turn into a task ID (or to be released if the submission fails).
+   * Stores without `setIfAbsent` are only checked before submitting.
+   *
+   * @internal
+   */
+  private submitOnce(
+    idempotencyKey: string,
+    params: TaskParams,
+    options: CreateTaskOptions,
+    queue?: SubmissionQueue
+  ): Promise<string> {
+    const key = `idempotency:${this.provider.name}:${idempotencyKey}`;
+    const pending = this.pendingKeys.get(key);
+    if (pending) {
+      return pending;
+    }
+
+    const { store, ttl } = this.idempotency;
+    const submission = (async () => {
+      if (!store.setIfAbsent) {
+        const existing = await store.get<string>(key);
+        if (existing) {
+          return existing;
+        }
+      } else {
+        const reservation: IdempotencyRecord = { pending: true };
+        while (!(await store.setIfAbsent(key, reservation, { ttl: IDEMPOTENCY_RESERVATION_TTL }))) {
+          const existing = await this.waitForSubmission(store, key, options.signal);
+          if (existing) {
+            return existing;
+          }
+          // The other submission failed and released the key
+        }
+      }
+
+      let taskId: string;
+      try {
+        taskId = await this.submitTask(params, options, queue);
+      } catch (error) {
+        if (store.setIfAbsent) {
+          await store.delete(key);
+        }
+        throw error;
+      }
+      await store.set<IdempotencyRecord>(key, taskId, { ttl });
+      return taskId;
+    })().finally(() => this.pendingKeys.delete(key));
+
+    this.pendingKeys.set(key, submission);
+    return submission;
+  }
+
+  /**
+   * Waits until another submission's reservation of a key turns into a
+   * task ID, or is released.
+   * @internal
+   */
+  private async waitForSubmission(store: TaskStore, key: string, signal?: AbortSignal): Promise<string | undefined> {
+    while (true) {
+      const record = await store.get<IdempotencyRecord>(key);
+      if (typeof record !== 'object') {
+        return record;
+      }
+      await sleep(IDEMPOTENCY_WAIT_INTERVAL, signal);
+    }
+  }
+
+  /**
+   * Runs middleware and submits a task to the provider (through the queue).
+   *
+   * @remarks
+   * A queue owns rate-limit retries, so the provider does not retry rate
+   * limits on submissions made through one.
+   * @internal
+   */
+  private async submitTask(params: TaskParams, options: CreateTaskOptions, queue?: SubmissionQueue): Promise<string> {
+    const { signal } = options;
+    const onRetry = this.createRetryListener('createTask', undefined, options.onRetry);
+    try {
+      const prepared = await this.middleware.beforeCreate(params);
+      const cacheKey = this.cache && `cache:${this.provider.name}:${stableHash(prepared)}`;
+      if (this.cache && cacheKey && !options.bypassCache) {
+        const cached = await this.getCachedTask(this.cache.store, cacheKey, signal);
+        if (cached) {
+          this.emit('cacheHit', { taskId: cached.id, provider: this.provider.name, params: prepared, task: cached });
+          return cached.id;
+        }
+      }
+
+      // Resolve before reserving, so a failed lookup holds no budget
+      const submitted = await this.resolveSourceTaskId(prepared);
+      const reservation = this.budget && await this.budget.reserve(
+        options.cost ?? this.provider.estimateCost(prepared)?.amount ?? 0,
+        options.tag
+      );
+      const submit = () => this.provider.createTask(submitted, { signal, onRetry, retryRateLimits: !queue });
+      let providerTaskId: string;
+      try {
+        providerTaskId = await (queue ? queue.run(submit, signal, onRetry) : submit());
+      } catch (error) {
+        if (reservation) {
+          await this.budget?.release(reservation);
+        }
+        throw error;
+      }
+      const taskId = await this.middleware.afterCreate(providerTaskId, prepared);
+      if (reservation) {
+        await this.budget?.commit(reservation, taskId);
+      }
+
+      if (this.cache && cacheKey) {
+        await this.cache.store.set(cacheKey, taskId, { ttl: options.cacheTtl ?? this.cache.ttl });
+      }
+      this.emit('created', { taskId, provider: this.provider.name, params: prepared });
+      return taskId;
+    } catch (error) {
+      // Normalize axios cancellations to the signal's abort reason
+      if (signal?.aborted) {
+        throw createAbortError(signal);
+      }
+      throw await this.middleware.onError(error, { operation: 'createTask', params });
+    }
+  }
+
+  /**
+   * Maps the source task ID of post-processing params back to the
+   * provider's ID (see {@link Middleware.resolveTaskId}).
+   * @internal
+   */
+  private async resolveSourceTaskId(params: TaskParams): Promise<TaskParams> {
+    if (!('taskId' in params) || typeof params.taskId !== 'string') {
+      return params;
+    }
+    const taskId = await this.middleware.resolveTaskId(params.taskId);
+    return taskId === params.taskId ? params : { ...params, taskId } as TaskParams;
+  }
+
+  /**
+   * Returns the cached task for a cache key if it is still running or
+   * succeeded. Stale entries (failed, canceled, or no longer known to
+   * the provider) are removed.
+   * @internal
+   */
+  private async getCachedTask(store: TaskStore, cacheKey: string, signal?: AbortSignal): Promise<StandardTask | undefined> {
+    const taskId = await store.get<string>(cacheKey);
+    if (!taskId) {
+      return undefined;
+    }
+
+    let task: StandardTask | undefined;
+    try {
+      task = await this.provider.getTaskStatus(await this.middleware.resolveTaskId(taskId), { signal });
+    } catch (error) {
+      if (signal?.aborted) {
+        throw error;
+      }
+    }
+
+    if (!task || (task.status !== TaskStatus.SUCCEEDED && TERMINAL_STATUSES.includes(task.status))) {
+      await store.delete(cacheKey);
+      return undefined;
+    }
+    return { ...task, id: taskId };
+  }
+
+  /**
+   * Estimates the cost of a task on the client's provider.
+   *
+   * @remarks
+   * Uses the provider's pricing table (see {@link ProviderConfig.pricing}).
+   * Params are estimated as given, before middleware `beforeCreate` hooks.
+   *
+   * @param params - Task parameters
+   * @returns The estimate, or `undefined` if the provider has no price for
+   *          the task type
+   *
+   * @example
+   * ```typescript
+   * const estimate = client.estimateCost({ type: TaskType.IMAGE_TO_3D, input: imageUrl });
+   * if (estimate && estimate.amount > remainingCredits) {
+   *   throw new Error(`Needs ${estimate.amount} ${estimate.unit}`);
+   * }
+   * ```
+   */
+  estimateCost(params: TaskParams): CostEstimate | undefined {
+    return this.provider.estimateCost(params);
+  }
+
+  /**
+   * Replaces the credits recorded against the budget for a task, e.g.,
+   * with the usage reported by the provider after it finished.
+   *
+   * @remarks
+   * Does nothing when no budget is configured or the task was not
+   * submitted by this client within the longest budget window.
+   *
+   * @param taskId - Task ID returned by `createTask()`
+   * @param credits - Actual credits consumed (0 for refunded tasks)
+   *
+   * @example
+   * ```typescript
+   * // Failed tasks are refunded
+   * client.on('failed', ({ taskId }) => client.recordUsage(taskId, 0));
    * ```
    */
-  async createTask(params: TaskParams): Promise<string> {
-    return this.provider.createTask(params);
+  async recordUsage(taskId: string, credits: number): Promise<void> {
+    await this.budget?.record(taskId, credits);
   }
 
   /**
    * Fetches the current status of a task.
    *
+   * @remarks
+   * Middleware `resolveTaskId` hooks map the ID for the provider, and
+   * `afterStatus` hooks run on the result, whose `id` is the `taskId`
+   * passed in; failures pass through `onError` hooks.
+   *
    * @param taskId - The task ID to query
+   * @param options - Request options (e.g., abort signal)
    * @returns Promise resolving to the current task status
    *
    * @example
@@ -276,8 +1147,54 @@ export class Magi3DClient extends EventEmitter {
    * }
    * ```
    */
-  async getTask(taskId: string): Promise<StandardTask> {
-    return this.provider.getTaskStatus(taskId);
+  async getTask<P extends TaskParams = TaskParams>(
+    taskId: TaskId<P>,
+    options: RequestOptions = {}
+  ): Promise<TypedTask<P>> {
+    const { signal } = options;
+    const onRetry = this.createRetryListener('getTask', taskId, options.onRetry);
+    try {
+      const task = await this.provider.getTaskStatus(await this.middleware.resolveTaskId(taskId), {
+        signal,
+        onRetry,
+        retryRateLimits: options.retryRateLimits
+      });
+      // Report the ID the caller knows, even if middleware rewrote it
+      return (await this.middleware.afterStatus({ ...task, id: taskId })) as TypedTask<P>;
+    } catch (error) {
+      if (signal?.aborted) {
+        throw createAbortError(signal);
+      }
+      throw await this.middleware.onError(error, { operation: 'getTask', taskId });
+    }
+  }
+
+  /**
+   * Cancels a pending or running task.
+   *
+   * @remarks
+   * Cancellation stops the provider from processing (and billing) the task.
+   * Providers that cannot cancel reject with an {@link ApiError} whose code
+   * is `UNSUPPORTED`.
+   *
+   * @param taskId - The task ID to cancel
+   *
+   * @throws ApiError with code `UNSUPPORTED` if the provider cannot cancel tasks
+   * @throws ApiError if the cancellation request fails
+   *
+   * @example
+   * ```typescript
+   * try {
+   *   await client.cancelTask(taskId);
+   * } catch (error) {
+   *   if (error instanceof ApiError && error.code === 'UNSUPPORTED') {
+   *     console.log('Task will run to completion');
+   *   }
+   * }
+   * ```
+   */
+  async cancelTask(taskId: string): Promise<void> {
+    return this.provider.cancelTask(await this.middleware.resolveTaskId(taskId));
   }
 
   /**
@@ -285,25 +1202,34 @@ export class Magi3DClient extends EventEmitter {
    *
    * @remarks
    * **Behavior:**
-   * - Polls at regular intervals until task reaches a terminal state
+   * - Polls until task reaches a terminal state, spacing checks with the
+   *   polling strategy (adaptive by default, fixed when `interval` is set)
    * - Emits 'progress' events on each successful poll
    * - Implements exponential backoff on network errors
    * - Respects maximum retry limit for consecutive failures
+   * - Stops immediately when `options.signal` is aborted
    *
    * **Terminal States:**
    * - `SUCCEEDED` - Resolves with the completed task
    * - `FAILED` - Rejects with error containing failure details
    * - `CANCELED` - Rejects with cancellation error
-   * - `TIMEOUT` - Rejects when timeout is exceeded
+   * - `TIMEOUT` (reported by the provider) - Rejects with {@link TaskError}
+   *
+   * When `options.timeout` is exceeded, rejects with {@link PollTimeoutError},
+   * or resolves with the last snapshot marked `TIMEOUT` if
+   * `options.onTimeout` is `'resolve'`.
    *
+   * @typeParam P - Params type of the task, inferred from a {@link TaskId}
    * @param taskId - The task ID to poll
    * @param options - Polling configuration options
-   * @returns Promise resolving to the completed task
+   * @returns Promise resolving to the completed task (or the timed-out task),
+   *          with `result` narrowed to the task type
    *
-   * @throws Error if task fails with error details
-   * @throws Error if task is cancelled
-   * @throws Error if timeout is exceeded
+   * @throws TaskError if task fails with error details
+   * @throws TaskError if task is cancelled
+   * @throws PollTimeoutError if timeout is exceeded
    * @throws Error if max retries exceeded due to network errors
+   * @throws Error named `AbortError` if `options.signal` is aborted
    *
    * @example
    * ```typescript
@@ -321,67 +1247,483 @@ export class Magi3DClient extends EventEmitter {
    * }
    * ```
    */
-  async pollUntilDone(taskId: string, options: PollOptions = {}): Promise<StandardTask> {
+  async pollUntilDone<P extends TaskParams = TaskParams>(
+    taskId: TaskId<P>,
+    options: PollOptions = {}
+  ): Promise<TypedTask<P>> {
+    return this.awaitTask(taskId, options) as Promise<TypedTask<P>>;
+  }
+
+  /**
+   * Submits multiple tasks through the shared batch scheduler.
+   *
+   * @remarks
+   * Submissions are spread evenly under the client's batch request budget
+   * (see {@link Magi3DClientOptions.batch}), or go through the submission
+   * queue when one is configured. One failed submission does not
+   * affect the others; results are returned in input order, like
+   * `Promise.allSettled`.
+   *
+   * @param paramsList - Parameters of each task
+   * @param options - Creation options applied to every submission, and
+   *   a function giving each one its own idempotency key
+   * @returns Settled result (task ID or error) for each params entry
+   *
+   * @example
+   * ```typescript
+   * const results = await client.createTasks(images.map((input) => ({
+   *   type: TaskType.IMAGE_TO_3D,
+   *   input
+   * })));
+   *
+   * const taskIds = results
+   *   .filter((r): r is PromiseFulfilledResult<string> => r.status === 'fulfilled')
+   *   .map((r) => r.value);
+   * ```
+   */
+  async createTasks<P extends TaskParams>(
+    paramsList: P[],
+    options: CreateTasksOptions<P> = {}
+  ): Promise<PromiseSettledResult<TaskId<P>>[]> {
+    const { idempotencyKey, ...shared } = options;
+    return Promise.allSettled(paramsList.map((params, index) =>
+      this.submit(
+        params,
+        { ...shared, idempotencyKey: idempotencyKey?.(params, index) },
+        this.queue ?? this.scheduler
+      ) as Promise<TaskId<P>>
+    ));
+  }
+
+  /**
+   * Polls multiple tasks until each settles, using the shared batch scheduler.
+   *
+   * @remarks
+   * Instead of one independent polling loop per task, all status requests
+   * go through one scheduler that spreads them evenly under the client's
+   * batch request budget (see {@link Magi3DClientOptions.batch}).
+   *
+   * Each task settles like {@link pollUntilDone}: fulfilled with the
+   * succeeded task, or rejected with {@link TaskError},
+   * {@link PollTimeoutError}, etc. Results are returned in input order,
+   * like `Promise.allSettled`.
+   *
+   * @param taskIds - Task IDs to poll
+   * @param options - Polling options (per task) and aggregate progress callback
+   * @returns Settled result for each task ID
+   *
+   * @example
+   * ```typescript
+   * const results = await client.pollMany(taskIds, {
+   *   onProgress: ({ succeeded, failed, total, progress }) => {
+   *     console.log(`${succeeded + failed}/${total} done (${progress}%)`);
+   *   }
+   * });
+   *
+   * for (const [i, result] of results.entries()) {
+   *   if (result.status === 'fulfilled') {
+   *     console.log(taskIds[i], result.value.result?.model);
+   *   } else {
+   *     console.error(taskIds[i], result.reason);
+   *   }
+   * }
+   * ```
+   */
+  async pollMany<P extends TaskParams = TaskParams>(
+    taskIds: TaskId<P>[],
+    options: PollManyOptions = {}
+  ): Promise<PromiseSettledResult<TypedTask<P>>[]> {
+    const { onProgress, ...pollOptions } = options;
+    const total = taskIds.length;
+    const snapshots: Array<StandardTask | undefined> = new Array(total);
+    const settled: boolean[] = new Array(total).fill(false);
+    let succeeded = 0;
+    let failed = 0;
+
+    const report = (task?: StandardTask) => {
+      if (!onProgress) {
+        return;
+      }
+      const sum = snapshots.reduce((acc, snapshot, i) => acc + (settled[i] ? 100 : snapshot?.progress ?? 0), 0);
+      onProgress({
+        total,
+        succeeded,
+        failed,
+        pending: total - succeeded - failed,
+        progress: total === 0 ? 100 : Math.round(sum / total),
+        task
+      });
+    };
+
+    const settle = (index: number, success: boolean) => {
+      if (settled[index]) {
+        return false;
+      }
+      settled[index] = true;
+      success ? succeeded++ : failed++;
+      return true;
+    };
+
+    return Promise.allSettled(taskIds.map(async (taskId, index) => {
+      try {
+        return (await this.awaitTask(taskId, {
+          ...pollOptions,
+          onProgress: (task) => {
+            snapshots[index] = task;
+            if (TERMINAL_STATUSES.includes(task.status)) {
+              settle(index, task.status === TaskStatus.SUCCEEDED);
+            }
+            report(task);
+          }
+        }, { scheduler: this.scheduler })) as TypedTask<P>;
+      } catch (error) {
+        if (settle(index, false)) {
+          report(snapshots[index]);
+        }
+        throw error;
+      }
+    }));
+  }
+
+  /**
+   * Resumes polling of tasks checkpointed by an earlier process.
+   *
+   * @remarks
+   * Call this once after startup. Every checkpoint of this client's provider
+   * (see {@link PollOptions.checkpoint}) is reattached: a `resumed` event is
+   * emitted, then polling continues with the remaining timeout budget and
+   * emits the usual lifecycle events. The first check always emits
+   * `statusChange`, plus `succeeded`/`failed` if the task finished while
+   * the process was down.
+   *
+   * Tasks already being polled with checkpoints by this client are skipped.
+   *
+   * @param options - Polling options for the resumed tasks (the timeout
+   *                  comes from each checkpoint)
+   * @returns Settled result for each resumed task, like {@link pollMany}
+   *
+   * @throws Error if the checkpoint store does not implement `keys()`
+   *
+   * @example
+   * ```typescript
+   * const client = new Magi3DClient(provider, {
+   *   checkpoints: { store: new FileTaskStore('./data/polls.json') }
+   * });
+   *
+   * client.on('succeeded', ({ taskId, task }) => db.tasks.complete(taskId, task.result));
+   * client.on('failed', ({ taskId, task }) => db.tasks.fail(taskId, task.error));
+   *
+   * // On startup
+   * void client.resumePending();
+   *
+   * // When handling new tasks
+   * await client.pollUntilDone(taskId, { checkpoint: true });
+   * ```
+   */
+  async resumePending(
+    options: Omit<PollOptions, 'timeout' | 'checkpoint'> = {}
+  ): Promise<PromiseSettledResult<StandardTask>[]> {
+    const pending = (await this.checkpoints.list()).filter(({ taskId }) => !this.activePolls.has(taskId));
+
+    return Promise.allSettled(pending.map((checkpoint) => {
+      this.emit('resumed', { taskId: checkpoint.taskId, provider: this.provider.name, checkpoint });
+      return this.awaitTask(
+        checkpoint.taskId,
+        { ...options, timeout: checkpoint.timeout, checkpoint: true },
+        { resume: checkpoint }
+      );
+    }));
+  }
+
+  /**
+   * Polls a task to completion, optionally routing status requests through
+   * a scheduler and checkpointing progress.
+   * @internal
+   */
+  private async awaitTask(taskId: string, options: PollOptions, session: PollSession = {}): Promise<StandardTask> {
+    const { onProgress, signal, timeout = DEFAULT_POLL_TIMEOUT } = options;
+    const { resume } = session;
+    const checkpointed = options.checkpoint === true;
+    const startedAt = resume?.startedAt ?? Date.now();
+    const pollStart = Date.now() - (resume?.elapsed ?? 0);
+
+    const saveCheckpoint = (lastStatus?: TaskStatus) => this.checkpoints.save({
+      taskId,
+      provider: this.provider.name,
+      startedAt,
+      timeout,
+      elapsed: Date.now() - pollStart,
+      lastStatus,
+      updatedAt: Date.now()
+    });
+
+    try {
+      if (checkpointed) {
+        this.activePolls.add(taskId);
+        await saveCheckpoint(resume?.lastStatus);
+      }
+
+      for await (const task of this.pollTask(taskId, options, session)) {
+        // Emit progress event
+        this.emit('progress', task);
+
+        // Call progress callback if provided
+        onProgress?.(task);
+
+        // Check if task is complete
+        if (task.status === TaskStatus.SUCCEEDED) {
+          return task;
+        }
+
+        if (TERMINAL_STATUSES.includes(task.status)) {
+          throw new TaskError(task);
+        }
+
+        if (checkpointed) {
+          await saveCheckpoint(task.status);
+        }
+      }
+    } catch (error) {
+      const timedOut = this.resolveTimeout(error, options);
+      if (timedOut) {
+        return timedOut;
+      }
+      throw error;
+    } finally {
+      if (checkpointed) {
+        this.activePolls.delete(taskId);
+        // Keep the checkpoint when stopped deliberately (e.g., on shutdown)
+        if (!signal?.aborted) {
+          await this.checkpoints.remove(taskId);
+        }
+      }
+    }
+
+    throw new Error(`Polling for task ${taskId} ended without a terminal status`);
+  }
+
+  /**
+   * Watches a task, yielding each distinct status/progress snapshot.
+   *
+   * @remarks
+   * Unlike {@link pollUntilDone}, the iterator is scoped to a single task and
+   * does not emit client-wide `progress` events. Consecutive snapshots with the
+   * same status and progress are skipped.
+   *
+   * The iterator ends after yielding a terminal status (`SUCCEEDED`, `FAILED`,
+   * `TIMEOUT` or `CANCELED`); failed tasks are yielded, not thrown. Breaking out
+   * of the loop stops polling. With `onTimeout: 'resolve'`, a poll timeout
+   * yields the last snapshot marked `TIMEOUT` instead of throwing.
+   *
+   * @param taskId - The task ID to watch
+   * @param options - Polling configuration options
+   * @returns Async iterable of task snapshots
+   *
+   * @throws PollTimeoutError if the timeout is exceeded
+   * @throws Error if max retries exceeded due to network errors
+   * @throws Error named `AbortError` if `options.signal` is aborted
+   *
+   * @example
+   * ```typescript
+   * // Stream progress as NDJSON
+   * export async function GET(request: Request) {
+   *   const taskId = new URL(request.url).searchParams.get('id')!;
+   *   const encoder = new TextEncoder();
+   *
+   *   const stream = new ReadableStream({
+   *     async start(controller) {
+   *       for await (const task of client.watchTask(taskId, { signal: request.signal })) {
+   *         controller.enqueue(encoder.encode(JSON.stringify(task) + '\n'));
+   *       }
+   *       controller.close();
+   *     }
+   *   });
+   *
+   *   return new Response(stream, { headers: { 'Content-Type': 'application/x-ndjson' } });
+   * }
+   * ```
+   */
+  async *watchTask<P extends TaskParams = TaskParams>(
+    taskId: TaskId<P>,
+    options: WatchOptions = {}
+  ): AsyncGenerator<TypedTask<P>, void, undefined> {
+    let previous: StandardTask | undefined;
+
+    try {
+      for await (const task of this.pollTask(taskId, options)) {
+        if (previous && previous.status === task.status && previous.progress === task.progress) {
+          continue;
+        }
+        previous = task;
+        yield task as TypedTask<P>;
+      }
+    } catch (error) {
+      const timedOut = this.resolveTimeout(error, options);
+      if (!timedOut) {
+        throw error;
+      }
+      yield timedOut as TypedTask<P>;
+    }
+  }
+
+  /**
+   * Fetches task status repeatedly, yielding every successful snapshot.
+   *
+   * @remarks
+   * Ends after yielding a terminal status. Delays come from the polling
+   * strategy. Network errors are retried with exponential backoff from the
+   * last delay (capped at 15s) until `maxRetries` consecutive failures
+   * occur. When a scheduler is given, each status request waits for its
+   * turn in the scheduler.
+   *
+   * @internal
+   */
+  private async *pollTask(
+    taskId: string,
+    options: PollOptions,
+    session: PollSession = {}
+  ): AsyncGenerator<StandardTask> {
     const {
-      interval = 3000,
-      timeout = 300000,
+      interval,
+      timeout = DEFAULT_POLL_TIMEOUT,
       maxRetries = 5,
-      onProgress
+      signal
     } = options;
+    const { scheduler, resume } = session;
 
-    const startTime = Date.now();
+    const strategy: PollingStrategy = options.strategy
+      ?? (interval !== undefined ? new FixedIntervalStrategy(interval) : this.polling);
+    const provider = this.provider.name;
+    // A resumed session continues with the remaining timeout budget
+    const startTime = Date.now() - (resume?.elapsed ?? 0);
     let consecutiveErrors = 0;
-    let currentInterval = interval;
+    let attempt = 0;
+    let currentInterval = interval ?? 3000;
+    let lastTask: StandardTask | undefined;
 
-    return new Promise((resolve, reject) => {
-      const poll = async () => {
-        // Check timeout
-        if (Date.now() - startTime > timeout) {
-          return reject(new Error(`Task ${taskId} timed out after ${timeout}ms`));
+    while (true) {
+      throwIfAborted(signal);
+
+      // Check timeout
+      const elapsed = Date.now() - startTime;
+      if (elapsed > timeout) {
+        this.emit('timeout', { taskId, provider, elapsed, task: lastTask });
+        throw new PollTimeoutError(taskId, timeout, elapsed, lastTask);
+      }
+
+      let task: StandardTask;
+      try {
+        // The scheduler owns rate-limit retries for the requests it runs
+        const fetch = () => this.getTask(taskId, { signal, retryRateLimits: !scheduler });
+        task = await (scheduler
+          ? scheduler.run(fetch, signal, this.createRetryListener('getTask', taskId))
+          : fetch());
+      } catch (error) {
+        throwIfAborted(signal);
+        consecutiveErrors++;
+        this.emit('pollError', { taskId, provider, error, consecutiveErrors });
+
+        // Check if max retries exceeded
+        if (consecutiveErrors >= maxRetries) {
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          throw new Error(
+            `Polling failed after ${maxRetries} consecutive errors: ${errorMessage}`
+          );
         }
 
-        try {
-          const task = await this.getTask(taskId);
+        // Exponential backoff with cap
+        currentInterval = Math.min(currentInterval * 1.5, 15000);
+        await sleep(currentInterval, signal);
+        continue;
+      }
 
-          // Reset error counter on success
-          consecutiveErrors = 0;
-          currentInterval = interval;
+      // Reset error counter on success
+      consecutiveErrors = 0;
+      attempt++;
 
-          // Emit progress event
-          this.emit('progress', task);
+      this.emitStatusEvents(taskId, task, lastTask, startTime);
+      lastTask = task;
 
-          // Call progress callback if provided
-          onProgress?.(task);
+      const context = { task, elapsed: Date.now() - startTime, attempt };
+      const terminal = TERMINAL_STATUSES.includes(task.status);
+      if (terminal) {
+        strategy.onSettled?.(context);
+      }
 
-          // Check if task is complete
-          if (task.status === TaskStatus.SUCCEEDED) {
-            return resolve(task);
-          }
+      yield task;
 
-          if (task.status === TaskStatus.FAILED || task.status === TaskStatus.CANCELED) {
-            return reject(new TaskError(task));
-          }
+      if (terminal) {
+        return;
+      }
 
-          // Continue polling
-          setTimeout(poll, currentInterval);
-        } catch (error) {
-          consecutiveErrors++;
-
-          // Check if max retries exceeded
-          if (consecutiveErrors >= maxRetries) {
-            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-            return reject(new Error(
-              `Polling failed after ${maxRetries} consecutive errors: ${errorMessage}`
-            ));
-          }
+      // Continue polling, checking one last time at the deadline
+      currentInterval = strategy.nextDelay(context);
+      await sleep(Math.min(currentInterval, Math.max(timeout - (Date.now() - startTime), 0)), signal);
+    }
+  }
 
-          // Exponential backoff with cap
-          currentInterval = Math.min(currentInterval * 1.5, 15000);
-          setTimeout(poll, currentInterval);
-        }
-      };
+  /**
+   * Converts a poll timeout into a `TIMEOUT` task when `onTimeout` is
+   * `'resolve'` and a snapshot is available.
+   * @internal
+   */
+  private resolveTimeout(error: unknown, options: PollOptions): StandardTask | undefined {
+    if (options.onTimeout !== 'resolve' || !(error instanceof PollTimeoutError) || !error.task) {
+      return undefined;
+    }
+    return {
+      ...error.task,
+      status: TaskStatus.TIMEOUT,
+      error: { code: error.code, message: error.message }
+    };
+  }
 
-      poll();
-    });
+  /**
+   * Emits `statusChange` and terminal events for a polled snapshot.
+   * @internal
+   */
+  private emitStatusEvents(
+    taskId: string,
+    task: StandardTask,
+    previous: StandardTask | undefined,
+    startTime: number
+  ): void {
+    if (previous?.status === task.status) {
+      return;
+    }
+
+    const provider = this.provider.name;
+    this.emit('statusChange', { taskId, provider, previous: previous?.status, next: task.status, task });
+
+    switch (task.status) {
+      case TaskStatus.SUCCEEDED:
+        this.emit('succeeded', { taskId, provider, task });
+        break;
+      case TaskStatus.FAILED:
+        this.emit('failed', { taskId, provider, task });
+        break;
+      case TaskStatus.CANCELED:
+        this.emit('canceled', { taskId, provider, task });
+        break;
+      case TaskStatus.TIMEOUT:
+        this.emit('timeout', { taskId, provider, elapsed: Date.now() - startTime, task });
+        break;
+    }
+  }
+
+  /**
+   * Creates the `onRetry` callback passed to the provider, which emits
+   * `retry` events and forwards to the caller's own callback.
+   * @internal
+   */
+  private createRetryListener(
+    operation: RetryEvent['operation'],
+    taskId: string | undefined,
+    callback?: (info: RetryInfo) => void
+  ): (info: RetryInfo) => void {
+    return (info) => {
+      callback?.(info);
+      this.emit('retry', { ...info, taskId, provider: this.provider.name, operation });
+    };
   }
 }
@@ -0,0 +1,162 @@
+/**
+ * @module core/Middleware
+ * @description Request/response hooks for Magi3DClient
+ */
+
+import { TaskParams, StandardTask } from '../types';
+
+/**
+ * Value that may be returned synchronously or as a promise.
+ * @internal
+ */
+type MaybePromise<T> = T | Promise<T>;
+
+/**
+ * Context passed to {@link Middleware.onError}.
+ */
+export interface MiddlewareErrorContext {
+  /** The client operation that failed */
+  operation: 'createTask' | 'getTask';
+  /** Task parameters (for `createTask`) */
+  params?: TaskParams;
+  /** Task ID (for `getTask`) */
+  taskId?: string;
+}
+
+/**
+ * Hooks applied by {@link Magi3DClient} around provider calls.
+ *
+ * @remarks
+ * Every hook is optional. A hook can:
+ * - **Modify** - return a replacement value (params, task ID, task or error)
+ * - **Pass through** - return `undefined` to keep the current value
+ * - **Reject** - throw, which fails the client call with that error
+ *
+ * Hooks of multiple middleware run in registration order, each receiving
+ * the previous one's output. `afterStatus` runs for every `getTask()` call,
+ * including each polling tick of `pollUntilDone()` and `watchTask()`.
+ *
+ * A middleware whose `afterCreate` replaces task IDs must also implement
+ * `resolveTaskId`, which maps them back before every provider call that
+ * takes a task ID (status, cancellation, and the source `taskId` of
+ * post-processing params). `resolveTaskId` hooks run in reverse
+ * registration order.
+ *
+ * @example
+ * ```typescript
+ * const tenantTagging: Middleware = {
+ *   name: 'tenant',
+ *   beforeCreate: (params) => {
+ *     if ('prompt' in params && params.prompt.length > 1000) {
+ *       throw new Error('Prompt too long');
+ *     }
+ *     return { ...params, providerOptions: { ...params.providerOptions, seed: 42 } };
+ *   },
+ *   afterCreate: async (taskId, params) => {
+ *     await db.tasks.insert({ taskId, tenant: currentTenant(), type: params.type });
+ *     return `${currentTenant()}/${taskId}`;
+ *   },
+ *   resolveTaskId: (taskId) => taskId.slice(taskId.indexOf('/') + 1),
+ *   afterStatus: (task) => ({ ...task, progressDetail: task.progressDetail ?? 'Working...' }),
+ *   onError: (error, { operation }) => {
+ *     logger.error(`${operation} failed`, error);
+ *   }
+ * };
+ *
+ * const client = new Magi3DClient(provider, { middleware: [tenantTagging] });
+ * ```
+ */
+export interface Middleware {
+  /** Optional name, for debugging */
+  name?: string;
+
+  /**
+   * Called before a task is submitted.
+   * @param params - Task parameters (after earlier middleware)
+   * @returns Replacement params, or `undefined` to keep them
+   */
+  beforeCreate?(params: TaskParams): MaybePromise<TaskParams | void>;
+
+  /**
+   * Called after a task was submitted.
+   * @param taskId - Task ID returned by the provider (after earlier middleware)
+   * @param params - The params that were submitted
+   * @returns Replacement task ID, or `undefined` to keep it
+   */
+  afterCreate?(taskId: string, params: TaskParams): MaybePromise<string | void>;
+
+  /**
+   * Called before a provider call that takes a task ID, to undo the
+   * replacement made by `afterCreate`.
+   * @param taskId - Task ID passed to the client (after later middleware)
+   * @returns The task ID known to the provider, or `undefined` to keep it
+   */
+  resolveTaskId?(taskId: string): MaybePromise<string | void>;
+
+  /**
+   * Called after each status fetch.
+   * @param task - Task status (after earlier middleware)
+   * @returns Replacement task, or `undefined` to keep it
+   */
+  afterStatus?(task: StandardTask): MaybePromise<StandardTask | void>;
+
+  /**
+   * Called when `createTask()` or `getTask()` fails (not on abort).
+   * @param error - The error (after earlier middleware)
+   * @param context - The failed operation and its input
+   * @returns Replacement error, or `undefined` to keep it
+   */
+  onError?(error: unknown, context: MiddlewareErrorContext): MaybePromise<unknown | void>;
+}
+
+/**
+ * Ordered list of middleware with helpers that run each hook in sequence.
+ * @internal
+ */
+export class MiddlewareChain {
+  private middleware: Middleware[];
+
+  constructor(middleware: Middleware[] = []) {
+    this.middleware = [...middleware];
+  }
+
+  /** Appends a middleware to the chain */
+  use(middleware: Middleware): void {
+    this.middleware.push(middleware);
+  }
+
+  async beforeCreate(params: TaskParams): Promise<TaskParams> {
+    for (const m of this.middleware) {
+      params = (await m.beforeCreate?.(params)) ?? params;
+    }
+    return params;
+  }
+
+  async afterCreate(taskId: string, params: TaskParams): Promise<string> {
+    for (const m of this.middleware) {
+      taskId = (await m.afterCreate?.(taskId, params)) ?? taskId;
+    }
+    return taskId;
+  }
+
+  async resolveTaskId(taskId: string): Promise<string> {
+    for (let i = this.middleware.length - 1; i >= 0; i--) {
+      taskId = (await this.middleware[i].resolveTaskId?.(taskId)) ?? taskId;
+    }
+    return taskId;
+  }
+
+  async afterStatus(task: StandardTask): Promise<StandardTask> {
+    for (const m of this.middleware) {
+      task = (await m.afterStatus?.(task)) ?? task;
+    }
+    return task;
+  }
+
+  async onError(error: unknown, context: MiddlewareErrorContext): Promise<unknown> {
+    for (const m of this.middleware) {
+      error = (await m.onError?.(error, context)) ?? error;
+    }
+    return error;
+  }
+}
@@ -0,0 +1,384 @@
+/**
+ * @module core/Pipeline
+ * @description Declarative multi-step task pipelines built on Magi3DClient
+ */
+
+import type { Magi3DClient, PollOptions } from './Magi3DClient';
+import { TaskParams, StandardTask, TaskType } from '../types';
+import { throwIfAborted } from '../utils/abort';
+
+/**
+ * Task types that operate on the output of a previous task.
+ * The pipeline fills in their `taskId` (and `modelUrl` where accepted).
+ * @internal
+ */
+const SOURCE_TASK_TYPES = new Set<TaskType>([
+  TaskType.TEXTURE,
+  TaskType.REFINE,
+  TaskType.PRE_RIG_CHECK,
+  TaskType.RIG,
+  TaskType.ANIMATE,
+  TaskType.SEGMENT,
+  TaskType.MESH_COMPLETION,
+  TaskType.DECIMATE,
+  TaskType.UV_UNWRAP,
+  TaskType.CONVERT,
+  TaskType.STYLIZE
+]);
+
+/**
+ * Task types whose params accept a direct `modelUrl` (used by Hunyuan).
+ * @internal
+ */
+const MODEL_URL_TASK_TYPES = new Set<TaskType>([
+  TaskType.TEXTURE,
+  TaskType.SEGMENT,
+  TaskType.DECIMATE,
+  TaskType.UV_UNWRAP
+]);
+
+/**
+ * Distributive `Omit` that preserves the discriminated union.
+ * @internal
+ */
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+/**
+ * Step parameters where the source `taskId` may be omitted.
+ *
+ * @remarks
+ * When `taskId` is omitted on a post-processing step, the pipeline passes
+ * the task ID of the source step (see {@link PipelineStep.from}).
+ */
+export type PipelineStepParams = DistributiveOmit<TaskParams, 'taskId'> & { taskId?: string };
+
+/**
+ * Outcome of a single pipeline step.
+ */
+export interface PipelineStepResult {
+  /** Step name */
+  name: string;
+  /** Task type of the step (absent for skipped steps with dynamic params) */
+  type?: TaskType;
+  /** Whether the step ran or was skipped by its `when` condition */
+  status: 'succeeded' | 'skipped';
+  /** Task ID (present when the step ran) */
+  taskId?: string;
+  /** Completed task (present when the step ran) */
+  task?: StandardTask;
+}
+
+/**
+ * State available to step conditions and parameter builders.
+ */
+export interface PipelineContext {
+  /** Results of completed steps in execution order */
+  steps: PipelineStepResult[];
+  /** Results of completed steps, keyed by step name */
+  results: Record<string, PipelineStepResult>;
+  /** The most recently completed (not skipped) task */
+  previous?: StandardTask;
+}
+
+/**
+ * A single declarative pipeline step.
+ *
+ * @example
+ * ```typescript
+ * const step: PipelineStep = {
+ *   name: 'rig',
+ *   from: 'model',
+ *   when: (ctx) => ctx.results.check.task?.result?.riggable === true,
+ *   params: { type: TaskType.RIG, skeleton: 'biped' }
+ * };
+ * ```
+ */
+export interface PipelineStep {
+  /** Unique step name, used as the key in {@link PipelineResult.results} */
+  name: string;
+
+  /**
+   * Task parameters, or a function building them from previous results.
+   * `taskId` may be omitted for post-processing steps.
+   */
+  params: PipelineStepParams | ((context: PipelineContext) => PipelineStepParams);
+
+  /**
+   * Name of an earlier step whose task feeds this step.
+   * Defaults to the most recent completed step that produced a model
+   * (so checks like `PRE_RIG_CHECK` are not used as sources).
+   */
+  from?: string;
+
+  /**
+   * Condition evaluated before the step runs. Returning `false` skips it.
+   */
+  when?: (context: PipelineContext) => boolean;
+
+  /**
+   * Polling options for this step (merged over the run-level `poll` options).
+   */
+  poll?: Omit<PollOptions, 'onProgress' | 'signal'>;
+}
+
+/**
+ * Progress update emitted while a pipeline runs.
+ */
+export interface PipelineProgress {
+  /** Name of the running step */
+  step: string;
+  /** Zero-based index of the running step */
+  stepIndex: number;
+  /** Total number of steps in the pipeline */
+  totalSteps: number;
+  /** Latest status of the running step's task */
+  task: StandardTask;
+  /** Combined progress across all steps (0-100) */
+  progress: number;
+}
+
+/**
+ * Options for {@link Pipeline.run}.
+ */
+export interface PipelineRunOptions {
+  /** Default polling options for every step */
+  poll?: Omit<PollOptions, 'onProgress' | 'signal'>;
+
+  /** Signal that aborts the running step and skips the remaining ones */
+  signal?: AbortSignal;
+
+  /**
+   * Called on each polling cycle of the running step.
+   * @param progress - Per-step and combined progress
+   */
+  onProgress?: (progress: PipelineProgress) => void;
+
+  /**
+   * Called when a step finishes or is skipped.
+   * @param result - The step outcome
+   */
+  onStepComplete?: (result: PipelineStepResult) => void;
+}
+
+/**
+ * Combined result of a pipeline run.
+ */
+export interface PipelineResult {
+  /** Step outcomes in execution order */
+  steps: PipelineStepResult[];
+  /** Step outcomes keyed by step name */
+  results: Record<string, PipelineStepResult>;
+  /** The last completed task (the pipeline's final output) */
+  final?: StandardTask;
+}
+
+/**
+ * Error thrown when a pipeline step fails.
+ *
+ * @remarks
+ * Carries the failing step name and the outcomes of the steps that completed
+ * before it, so callers can resume or report partial progress.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await pipeline.run();
+ * } catch (error) {
+ *   if (error instanceof PipelineError) {
+ *     console.log(`Step "${error.step}" failed:`, error.cause);
+ *     console.log('Completed:', error.completed.map((s) => s.name));
+ *   }
+ * }
+ * ```
+ */
+export class PipelineError extends Error {
+  /** Name of the step that failed */
+  readonly step: string;
+  /** Outcomes of the steps that completed before the failure */
+  readonly completed: PipelineStepResult[];
+  /** The underlying error (e.g., {@link TaskError} or {@link ApiError}) */
+  readonly cause: unknown;
+
+  constructor(step: string, completed: PipelineStepResult[], cause: unknown) {
+    const reason = cause instanceof Error ? cause.message : String(cause);
+    super(`Pipeline step "${step}" failed: ${reason}`);
+    this.name = 'PipelineError';
+    this.step = step;
+    this.completed = completed;
+    this.cause = cause;
+  }
+}
+
+/**
+ * Runs a chain of tasks in order, passing task IDs forward automatically.
+ *
+ * @remarks
+ * Each step creates a task and polls it to completion before the next step
+ * starts. Post-processing steps that omit `taskId` receive the task ID of
+ * their source step; steps that accept `modelUrl` (Hunyuan post-processing)
+ * also receive the source model URL.
+ *
+ * Steps with a `when` condition that returns `false` are skipped and
+ * reported with status `skipped`.
+ *
+ * @example
+ * ```typescript
+ * import { Pipeline, TaskType } from 'magi-3d/server';
+ *
+ * const pipeline = new Pipeline(client, [
+ *   { name: 'model', params: { type: TaskType.IMAGE_TO_3D, input: imageUrl } },
+ *   { name: 'check', params: { type: TaskType.PRE_RIG_CHECK } },
+ *   {
+ *     name: 'rig',
+ *     when: (ctx) => ctx.results.check.task?.result?.riggable === true,
+ *     params: (ctx) => ({
+ *       type: TaskType.RIG,
+ *       skeleton: ctx.results.check.task?.result?.rigType as 'biped' | undefined
+ *     })
+ *   },
+ *   { name: 'animate', params: { type: TaskType.ANIMATE, animation: 'preset:walk' } },
+ *   { name: 'export', params: { type: TaskType.CONVERT, format: 'fbx' } }
+ * ]);
+ *
+ * const result = await pipeline.run({
+ *   onProgress: (p) => console.log(`${p.step}: ${p.task.progress}% (total ${p.progress}%)`)
+ * });
+ * console.log('Final model:', result.final?.result?.model);
+ * ```
+ */
+export class Pipeline {
+  /**
+   * Creates a new pipeline.
+   *
+   * @param client - Client used to create and poll tasks
+   * @param steps - Steps to run in order
+   *
+   * @throws Error if step names are not unique or `from` references a later step
+   */
+  constructor(private client: Magi3DClient, private steps: PipelineStep[]) {
+    const seen = new Set<string>();
+    for (const step of steps) {
+      if (seen.has(step.name)) {
+        throw new Error(`Duplicate pipeline step name: ${step.name}`);
+      }
+      if (step.from !== undefined && !seen.has(step.from)) {
+        throw new Error(`Pipeline step "${step.name}" references unknown earlier step "${step.from}"`);
+      }
+      seen.add(step.name);
+    }
+  }
+
+  /**
+   * Runs all steps in order.
+   *
+   * @param options - Run options (polling defaults, progress callbacks, abort signal)
+   * @returns Promise resolving to the combined result
+   *
+   * @throws PipelineError if any step fails (wrapping the underlying error)
+   */
+  async run(options: PipelineRunOptions = {}): Promise<PipelineResult> {
+    const { signal, onProgress, onStepComplete } = options;
+    const totalSteps = this.steps.length;
+    const completed: PipelineStepResult[] = [];
+    const context: PipelineContext = { steps: completed, results: {} };
+
+    for (let stepIndex = 0; stepIndex < totalSteps; stepIndex++) {
+      const step = this.steps[stepIndex];
+      let result: PipelineStepResult;
+
+      try {
+        throwIfAborted(signal);
+
+        if (step.when && !step.when(context)) {
+          const type = typeof step.params === 'function' ? undefined : step.params.type;
+          result = { name: step.name, type, status: 'skipped' };
+        } else {
+          const params = this.resolveParams(step, context);
+          const taskId = await this.client.createTask(params, { signal });
+
+          const task = await this.client.pollUntilDone(taskId, {
+            ...options.poll,
+            ...step.poll,
+            signal,
+            onProgress: (current) => onProgress?.({
+              step: step.name,
+              stepIndex,
+              totalSteps,
+              task: current,
+              progress: Math.round(((stepIndex + current.progress / 100) / totalSteps) * 100)
+            })
+          });
+
+          result = { name: step.name, type: params.type, status: 'succeeded', taskId, task };
+          context.previous = task;
+        }
+      } catch (error) {
+        throw new PipelineError(step.name, [...completed], error);
+      }
+
+      completed.push(result);
+      context.results[step.name] = result;
+      onStepComplete?.(result);
+    }
+
+    return {
+      steps: [...completed],
+      results: context.results,
+      final: context.previous
+    };
+  }
+
+  /**
+   * Builds the task params for a step, filling in source references.
+   * @internal
+   */
+  private resolveParams(step: PipelineStep, context: PipelineContext): TaskParams {
+    const params = typeof step.params === 'function' ? step.params(context) : step.params;
+
+    if (!SOURCE_TASK_TYPES.has(params.type)) {
+      return params as TaskParams;
+    }
+
+    const source = this.findSource(step, context);
+    const linked: Record<string, unknown> = { ...params };
+
+    if (linked.taskId === undefined && source) {
+      linked.taskId = source.taskId;
+    }
+    if (
+      MODEL_URL_TASK_TYPES.has(params.type) &&
+      linked.modelUrl === undefined &&
+      source?.task?.result?.model
+    ) {
+      linked.modelUrl = source.task.result.model;
+    }
+
+    if (linked.taskId === undefined && linked.modelUrl === undefined) {
+      throw new Error(`Pipeline step "${step.name}" has no source task to operate on`);
+    }
+
+    return linked as unknown as TaskParams;
+  }
+
+  /**
+   * Finds the source step for a post-processing step.
+   *
+   * @remarks
+   * Links use the task ID returned by `createTask()`, which can differ
+   * from `task.id` when middleware or a router rewrites task IDs.
+   * @internal
+   */
+  private findSource(step: PipelineStep, context: PipelineContext): PipelineStepResult | undefined {
+    if (step.from !== undefined) {
+      const source = context.results[step.from];
+      return source?.taskId !== undefined ? source : undefined;
+    }
+
+    for (let i = context.steps.length - 1; i >= 0; i--) {
+      if (context.steps[i].task?.result?.model) {
+        return context.steps[i];
+      }
+    }
+    return undefined;
+  }
+}
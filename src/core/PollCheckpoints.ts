@@ -0,0 +1,86 @@
+/**
+ * @module core/PollCheckpoints
+ * @description Persisted polling state, so polling can resume after a restart
+ */
+
+import { TaskStatus, TaskStore } from '../types';
+
+/**
+ * Saved state of a polling session.
+ */
+export interface PollCheckpoint {
+  /** Task ID being polled */
+  taskId: string;
+  /** Name of the client's provider (e.g., 'Tripo') */
+  provider: string;
+  /** When polling first started (milliseconds since epoch) */
+  startedAt: number;
+  /** Polling timeout in milliseconds */
+  timeout: number;
+  /** Time spent polling so far, in milliseconds (excludes downtime) */
+  elapsed: number;
+  /** Status seen on the last successful check (if any) */
+  lastStatus?: TaskStatus;
+  /** When this checkpoint was written (milliseconds since epoch) */
+  updatedAt: number;
+}
+
+/**
+ * Checkpoint settings for {@link Magi3DClientOptions.checkpoints}.
+ */
+export interface CheckpointOptions {
+  /**
+   * Where checkpoints are kept. Use a store that outlives the process
+   * (e.g., {@link FileTaskStore} or a Redis adapter); the default
+   * {@link MemoryTaskStore} does not survive restarts.
+   */
+  store?: TaskStore;
+
+  /**
+   * Checkpoints not updated for this long are discarded, in milliseconds.
+   * @defaultValue 86400000 (24 hours)
+   */
+  ttl?: number;
+}
+
+/**
+ * Checkpoints of one provider, each kept under its own store key.
+ *
+ * @remarks
+ * Every polling tick only writes its own task's entry, so processes
+ * sharing a store do not overwrite each other's checkpoints. Listing needs
+ * the store's `keys` method.
+ *
+ * @internal
+ */
+export class CheckpointRegistry {
+  constructor(
+    private store: TaskStore,
+    private prefix: string,
+    private ttl: number
+  ) {}
+
+  /**
+   * Returns all checkpoints updated within the TTL.
+   *
+   * @throws Error if the store cannot list keys
+   */
+  async list(): Promise<PollCheckpoint[]> {
+    if (!this.store.keys) {
+      throw new Error('The checkpoint store must implement keys() to list checkpoints');
+    }
+    const keys = await this.store.keys(this.prefix);
+    const checkpoints = await Promise.all(keys.map((key) => this.store.get<PollCheckpoint>(key)));
+    return checkpoints.filter((checkpoint): checkpoint is PollCheckpoint => checkpoint !== undefined);
+  }
+
+  /** Adds or replaces the checkpoint of a task, restarting its TTL */
+  save(checkpoint: PollCheckpoint): Promise<void> {
+    return this.store.set(this.prefix + checkpoint.taskId, checkpoint, { ttl: this.ttl });
+  }
+
+  /** Removes the checkpoint of a task */
+  remove(taskId: string): Promise<void> {
+    return this.store.delete(this.prefix + taskId);
+  }
+}
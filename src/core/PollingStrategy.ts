@@ -0,0 +1,235 @@
+/**
+ * @module core/PollingStrategy
+ * @description Strategies deciding how long to wait between status checks
+ */
+
+import { StandardTask, TaskStatus, TaskType } from '../types';
+
+/**
+ * Information passed to a {@link PollingStrategy}.
+ */
+export interface PollContext {
+  /** The latest task snapshot */
+  task: StandardTask;
+  /** Time since polling started, in milliseconds */
+  elapsed: number;
+  /** Number of successful status checks so far (1 after the first) */
+  attempt: number;
+}
+
+/**
+ * Decides when to check a task's status next.
+ *
+ * @remarks
+ * The first status check happens immediately; `nextDelay` is called after
+ * each non-terminal snapshot. Strategies may keep state across tasks
+ * (e.g., learned durations), so one instance can be shared by a client.
+ *
+ * Network errors are not passed to the strategy: polling backs off
+ * exponentially from the last delay (capped at 15s) on its own.
+ *
+ * @example
+ * ```typescript
+ * // Poll every second for the first 10s, then every 5s
+ * const eager: PollingStrategy = {
+ *   nextDelay: ({ elapsed }) => (elapsed < 10000 ? 1000 : 5000)
+ * };
+ *
+ * await client.pollUntilDone(taskId, { strategy: eager });
+ * ```
+ */
+export interface PollingStrategy {
+  /**
+   * Returns the delay before the next status check.
+   * @param context - The latest snapshot and polling state
+   * @returns Delay in milliseconds
+   */
+  nextDelay(context: PollContext): number;
+
+  /**
+   * Called once when a task reaches a terminal status.
+   * @param context - The terminal snapshot and polling state
+   */
+  onSettled?(context: PollContext): void;
+}
+
+/**
+ * Polls at a fixed interval.
+ *
+ * @remarks
+ * This is the behavior of SDK versions before adaptive polling, and is
+ * used whenever an explicit `interval` is passed to polling methods.
+ *
+ * @example
+ * ```typescript
+ * await client.pollUntilDone(taskId, { strategy: new FixedIntervalStrategy(2000) });
+ * ```
+ */
+export class FixedIntervalStrategy implements PollingStrategy {
+  /**
+   * @param interval - Time between status checks in milliseconds
+   */
+  constructor(readonly interval: number = 3000) {}
+
+  nextDelay(): number {
+    return this.interval;
+  }
+}
+
+/**
+ * Options for {@link AdaptivePollingStrategy}.
+ */
+export interface AdaptivePollingOptions {
+  /**
+   * Shortest delay between status checks.
+   * @defaultValue 1000
+   */
+  minInterval?: number;
+
+  /**
+   * Longest delay between status checks.
+   * @defaultValue 15000
+   */
+  maxInterval?: number;
+
+  /**
+   * Expected durations per task type in milliseconds, overriding the
+   * built-in defaults (see {@link DEFAULT_EXPECTED_DURATIONS}).
+   */
+  expectedDurations?: Partial<Record<TaskType, number>>;
+
+  /**
+   * Weight of each newly observed duration when learning (0-1).
+   * `0` disables learning.
+   * @defaultValue 0.3
+   */
+  learningRate?: number;
+}
+
+/**
+ * Typical durations per task type, used until durations are observed.
+ */
+export const DEFAULT_EXPECTED_DURATIONS: Readonly<Record<TaskType, number>> = {
+  [TaskType.TEXT_TO_3D]: 90000,
+  [TaskType.IMAGE_TO_3D]: 90000,
+  [TaskType.MULTIVIEW_TO_3D]: 90000,
+  [TaskType.TEXT_TO_IMAGE]: 15000,
+  [TaskType.GENERATE_IMAGE]: 15000,
+  [TaskType.TEXTURE]: 60000,
+  [TaskType.REFINE]: 120000,
+  [TaskType.PRE_RIG_CHECK]: 10000,
+  [TaskType.RIG]: 60000,
+  [TaskType.ANIMATE]: 30000,
+  [TaskType.SEGMENT]: 60000,
+  [TaskType.MESH_COMPLETION]: 60000,
+  [TaskType.DECIMATE]: 30000,
+  [TaskType.UV_UNWRAP]: 30000,
+  [TaskType.PROFILE_TO_3D]: 90000,
+  [TaskType.CONVERT]: 15000,
+  [TaskType.IMPORT]: 15000,
+  [TaskType.STYLIZE]: 30000
+};
+
+/**
+ * Minimum reported progress before it is used to extrapolate the
+ * remaining time.
+ * @internal
+ */
+const MIN_EXTRAPOLATION_PROGRESS = 10;
+
+/**
+ * Polls sparsely at first and more often near the expected completion.
+ *
+ * @remarks
+ * The remaining time is estimated from, in order of preference:
+ * 1. The provider's own estimate (`task.estimatedTimeRemaining`)
+ * 2. Reported progress (once at least 10%), extrapolated linearly
+ * 3. The expected duration for the task's provider and type, learned from
+ *    succeeded tasks (an exponential moving average) or taken from
+ *    {@link DEFAULT_EXPECTED_DURATIONS}
+ *
+ * The next check is scheduled halfway to the estimated completion, so
+ * checks get closer together as it approaches. Tasks that run past their
+ * estimate are checked with a delay that grows with the overrun. All
+ * delays are clamped to `[minInterval, maxInterval]`.
+ *
+ * @example
+ * ```typescript
+ * const client = new Magi3DClient(provider, {
+ *   polling: new AdaptivePollingStrategy({
+ *     maxInterval: 10000,
+ *     expectedDurations: { [TaskType.TEXT_TO_3D]: 180000 }
+ *   })
+ * });
+ * ```
+ */
+export class AdaptivePollingStrategy implements PollingStrategy {
+  private readonly minInterval: number;
+  private readonly maxInterval: number;
+  private readonly learningRate: number;
+  private readonly expectedDurations: Partial<Record<TaskType, number>>;
+
+  /** Learned durations keyed by `<provider>:<type>` */
+  private observed = new Map<string, number>();
+
+  constructor(options: AdaptivePollingOptions = {}) {
+    this.minInterval = options.minInterval ?? 1000;
+    this.maxInterval = options.maxInterval ?? 15000;
+    this.learningRate = options.learningRate ?? 0.3;
+    this.expectedDurations = { ...DEFAULT_EXPECTED_DURATIONS, ...options.expectedDurations };
+  }
+
+  nextDelay({ task, elapsed }: PollContext): number {
+    const remaining = this.estimateRemaining(task, elapsed);
+    const delay = remaining > 0
+      ? remaining / 2
+      : -remaining / 4;
+    return Math.min(Math.max(delay, this.minInterval), this.maxInterval);
+  }
+
+  onSettled({ task, elapsed }: PollContext): void {
+    if (task.status !== TaskStatus.SUCCEEDED || this.learningRate <= 0) {
+      return;
+    }
+    const key = this.getKey(task);
+    const previous = this.observed.get(key);
+    this.observed.set(
+      key,
+      previous === undefined ? elapsed : previous + this.learningRate * (elapsed - previous)
+    );
+  }
+
+  /**
+   * Expected duration for a provider and task type, in milliseconds.
+   *
+   * @param task - Any snapshot of the task (only `provider` and `type` are used)
+   * @returns The learned duration, or the configured default
+   */
+  getExpectedDuration(task: Pick<StandardTask, 'provider' | 'type'>): number {
+    return this.observed.get(this.getKey(task))
+      ?? this.expectedDurations[task.type]
+      ?? DEFAULT_EXPECTED_DURATIONS[TaskType.TEXT_TO_3D];
+  }
+
+  /**
+   * Estimated time until completion (negative when overdue).
+   * @internal
+   */
+  private estimateRemaining(task: StandardTask, elapsed: number): number {
+    if (task.estimatedTimeRemaining !== undefined) {
+      return task.estimatedTimeRemaining;
+    }
+    if (task.progress >= MIN_EXTRAPOLATION_PROGRESS && task.progress < 100 && elapsed > 0) {
+      return (elapsed * (100 - task.progress)) / task.progress;
+    }
+    return this.getExpectedDuration(task) - elapsed;
+  }
+
+  /**
+   * Key for learned durations.
+   * @internal
+   */
+  private getKey(task: Pick<StandardTask, 'provider' | 'type'>): string {
+    return `${task.provider}:${task.type}`;
+  }
+}
@@ -0,0 +1,234 @@
+/**
+ * @module core/SubmissionQueue
+ * @description Concurrency- and rate-limited queue for task submissions
+ */
+
+import { sleep, throwIfAborted, createAbortError } from '../utils/abort';
+import { getRetryAfter, isRateLimitError } from '../utils/errors';
+import type { RetryInfo } from '../types';
+
+/**
+ * Configuration for the task submission queue.
+ *
+ * @example
+ * ```typescript
+ * const client = new Magi3DClient(provider, {
+ *   queue: {
+ *     maxConcurrent: 2,        // At most 2 submissions in flight
+ *     requestsPerSecond: 1,    // Start at most 1 submission per second
+ *     maxRateLimitRetries: 5   // Retry rate-limited submissions up to 5 times
+ *   }
+ * });
+ * ```
+ */
+export interface QueueOptions {
+  /**
+   * Maximum number of submissions in flight at once.
+   * @defaultValue Infinity
+   */
+  maxConcurrent?: number;
+
+  /**
+   * Maximum number of submissions started per second.
+   * @defaultValue Infinity
+   */
+  requestsPerSecond?: number;
+
+  /**
+   * Maximum number of times a rate-limited submission is retried before
+   * the error is surfaced to the caller.
+   * @defaultValue 5
+   */
+  maxRateLimitRetries?: number;
+
+  /**
+   * Initial pause in milliseconds after a rate-limit rejection.
+   * Doubles on each consecutive rejection, capped at 60 seconds.
+   * @defaultValue 2000
+   */
+  rateLimitBackoff?: number;
+
+  /**
+   * Called before a rate-limited submission is retried.
+   *
+   * @param info - Retry attempt (1-based), pause before retrying, and the rejection
+   */
+  onRateLimit?: (info: RetryInfo) => void;
+}
+
+/**
+ * A queued submission waiting for a concurrency slot.
+ * @internal
+ */
+interface Waiter {
+  grant: () => void;
+}
+
+/** Upper bound for rate-limit pauses */
+const MAX_RATE_LIMIT_BACKOFF = 60000;
+
+/**
+ * Queue that limits concurrent and per-second submissions to a provider.
+ *
+ * @remarks
+ * Submissions run in FIFO order. When a submission is rejected with a
+ * rate-limit error (`RATE_LIMIT_EXCEEDED` and Tencent Cloud equivalents, or
+ * HTTP 429), the whole queue pauses with exponential backoff and the
+ * submission is retried, so callers only see the error once
+ * `maxRateLimitRetries` is exhausted.
+ *
+ * A `Retry-After` hint on the error (`retryAfter`, in milliseconds) takes
+ * precedence over the computed backoff.
+ *
+ * @example
+ * ```typescript
+ * const queue = new SubmissionQueue({ maxConcurrent: 2 });
+ * const taskId = await queue.run(() => provider.createTask(params));
+ * ```
+ */
+export class SubmissionQueue {
+  private readonly maxConcurrent: number;
+  private readonly minSpacing: number;
+  private readonly maxRateLimitRetries: number;
+  private readonly rateLimitBackoff: number;
+  private readonly onRateLimit?: QueueOptions['onRateLimit'];
+
+  /** Number of submissions holding a slot */
+  private active = 0;
+  /** Submissions waiting for a slot, in arrival order */
+  private waiters: Waiter[] = [];
+  /** Earliest time the next submission may start (rate limit spacing) */
+  private nextStartAt = 0;
+  /** Queue-wide pause after a rate-limit rejection */
+  private pausedUntil = 0;
+
+  /**
+   * Creates a new submission queue.
+   *
+   * @param options - Concurrency, rate and retry limits
+   */
+  constructor(options: QueueOptions = {}) {
+    this.maxConcurrent = options.maxConcurrent ?? Infinity;
+    this.minSpacing = options.requestsPerSecond ? 1000 / options.requestsPerSecond : 0;
+    this.maxRateLimitRetries = options.maxRateLimitRetries ?? 5;
+    this.rateLimitBackoff = options.rateLimitBackoff ?? 2000;
+    this.onRateLimit = options.onRateLimit;
+  }
+
+  /** Number of submissions currently in flight */
+  get running(): number {
+    return this.active;
+  }
+
+  /** Number of submissions waiting for a slot */
+  get pending(): number {
+    return this.waiters.length;
+  }
+
+  /**
+   * Runs a submission once a slot and rate budget are available.
+   *
+   * @param submit - Function performing the provider call
+   * @param signal - Optional signal that removes the submission from the queue
+   * @param onRetry - Optional callback for this submission's rate-limit retries
+   * @returns Promise resolving to the submission result
+   *
+   * @throws The submission's error once rate-limit retries are exhausted
+   * @throws Error named `AbortError` if `signal` is aborted while waiting
+   */
+  async run<T>(
+    submit: () => Promise<T>,
+    signal?: AbortSignal,
+    onRetry?: (info: RetryInfo) => void
+  ): Promise<T> {
+    await this.acquire(signal);
+
+    try {
+      // The submission keeps its slot while it waits out rate-limit pauses
+      for (let attempt = 0; ; attempt++) {
+        await this.waitForTurn(signal);
+
+        try {
+          return await submit();
+        } catch (error) {
+          if (signal?.aborted || !isRateLimitError(error) || attempt >= this.maxRateLimitRetries) {
+            throw error;
+          }
+
+          const delay = this.getRateLimitDelay(error, attempt);
+          this.pausedUntil = Math.max(this.pausedUntil, Date.now() + delay);
+          const info = { attempt: attempt + 1, delay, error };
+          this.onRateLimit?.(info);
+          onRetry?.(info);
+        }
+      }
+    } finally {
+      this.release();
+    }
+  }
+
+  /**
+   * Waits for a concurrency slot.
+   * @internal
+   */
+  private acquire(signal?: AbortSignal): Promise<void> {
+    throwIfAborted(signal);
+
+    if (this.active < this.maxConcurrent && this.waiters.length === 0) {
+      this.active++;
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        this.waiters = this.waiters.filter((w) => w !== waiter);
+        reject(createAbortError(signal));
+      };
+      const waiter: Waiter = {
+        grant: () => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        }
+      };
+      this.waiters.push(waiter);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  /**
+   * Releases a slot, handing it to the next waiter if any.
+   * @internal
+   */
+  private release(): void {
+    const next = this.waiters.shift();
+    if (next) {
+      next.grant();
+    } else {
+      this.active--;
+    }
+  }
+
+  /**
+   * Waits until the rate limit spacing and any rate-limit pause have elapsed.
+   * @internal
+   */
+  private async waitForTurn(signal?: AbortSignal): Promise<void> {
+    while (true) {
+      const now = Date.now();
+      const startAt = Math.max(now, this.nextStartAt, this.pausedUntil);
+      if (startAt <= now) {
+        this.nextStartAt = now + this.minSpacing;
+        return;
+      }
+      await sleep(startAt - now, signal);
+    }
+  }
+
+  /**
+   * Computes the pause after a rate-limit rejection.
+   * @internal
+   */
+  private getRateLimitDelay(error: unknown, attempt: number): number {
+    return getRetryAfter(error) ?? Math.min(this.rateLimitBackoff * 2 ** attempt, MAX_RATE_LIMIT_BACKOFF);
+  }
+}
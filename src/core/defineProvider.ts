@@ -0,0 +1,508 @@
+/**
+ * @module core/defineProvider
+ * @description Declarative factory for REST-style providers
+ */
+
+import axios, { AxiosInstance, AxiosResponse } from 'axios';
+import { AbstractProvider, ImageInput, RequestOptions } from './AbstractProvider';
+import { ApiError } from './Magi3DClient';
+import { InputUtils } from '../utils/InputUtils';
+import { parseRetryAfter } from '../utils/errors';
+import { MemoryTaskStore } from '../stores/MemoryTaskStore';
+import {
+  TaskParams,
+  StandardTask,
+  TaskStatus,
+  TaskType,
+  ProviderConfig,
+  ProviderCapabilities,
+  PricingTable,
+  TaskArtifacts,
+  TaskStore
+} from '../types';
+
+/**
+ * An HTTP endpoint. Strings are `GET` paths for status queries and `POST`
+ * paths for task creation and cancellation; `{taskId}` is replaced with
+ * the task ID.
+ */
+export type EndpointSpec = string | {
+  method: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  path: string;
+};
+
+/**
+ * How requests are authenticated with the API key.
+ *
+ * @remarks
+ * The key is taken from `config.apiKey`, or from the `env` variable.
+ * - `bearer` - `Authorization: Bearer <key>`
+ * - `header` - `<name>: <prefix><key>`
+ * - `query` - `?<name>=<key>`
+ * - `none` - no authentication
+ */
+export type AuthScheme =
+  | { type: 'bearer'; env?: string }
+  | { type: 'header'; name: string; prefix?: string; env?: string }
+  | { type: 'query'; name: string; env?: string }
+  | { type: 'none' };
+
+/**
+ * Builds the request body of each supported task type. A task type is
+ * supported when it has a mapper.
+ */
+export type PayloadMappers<TOptions> = {
+  [K in TaskType]?: (params: Extract<TaskParams<TOptions>, { type: K }>) => Record<string, unknown> | FormData;
+};
+
+/**
+ * Reads {@link TaskArtifacts} fields from a succeeded task's status response.
+ * `model` defaults to the first model URL found.
+ */
+export type ArtifactExtractors<TData> = {
+  [K in keyof TaskArtifacts]?: (data: TData, type: TaskType) => TaskArtifacts[K] | undefined;
+};
+
+/**
+ * Description of a provider for {@link defineProvider}.
+ *
+ * @typeParam TOptions - Type of `providerOptions` accepted by the payload mappers
+ * @typeParam TData - Shape of the API's response bodies
+ */
+export interface ProviderDefinition<TOptions = unknown, TData = unknown> {
+  /** ID reported in `task.provider` (e.g., `acme`) */
+  id: string;
+
+  /** Human-readable name (e.g., `Acme`), used by routers and error messages */
+  name: string;
+
+  /** API base URL */
+  baseUrl: string;
+
+  /** How the API key is sent */
+  auth: AuthScheme;
+
+  /**
+   * API endpoints. `create` and `status` may differ per task type (the
+   * type of each task is recorded in `taskStore` when it is created).
+   * Without `cancel`, `cancelTask()` throws `UNSUPPORTED`; a string
+   * `cancel` path is sent as `POST`.
+   */
+  endpoints: {
+    create: EndpointSpec | Partial<Record<TaskType, EndpointSpec>>;
+    status: EndpointSpec | Partial<Record<TaskType, EndpointSpec>>;
+    cancel?: EndpointSpec;
+  };
+
+  /** Request bodies per task type */
+  payloads: PayloadMappers<TOptions>;
+
+  /** Reads the task ID from a creation response */
+  getTaskId: (data: TData) => string;
+
+  /** Reads the raw status from a status response */
+  getStatus: (data: TData) => string | undefined;
+
+  /** Raw statuses mapped to SDK statuses (unmapped statuses count as `PROCESSING`) */
+  statusMap: Record<string, TaskStatus>;
+
+  /** Reads progress (0-100) from a status response */
+  getProgress?: (data: TData) => number | undefined;
+
+  /**
+   * Reads when a finished task finished (ms since epoch) from a status
+   * response (default: when a status query first saw it finished)
+   */
+  getFinishedAt?: (data: TData) => number | undefined;
+
+  /**
+   * Reads the provider error code from an HTTP error body or a failed
+   * task (default: the HTTP status, for HTTP errors)
+   */
+  getErrorCode?: (data: TData, httpStatus?: number) => string | number | undefined;
+
+  /** Reads the error message from an HTTP error body or a failed task */
+  getErrorMessage?: (data: TData) => string | undefined;
+
+  /**
+   * Provider error codes mapped to SDK error codes (e.g.,
+   * `INSUFFICIENT_CREDITS`). Unmapped codes become `<ID>_ERROR_<code>`,
+   * except rate limits (HTTP 429) and server errors (HTTP 5xx).
+   */
+  errorMap?: Record<string, string>;
+
+  /**
+   * Detects errors reported in successful (2xx) responses, for APIs that
+   * wrap errors in an envelope
+   */
+  isError?: (data: TData) => boolean;
+
+  /** Artifact fields of succeeded tasks */
+  artifacts: ArtifactExtractors<TData>;
+
+  /** Result of `describeCapabilities()` (default: supported types without params) */
+  capabilities?: ProviderCapabilities;
+
+  /** Default prices for `estimateCost()` */
+  pricing?: PricingTable;
+}
+
+/**
+ * Configuration for providers created with {@link defineProvider}.
+ */
+export interface DefinedProviderConfig extends ProviderConfig {
+  /** Custom API base URL, replacing the definition's */
+  baseUrl?: string;
+  /**
+   * Store for task metadata needed to query tasks later
+   * (default: a {@link MemoryTaskStore} private to the provider instance).
+   * Use a shared store to poll tasks across restarts and server instances.
+   */
+  taskStore?: TaskStore;
+}
+
+/**
+ * Task metadata stored for status queries
+ * @internal
+ */
+interface TaskMetadata {
+  taskType: TaskType;
+  createdAt: number;
+  /** When a status query first saw the task finished */
+  finishedAt?: number;
+}
+
+/**
+ * How long task metadata is kept in the task store.
+ * @internal
+ */
+const TASK_METADATA_TTL = 24 * 60 * 60 * 1000;
+
+/**
+ * Model fields used for the default `model` artifact, in priority order
+ * @internal
+ */
+const MODEL_FIELDS = ['modelGlb', 'modelPbr', 'modelFbx', 'modelObj', 'modelUsdz'] as const;
+
+/**
+ * Provider driven by a {@link ProviderDefinition}.
+ * @internal
+ */
+class DefinedProvider<TOptions, TData> extends AbstractProvider<DefinedProviderConfig> {
+  readonly name: string;
+
+  /** Axios HTTP client instance */
+  private client: AxiosInstance;
+
+  /** Task metadata store for status queries */
+  private taskStore: TaskStore;
+
+  constructor(private definition: ProviderDefinition<TOptions, TData>, config: DefinedProviderConfig) {
+    const auth = definition.auth;
+    const apiKey = config.apiKey || (auth.type !== 'none' && auth.env ? process.env[auth.env] : undefined);
+
+    if (auth.type !== 'none' && !apiKey) {
+      const envHint = auth.env ? ` or set ${auth.env} environment variable` : '';
+      throw new Error(`${definition.name} API key is required. Provide it via config.apiKey${envHint}.`);
+    }
+
+    super({ ...config, apiKey });
+
+    this.name = definition.name;
+    this.taskStore = config.taskStore ?? new MemoryTaskStore();
+
+    this.client = axios.create({
+      baseURL: config.baseUrl || definition.baseUrl,
+      headers: auth.type === 'bearer' ? { 'Authorization': `Bearer ${apiKey}` }
+        : auth.type === 'header' ? { [auth.name]: `${auth.prefix ?? ''}${apiKey}` }
+        : {},
+      params: auth.type === 'query' ? { [auth.name]: apiKey } : undefined,
+      timeout: config.timeout || 120000
+    });
+
+    // Register task types with a payload mapper
+    for (const type of Object.keys(definition.payloads) as TaskType[]) {
+      this.supportedTaskTypes.add(type);
+    }
+  }
+
+  describeCapabilities(): ProviderCapabilities {
+    return this.definition.capabilities ? { ...this.definition.capabilities } : super.describeCapabilities();
+  }
+
+  protected getDefaultPricing(): PricingTable {
+    return this.definition.pricing ?? super.getDefaultPricing();
+  }
+
+  protected async prepareInput(input: ImageInput): Promise<string> {
+    InputUtils.validate(input);
+    return input;
+  }
+
+  protected async doCreateTask(params: TaskParams, options: RequestOptions = {}): Promise<string> {
+    const mapper = this.definition.payloads[params.type] as ((params: TaskParams) => unknown) | undefined;
+    const endpoint = this.getEndpoint(this.definition.endpoints.create, params.type);
+    if (!mapper || !endpoint) {
+      throw new Error(`Unsupported task type for ${this.name}: ${params.type}`);
+    }
+
+    const data = await this.request(endpoint, 'POST', undefined, mapper(params), options);
+    const taskId = this.definition.getTaskId(data);
+
+    await this.taskStore.set<TaskMetadata>(this.getTaskKey(taskId), {
+      taskType: params.type,
+      createdAt: Date.now()
+    }, { ttl: TASK_METADATA_TTL });
+    return taskId;
+  }
+
+  async getTaskStatus(taskId: string, options: RequestOptions = {}): Promise<StandardTask> {
+    const metadata = await this.taskStore.get<TaskMetadata>(this.getTaskKey(taskId));
+    const endpoint = metadata && this.getEndpoint(this.definition.endpoints.status, metadata.taskType);
+    if (!metadata || !endpoint) {
+      throw new Error(
+        `Unknown task ID: ${taskId}. Task metadata not found (use a shared taskStore to poll across restarts or instances).`
+      );
+    }
+
+    const data = await this.request(endpoint, 'GET', taskId, undefined, { ...options, idempotent: true });
+    const task = this.normalizeResponse(taskId, metadata, data);
+
+    // Without a finish time from the API, keep the first one seen so later queries agree
+    const finished = task.status === TaskStatus.SUCCEEDED || task.status === TaskStatus.FAILED
+      || task.status === TaskStatus.CANCELED;
+    if (finished && task.finishedAt === undefined) {
+      task.finishedAt = Date.now();
+      await this.taskStore.set<TaskMetadata>(
+        this.getTaskKey(taskId),
+        { ...metadata, finishedAt: task.finishedAt },
+        { ttl: TASK_METADATA_TTL }
+      );
+    }
+    return task;
+  }
+
+  async cancelTask(taskId: string): Promise<void> {
+    const endpoint = this.definition.endpoints.cancel;
+    if (!endpoint) {
+      return super.cancelTask(taskId);
+    }
+    await this.request(endpoint, 'POST', taskId, undefined, {});
+  }
+
+  /**
+   * Resolves the endpoint of a task type.
+   * @internal
+   */
+  private getEndpoint(
+    endpoints: EndpointSpec | Partial<Record<TaskType, EndpointSpec>>,
+    type: TaskType
+  ): EndpointSpec | undefined {
+    if (typeof endpoints === 'string' || 'path' in endpoints) {
+      return endpoints as EndpointSpec;
+    }
+    return (endpoints as Partial<Record<TaskType, EndpointSpec>>)[type];
+  }
+
+  /**
+   * Sends a request, converting HTTP and envelope errors to {@link ApiError}.
+   * @internal
+   */
+  private async request(
+    endpoint: EndpointSpec,
+    defaultMethod: 'GET' | 'POST',
+    taskId: string | undefined,
+    body: unknown,
+    options: RequestOptions & { idempotent?: boolean }
+  ): Promise<TData> {
+    const { method, path } = typeof endpoint === 'string' ? { method: defaultMethod, path: endpoint } : endpoint;
+    const url = taskId === undefined ? path : path.replace(/\{taskId\}/g, encodeURIComponent(taskId));
+
+    const response = await this.withRetry(async () => {
+      try {
+        return await this.client.request<TData>({ method, url, data: body, signal: options.signal });
+      } catch (error) {
+        throw this.toApiError(error);
+      }
+    }, options);
+
+    if (this.definition.isError?.(response.data)) {
+      throw this.createError(response.data);
+    }
+    return response.data;
+  }
+
+  /**
+   * Converts axios HTTP errors (4xx/5xx) to {@link ApiError}; other errors
+   * pass through unchanged.
+   * @internal
+   */
+  private toApiError(error: unknown): unknown {
+    if (!axios.isAxiosError(error) || !error.response) {
+      return error;
+    }
+    const response = error.response as AxiosResponse<TData>;
+    return this.createError(response.data, response.status, parseRetryAfter(response.headers['retry-after']));
+  }
+
+  /**
+   * Creates a standardized error from an error body.
+   * @internal
+   */
+  private createError(data: TData, httpStatus?: number, retryAfter?: number): ApiError {
+    const code = this.definition.getErrorCode?.(data, httpStatus) ?? httpStatus;
+    const httpInfo = httpStatus ? ` [HTTP ${httpStatus}]` : '';
+    return new ApiError(
+      `Request error${httpInfo}: ${this.definition.getErrorMessage?.(data) || 'Unknown error'}`,
+      this.mapErrorCode(code, httpStatus),
+      data,
+      httpStatus,
+      retryAfter
+    );
+  }
+
+  /**
+   * Maps a provider error code to an SDK error code.
+   * @internal
+   */
+  private mapErrorCode(code: string | number | undefined, httpStatus?: number): string {
+    const mapped = code !== undefined ? this.definition.errorMap?.[String(code)] : undefined;
+    if (mapped) {
+      return mapped;
+    }
+    if (httpStatus === 429) {
+      return 'RATE_LIMIT_EXCEEDED';
+    }
+    if (httpStatus !== undefined && httpStatus >= 500) {
+      return 'SERVER_ERROR';
+    }
+    return `${this.definition.id.toUpperCase()}_ERROR_${code ?? 'UNKNOWN'}`;
+  }
+
+  /**
+   * Builds the task store key for a task.
+   * @internal
+   */
+  private getTaskKey(taskId: string): string {
+    return `${this.definition.id}:task:${taskId}`;
+  }
+
+  /**
+   * Normalizes a status response to SDK StandardTask format.
+   * @internal
+   */
+  private normalizeResponse(taskId: string, metadata: TaskMetadata, data: TData): StandardTask {
+    const definition = this.definition;
+    const rawStatus = definition.getStatus(data);
+    const status = (rawStatus !== undefined && definition.statusMap[rawStatus]) || TaskStatus.PROCESSING;
+    const finished = status === TaskStatus.SUCCEEDED || status === TaskStatus.FAILED || status === TaskStatus.CANCELED;
+
+    let result: TaskArtifacts | undefined;
+    if (status === TaskStatus.SUCCEEDED) {
+      const artifacts: Partial<TaskArtifacts> = {};
+      for (const [field, extract] of Object.entries(definition.artifacts)) {
+        const value = (extract as (data: TData, type: TaskType) => unknown)(data, metadata.taskType);
+        if (value !== undefined) {
+          (artifacts as Record<string, unknown>)[field] = value;
+        }
+      }
+      const model = artifacts.model ?? MODEL_FIELDS.map((field) => artifacts[field]).find(Boolean) ?? '';
+      result = { ...artifacts, model };
+    }
+
+    let error: StandardTask['error'];
+    if (status === TaskStatus.FAILED || status === TaskStatus.CANCELED) {
+      const code = definition.getErrorCode?.(data);
+      const mapped = code !== undefined ? definition.errorMap?.[String(code)] : undefined;
+      error = {
+        code: mapped ?? (status === TaskStatus.CANCELED ? 'TASK_CANCELED' : 'GENERATION_FAILED'),
+        message: definition.getErrorMessage?.(data) || (status === TaskStatus.CANCELED ? 'Task was cancelled' : 'Task failed'),
+        raw: data
+      };
+    }
+
+    const progress = definition.getProgress?.(data) ?? (status === TaskStatus.SUCCEEDED ? 100 : 0);
+    return {
+      id: taskId,
+      provider: definition.id,
+      type: metadata.taskType,
+      status,
+      progress,
+      progressDetail: rawStatus,
+      result,
+      error,
+      createdAt: metadata.createdAt,
+      finishedAt: finished ? definition.getFinishedAt?.(data) ?? metadata.finishedAt : undefined,
+      rawResponse: data
+    };
+  }
+}
+
+/**
+ * Creates a provider for a REST API from a declarative definition.
+ *
+ * @remarks
+ * Covers APIs that create a task with one request and report its status
+ * with another. The definition maps SDK params to request bodies, and the
+ * API's statuses, errors and outputs back to {@link StandardTask}; the
+ * provider handles authentication, retries (see `maxRetries`), task
+ * metadata and error normalization. For anything more involved (uploads,
+ * multi-step flows), extend {@link AbstractProvider} instead.
+ *
+ * @param definition - Endpoints, auth scheme, mappers and extractors
+ * @param config - API key, timeouts, retries and task store
+ * @returns A provider usable with {@link Magi3DClient} and {@link RouterProvider}
+ *
+ * @throws Error if the auth scheme needs an API key and none is configured
+ *
+ * @example
+ * ```typescript
+ * import { defineProvider, Magi3DClient, TaskStatus, TaskType } from 'magi-3d/server';
+ *
+ * // Acme's response bodies (tasks and errors)
+ * interface AcmeResponse {
+ *   id: string;
+ *   state: string;
+ *   progress?: number;
+ *   finished_at?: string;
+ *   error?: { code: string; message: string };
+ *   outputs?: { glb?: string; preview?: string };
+ * }
+ *
+ * const acme = defineProvider<unknown, AcmeResponse>({
+ *   id: 'acme',
+ *   name: 'Acme',
+ *   baseUrl: 'https://api.acme.dev',
+ *   auth: { type: 'bearer', env: 'ACME_API_KEY' },
+ *   endpoints: {
+ *     create: '/v1/tasks',
+ *     status: '/v1/tasks/{taskId}',
+ *     cancel: { method: 'DELETE', path: '/v1/tasks/{taskId}' }
+ *   },
+ *   payloads: {
+ *     [TaskType.TEXT_TO_3D]: (params) => ({ mode: 'text', prompt: params.prompt }),
+ *     [TaskType.IMAGE_TO_3D]: (params) => ({ mode: 'image', image_url: params.input })
+ *   },
+ *   getTaskId: (data) => data.id,
+ *   getStatus: (data) => data.state,
+ *   statusMap: { queued: TaskStatus.PENDING, running: TaskStatus.PROCESSING, done: TaskStatus.SUCCEEDED, failed: TaskStatus.FAILED },
+ *   getProgress: (data) => data.progress,
+ *   getFinishedAt: (data) => data.finished_at ? Date.parse(data.finished_at) : undefined,
+ *   getErrorCode: (data) => data.error?.code,
+ *   getErrorMessage: (data) => data.error?.message,
+ *   errorMap: { no_credits: 'INSUFFICIENT_CREDITS', nsfw: 'CONTENT_POLICY_VIOLATION' },
+ *   artifacts: {
+ *     modelGlb: (data) => data.outputs?.glb,
+ *     thumbnail: (data) => data.outputs?.preview
+ *   }
+ * });
+ *
+ * const client = new Magi3DClient(acme);
+ * ```
+ */
+export function defineProvider<TOptions = unknown, TData = unknown>(
+  definition: ProviderDefinition<TOptions, TData>,
+  config: DefinedProviderConfig = {}
+): AbstractProvider<DefinedProviderConfig> {
+  return new DefinedProvider(definition, config);
+}
@@ -4,7 +4,7 @@
  */
 
 import axios, { AxiosInstance, AxiosResponse } from 'axios';
-import { AbstractProvider, ImageInput } from '../core/AbstractProvider';
+import { AbstractProvider, ImageInput, RequestOptions } from '../core/AbstractProvider';
 import { ApiError } from '../core/Magi3DClient';
 import {
   TaskParams,
@@ -12,6 +12,10 @@ import {
   TaskStatus,
   TaskType,
   ProviderId,
+  ProviderCapabilities,
+  PROVIDER_CAPABILITIES,
+  PricingTable,
+  PROVIDER_PRICING,
   HunyuanConfig,
   HunyuanOptions,
   TaskArtifacts,
@@ -23,10 +27,12 @@ import {
   isDecimateParams,
   isUVUnwrapParams,
   isSegmentParams,
-  isConvertParams
+  isConvertParams,
+  TaskStore
 } from '../types';
 import { TencentCloudSigner } from '../utils/TencentCloudSigner';
 import { InputUtils } from '../utils/InputUtils';
+import { MemoryTaskStore } from '../stores/MemoryTaskStore';
 
 // ============================================
 // Hunyuan Error Code Mapping
@@ -158,6 +164,13 @@ interface TaskMetadata {
   syncConvertResponse?: HunyuanApiResponse['Response'];
 }
 
+/**
+ * How long job metadata is kept in the task store.
+ * Jobs are polled shortly after submission, so a day leaves ample margin.
+ * @internal
+ */
+const TASK_METADATA_TTL = 24 * 60 * 60 * 1000;
+
 // ============================================
 // Action Mappings
 // ============================================
@@ -248,15 +261,16 @@ export class HunyuanProvider extends AbstractProvider<HunyuanConfig> {
   /** Axios HTTP client */
   private client: AxiosInstance;
 
-  /** Task metadata cache for status queries */
-  private taskMetadata: Map<string, TaskMetadata> = new Map();
+  /** Task metadata store for status queries */
+  private taskStore: TaskStore;
 
   /**
    * Creates a new HunyuanProvider instance.
    *
    * @param config - Hunyuan API configuration. If secretId/secretKey are not provided,
    *                 they will be read from HUNYUAN_SECRET_ID and HUNYUAN_SECRET_KEY
-   *                 environment variables.
+   *                 environment variables. Pass `taskStore` to poll jobs created
+   *                 by other instances or before a restart.
    *
    * @example
    * ```typescript
@@ -284,6 +298,8 @@ export class HunyuanProvider extends AbstractProvider<HunyuanConfig> {
 
     super({ ...config, secretId, secretKey });
 
+    this.taskStore = config.taskStore ?? new MemoryTaskStore();
+
     // Use regional endpoint or default
     this.host = config.endpoint || `ai3d.${config.region || 'ap-guangzhou'}.tencentcloudapi.com`;
 
@@ -304,6 +320,24 @@ export class HunyuanProvider extends AbstractProvider<HunyuanConfig> {
     this.supportedTaskTypes.add(TaskType.CONVERT);
   }
 
+  /**
+   * Describes the params, options and outputs of each Hunyuan task type.
+   *
+   * @returns The Hunyuan entry of {@link PROVIDER_CAPABILITIES}
+   */
+  describeCapabilities(): ProviderCapabilities {
+    return { ...PROVIDER_CAPABILITIES[ProviderId.HUNYUAN] };
+  }
+
+  /**
+   * Default Hunyuan prices.
+   *
+   * @returns The Hunyuan entry of {@link PROVIDER_PRICING}
+   */
+  protected getDefaultPricing(): PricingTable {
+    return PROVIDER_PRICING[ProviderId.HUNYUAN];
+  }
+
   /**
    * Prepares input for the Hunyuan API.
    *
@@ -323,45 +357,20 @@ export class HunyuanProvider extends AbstractProvider<HunyuanConfig> {
   /**
    * Creates a task via the Hunyuan API.
    */
-  protected async doCreateTask(params: TaskParams<HunyuanOptions>): Promise<string> {
+  protected async doCreateTask(params: TaskParams<HunyuanOptions>, options: RequestOptions = {}): Promise<string> {
     const actionInfo = ACTION_MAP[params.type];
     if (!actionInfo) {
       throw new Error(`Unsupported task type for Hunyuan: ${params.type}`);
     }
 
     const payload = this.buildPayload(params);
-    const payloadStr = JSON.stringify(payload);
-
-    // Sign the request (credentials validated in constructor)
-    const headers = TencentCloudSigner.sign({
-      secretId: this.config.secretId!,
-      secretKey: this.config.secretKey!,
-      service: this.service,
-      host: this.host,
-      region: this.config.region || 'ap-guangzhou',
-      action: actionInfo.submit,
-      version: this.apiVersion,
-      payload: payloadStr
-    });
-
-    const response: AxiosResponse<HunyuanApiResponse> = await this.client.post('/', payloadStr, { headers });
-    const apiResponse = response.data.Response;
-
-    // Check for API error (公共错误码)
-    if (apiResponse.Error) {
-      const sdkCode = mapHunyuanErrorCode(apiResponse.Error.Code);
-      throw new ApiError(
-        `Hunyuan API error: ${apiResponse.Error.Message}`,
-        sdkCode,
-        response.data  // Include full raw response
-      );
-    }
+    const apiResponse = await this.request(actionInfo.submit, JSON.stringify(payload), options);
 
     // Handle sync Convert3DFormat (returns result directly, no JobId)
     if (params.type === TaskType.CONVERT && apiResponse.ResultFile3D) {
       // Create a synthetic task ID and store the result with raw response
       const syntheticId = `convert_${Date.now()}`;
-      this.taskMetadata.set(syntheticId, {
+      await this.setTaskMetadata(syntheticId, {
         taskType: TaskType.CONVERT,
         queryAction: '',
         syncConvertResponse: apiResponse
@@ -375,7 +384,7 @@ export class HunyuanProvider extends AbstractProvider<HunyuanConfig> {
     }
 
     // Store task metadata for status queries
-    this.taskMetadata.set(jobId, {
+    await this.setTaskMetadata(jobId, {
       taskType: params.type,
       queryAction: actionInfo.query
     });
@@ -541,8 +550,8 @@ export class HunyuanProvider extends AbstractProvider<HunyuanConfig> {
   /**
    * Fetches and normalizes task status from the Hunyuan API.
    */
-  async getTaskStatus(taskId: string): Promise<StandardTask> {
-    const metadata = this.taskMetadata.get(taskId);
+  async getTaskStatus(taskId: string, options: RequestOptions = {}): Promise<StandardTask> {
+    const metadata = await this.taskStore.get<TaskMetadata>(this.getTaskKey(taskId));
 
     // Handle sync convert task (already completed)
     if (taskId.startsWith('convert_') && metadata?.syncConvertResponse) {
@@ -562,37 +571,89 @@ export class HunyuanProvider extends AbstractProvider<HunyuanConfig> {
     }
 
     if (!metadata) {
-      throw new Error(`Unknown task ID: ${taskId}. Task metadata not found.`);
+      throw new Error(
+        `Unknown task ID: ${taskId}. Task metadata not found (use a shared taskStore to poll across restarts or instances).`
+      );
     }
 
-    const payload = JSON.stringify({ JobId: taskId });
-
-    // Credentials validated in constructor
-    const headers = TencentCloudSigner.sign({
-      secretId: this.config.secretId!,
-      secretKey: this.config.secretKey!,
-      service: this.service,
-      host: this.host,
-      region: this.config.region || 'ap-guangzhou',
-      action: metadata.queryAction,
-      version: this.apiVersion,
-      payload
+    const apiResponse = await this.request(metadata.queryAction, JSON.stringify({ JobId: taskId }), {
+      ...options,
+      idempotent: true
     });
 
-    const response: AxiosResponse<HunyuanApiResponse> = await this.client.post('/', payload, { headers });
-    const apiResponse = response.data.Response;
+    return this.normalizeHunyuanResponse(taskId, metadata.taskType, apiResponse);
+  }
+
+  /**
+   * Saves job metadata needed by later status queries.
+   * @internal
+   */
+  private setTaskMetadata(taskId: string, metadata: TaskMetadata): Promise<void> {
+    return this.taskStore.set(this.getTaskKey(taskId), metadata, { ttl: TASK_METADATA_TTL });
+  }
 
-    // Check for API error (公共错误码)
-    if (apiResponse.Error) {
-      const sdkCode = mapHunyuanErrorCode(apiResponse.Error.Code);
-      throw new ApiError(
-        `Hunyuan API error: ${apiResponse.Error.Message}`,
-        sdkCode,
-        response.data  // Include full raw response
-      );
-    }
+  /**
+   * Builds the task store key for a job.
+   * @internal
+   */
+  private getTaskKey(taskId: string): string {
+    return `hunyuan:task:${taskId}`;
+  }
 
-    return this.normalizeHunyuanResponse(taskId, metadata.taskType, apiResponse);
+  /**
+   * Sends a signed request to the Tencent Cloud API with retries.
+   *
+   * @remarks
+   * The request is re-signed on every attempt, since TC3 signatures embed
+   * the request timestamp. Tencent Cloud reports errors as HTTP 200 with
+   * `Response.Error`, which is converted to {@link ApiError} here so the
+   * retry policy can inspect the mapped code.
+   *
+   * @param action - Tencent Cloud API action
+   * @param payload - JSON request body
+   * @param options - Request options of the call, plus idempotency
+   * @returns The `Response` object of the API reply
+   *
+   * @throws ApiError if the API returns an error (after retries)
+   *
+   * @internal
+   */
+  private request(
+    action: string,
+    payload: string,
+    options: RequestOptions & { idempotent?: boolean }
+  ): Promise<HunyuanApiResponse['Response']> {
+    return this.withRetry(async () => {
+      // Credentials validated in constructor
+      const headers = TencentCloudSigner.sign({
+        secretId: this.config.secretId!,
+        secretKey: this.config.secretKey!,
+        service: this.service,
+        host: this.host,
+        region: this.config.region || 'ap-guangzhou',
+        action,
+        version: this.apiVersion,
+        payload
+      });
+
+      const response: AxiosResponse<HunyuanApiResponse> = await this.client.post('/', payload, {
+        headers,
+        signal: options.signal
+      });
+      const apiResponse = response.data.Response;
+
+      // Check for API error (公共错误码)
+      if (apiResponse.Error) {
+        const sdkCode = mapHunyuanErrorCode(apiResponse.Error.Code);
+        throw new ApiError(
+          `Hunyuan API error: ${apiResponse.Error.Message}`,
+          sdkCode,
+          response.data  // Include full raw response
+        );
+      }
+
+      return apiResponse;
+    }, options);
   }
 
   /**
@@ -0,0 +1,630 @@
+/**
+ * @module providers/MeshyProvider
+ * @description Meshy provider implementation for 3D model generation
+ */
+
+import axios, { AxiosInstance, AxiosResponse } from 'axios';
+import { AbstractProvider, ImageInput, RequestOptions } from '../core/AbstractProvider';
+import { ApiError } from '../core/Magi3DClient';
+import { InputUtils } from '../utils/InputUtils';
+import { parseRetryAfter } from '../utils/errors';
+import { MemoryTaskStore } from '../stores/MemoryTaskStore';
+import {
+  TaskParams,
+  StandardTask,
+  TaskStatus,
+  TaskType,
+  ProviderId,
+  ProviderCapabilities,
+  PROVIDER_CAPABILITIES,
+  PricingTable,
+  PROVIDER_PRICING,
+  MeshyConfig,
+  MeshyOptions,
+  TaskArtifacts,
+  TaskStore,
+  isTextTo3DParams,
+  isImageTo3DParams,
+  isMultiviewTo3DParams,
+  isTextureParams,
+  isRefineParams,
+  isRigParams,
+  isAnimateParams,
+  isDecimateParams,
+  isConvertParams
+} from '../types';
+
+// ============================================
+// Meshy API Types (Internal)
+// ============================================
+
+/**
+ * Meshy task object (shared by all task endpoints)
+ * @internal
+ */
+interface MeshyTaskData {
+  id: string;
+  status: string;
+  progress?: number;
+  created_at?: number;
+  finished_at?: number;
+  // Generation, retexture and remesh output
+  model_urls?: {
+    glb?: string;
+    fbx?: string;
+    obj?: string;
+    usdz?: string;
+    stl?: string;
+    blend?: string;
+    '3mf'?: string;
+  };
+  thumbnail_url?: string;
+  video_url?: string;
+  texture_urls?: Array<{
+    base_color?: string;
+    metallic?: string;
+    normal?: string;
+    roughness?: string;
+  }>;
+  // Rigging and animation output
+  result?: {
+    rigged_character_glb_url?: string;
+    rigged_character_fbx_url?: string;
+    animation_glb_url?: string;
+    animation_fbx_url?: string;
+    processed_usdz_url?: string;
+  };
+  task_error?: {
+    message?: string;
+  };
+}
+
+/**
+ * Task metadata stored for status queries
+ * @internal
+ */
+interface TaskMetadata {
+  taskType: TaskType;
+  endpoint: string;
+  /** Target format of convert tasks */
+  format?: string;
+}
+
+/**
+ * How long task metadata is kept in the task store.
+ * Meshy keeps tasks for 3 days; tasks are polled well before that.
+ * @internal
+ */
+const TASK_METADATA_TTL = 3 * 24 * 60 * 60 * 1000;
+
+/**
+ * Meshy reports errors by HTTP status with a `message` body.
+ * @internal
+ */
+const MESHY_ERROR_CODE_MAP: Record<number, string> = {
+  400: 'INVALID_PARAMETER',
+  401: 'INVALID_API_KEY',
+  402: 'INSUFFICIENT_CREDITS',
+  403: 'ACCESS_DENIED',
+  404: 'TASK_NOT_FOUND',
+  422: 'INVALID_PARAMETER',
+  429: 'RATE_LIMIT_EXCEEDED',
+  500: 'SERVER_ERROR',
+  502: 'SERVER_ERROR',
+  503: 'SERVER_ERROR',
+  504: 'SERVER_ERROR'
+};
+
+/**
+ * Formats Meshy's remesh endpoint can produce.
+ * @internal
+ */
+const REMESH_FORMATS = new Set(['glb', 'fbx', 'obj', 'usdz', 'blend', 'stl']);
+
+/**
+ * Artifact field filled for each conversion format, besides `model`
+ * @internal
+ */
+const CONVERT_FIELDS: Record<string, keyof TaskArtifacts | undefined> = {
+  glb: 'modelGlb',
+  fbx: 'modelFbx',
+  obj: 'modelObj',
+  usdz: 'modelUsdz'
+};
+
+// ============================================
+// Endpoint Mappings
+// ============================================
+
+/**
+ * Maps SDK TaskType to the Meshy endpoint used to create and query it
+ * @internal
+ */
+const ENDPOINT_MAP: Partial<Record<TaskType, string>> = {
+  [TaskType.TEXT_TO_3D]: '/openapi/v2/text-to-3d',
+  [TaskType.REFINE]: '/openapi/v2/text-to-3d',
+  [TaskType.IMAGE_TO_3D]: '/openapi/v1/image-to-3d',
+  [TaskType.MULTIVIEW_TO_3D]: '/openapi/v1/multi-image-to-3d',
+  [TaskType.TEXTURE]: '/openapi/v1/retexture',
+  [TaskType.DECIMATE]: '/openapi/v1/remesh',
+  [TaskType.CONVERT]: '/openapi/v1/remesh',
+  [TaskType.RIG]: '/openapi/v1/rigging',
+  [TaskType.ANIMATE]: '/openapi/v1/animations'
+};
+
+// ============================================
+// Provider Implementation
+// ============================================
+
+/**
+ * Meshy provider for 3D model generation.
+ *
+ * @remarks
+ * Meshy offers text, image and multi-image generation plus retexturing,
+ * remeshing, rigging and animation of humanoid characters.
+ *
+ * **Supported Task Types:**
+ * - {@link TaskType.TEXT_TO_3D} - Text to 3D preview (untextured mesh)
+ * - {@link TaskType.REFINE} - Texture a text-to-3D preview
+ * - {@link TaskType.IMAGE_TO_3D} - Image to 3D model
+ * - {@link TaskType.MULTIVIEW_TO_3D} - 1-4 images of the same object to 3D
+ * - {@link TaskType.TEXTURE} - Retexture a model (task ID or model URL)
+ * - {@link TaskType.DECIMATE} - Remesh to a target polycount / topology
+ * - {@link TaskType.CONVERT} - Remesh into another format
+ * - {@link TaskType.RIG} - Rig a humanoid character
+ * - {@link TaskType.ANIMATE} - Apply an animation from Meshy's library
+ *
+ * Meshy queries each task type on its own endpoint, so the task type is
+ * recorded in `taskStore` when a task is created (like Hunyuan).
+ *
+ * **API Documentation:**
+ * @see https://docs.meshy.ai/api
+ *
+ * @example
+ * ```typescript
+ * import { MeshyProvider, Magi3DClient, TaskType } from 'magi-3d/server';
+ *
+ * const provider = new MeshyProvider(); // Uses MESHY_API_KEY
+ * const client = new Magi3DClient(provider);
+ *
+ * // Untextured preview, then refine it into a textured model
+ * const previewId = await client.createTask({ type: TaskType.TEXT_TO_3D, prompt: 'a wooden chair' });
+ * await client.pollUntilDone(previewId);
+ *
+ * const refineId = await client.createTask({
+ *   type: TaskType.REFINE,
+ *   taskId: previewId,
+ *   providerOptions: { enable_pbr: true }
+ * });
+ * const result = await client.pollUntilDone(refineId);
+ * console.log('Model:', result.result?.modelGlb, result.result?.modelUsdz);
+ * ```
+ */
+export class MeshyProvider extends AbstractProvider<MeshyConfig> {
+  /** Provider name identifier */
+  readonly name = 'Meshy';
+
+  /** Axios HTTP client instance */
+  private client: AxiosInstance;
+
+  /** Task metadata store for status queries */
+  private taskStore: TaskStore;
+
+  /**
+   * Creates a new MeshyProvider instance.
+   *
+   * @param config - Meshy API configuration. If apiKey is not provided,
+   *                 it will be read from MESHY_API_KEY environment variable.
+   *                 Pass `taskStore` to poll tasks created by other instances
+   *                 or before a restart.
+   *
+   * @example
+   * ```typescript
+   * // Using environment variable (process.env.MESHY_API_KEY)
+   * const provider = new MeshyProvider();
+   *
+   * // Or with explicit API key
+   * const provider = new MeshyProvider({ apiKey: 'msy_...' });
+   * ```
+   */
+  constructor(config: MeshyConfig = {}) {
+    const apiKey = config.apiKey || process.env.MESHY_API_KEY;
+
+    if (!apiKey) {
+      throw new Error(
+        'Meshy API key is required. Provide it via config.apiKey or set MESHY_API_KEY environment variable.'
+      );
+    }
+
+    super({ ...config, apiKey });
+
+    this.taskStore = config.taskStore ?? new MemoryTaskStore();
+
+    this.client = axios.create({
+      baseURL: config.baseUrl || 'https://api.meshy.ai',
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+        'Content-Type': 'application/json'
+      },
+      timeout: config.timeout || 120000
+    });
+
+    // Register supported task types
+    this.supportedTaskTypes.add(TaskType.TEXT_TO_3D);
+    this.supportedTaskTypes.add(TaskType.REFINE);
+    this.supportedTaskTypes.add(TaskType.IMAGE_TO_3D);
+    this.supportedTaskTypes.add(TaskType.MULTIVIEW_TO_3D);
+    this.supportedTaskTypes.add(TaskType.TEXTURE);
+    this.supportedTaskTypes.add(TaskType.DECIMATE);
+    this.supportedTaskTypes.add(TaskType.CONVERT);
+    this.supportedTaskTypes.add(TaskType.RIG);
+    this.supportedTaskTypes.add(TaskType.ANIMATE);
+  }
+
+  /**
+   * Describes the params, options and outputs of each Meshy task type.
+   *
+   * @returns The Meshy entry of {@link PROVIDER_CAPABILITIES}
+   */
+  describeCapabilities(): ProviderCapabilities {
+    return { ...PROVIDER_CAPABILITIES[ProviderId.MESHY] };
+  }
+
+  /**
+   * Default Meshy prices.
+   *
+   * @returns The Meshy entry of {@link PROVIDER_PRICING}
+   */
+  protected getDefaultPricing(): PricingTable {
+    return PROVIDER_PRICING[ProviderId.MESHY];
+  }
+
+  /**
+   * Prepares input for the Meshy API.
+   *
+   * @remarks
+   * Meshy accepts public URLs and data URIs. Raw base64 is wrapped in a
+   * data URI.
+   *
+   * @param input - Image input (URL or base64 string)
+   * @returns URL or data URI
+   */
+  protected async prepareInput(input: ImageInput): Promise<string> {
+    InputUtils.validate(input);
+    return this.toImageUri(input);
+  }
+
+  /**
+   * Wraps raw base64 image data in a data URI; URLs and data URIs pass through.
+   * @internal
+   */
+  private toImageUri(input: string): string {
+    if (InputUtils.isUrl(input) || input.startsWith('data:')) {
+      return input;
+    }
+    const mime = input.startsWith('/9j/') ? 'image/jpeg' : 'image/png';
+    return `data:${mime};base64,${input}`;
+  }
+
+  /**
+   * Creates a task via the Meshy API.
+   *
+   * @param params - Task parameters
+   * @param options - Request options (e.g., abort signal)
+   * @returns Task ID from Meshy
+   *
+   * @throws Error if the params cannot be expressed for Meshy
+   * @throws ApiError if the API request fails (after retries)
+   */
+  protected async doCreateTask(params: TaskParams<MeshyOptions>, options: RequestOptions = {}): Promise<string> {
+    const endpoint = ENDPOINT_MAP[params.type];
+    if (!endpoint) {
+      throw new Error(`Unsupported task type for Meshy: ${params.type}`);
+    }
+
+    const payload = this.buildPayload(params);
+    const response = await this.withRetry(async () => {
+      try {
+        return await this.client.post<{ result: string }>(endpoint, payload, { signal: options.signal });
+      } catch (error) {
+        throw this.toApiError(error);
+      }
+    }, options);
+
+    const taskId = response.data.result;
+    await this.setTaskMetadata(taskId, {
+      taskType: params.type,
+      endpoint,
+      ...(isConvertParams(params) && { format: params.format })
+    });
+    return taskId;
+  }
+
+  /**
+   * Builds the Meshy API payload based on task type.
+   *
+   * @param params - Task parameters
+   * @returns API payload object
+   */
+  private buildPayload(params: TaskParams<MeshyOptions>): Record<string, unknown> {
+    const options = params.providerOptions || {};
+
+    // Text-to-3D preview (untextured)
+    if (isTextTo3DParams(params)) {
+      return {
+        mode: 'preview',
+        prompt: params.prompt,
+        ...(params.negative_prompt && { negative_prompt: params.negative_prompt }),
+        ...options
+      };
+    }
+
+    // Refine: texture a text-to-3D preview
+    if (isRefineParams(params)) {
+      return {
+        mode: 'refine',
+        preview_task_id: params.taskId,
+        ...options
+      };
+    }
+
+    // Image-to-3D (input prepared by prepareInput)
+    if (isImageTo3DParams(params)) {
+      return {
+        image_url: params.input,
+        ...options
+      };
+    }
+
+    // Multi-image-to-3D: 1-4 views of the same object, empty views dropped
+    if (isMultiviewTo3DParams(params)) {
+      const images = params.inputs.filter(Boolean);
+      if (images.length === 0 || images.length > 4) {
+        throw new Error('Meshy multi-image-to-3D requires 1 to 4 images');
+      }
+      return {
+        image_urls: images.map((input) => this.toImageUri(input)),
+        ...options
+      };
+    }
+
+    // Retexture: by task ID or model URL, styled by prompt or image
+    if (isTextureParams(params)) {
+      if (!params.prompt && !params.styleImage) {
+        throw new Error('Meshy Texture requires prompt or styleImage');
+      }
+      return {
+        ...this.getModelSource(params, 'Texture'),
+        ...(params.prompt && { text_style_prompt: params.prompt }),
+        ...(params.styleImage && { image_style_url: this.toImageUri(params.styleImage) }),
+        ...(params.enablePBR !== undefined && { enable_pbr: params.enablePBR }),
+        ...options
+      };
+    }
+
+    // Decimate: remesh to a target polycount / topology
+    if (isDecimateParams(params)) {
+      return {
+        ...this.getModelSource(params, 'Decimate'),
+        ...(params.targetFaceCount && { target_polycount: params.targetFaceCount }),
+        ...(params.quad !== undefined && { topology: params.quad ? 'quad' : 'triangle' }),
+        ...options
+      };
+    }
+
+    // Convert: remesh into the requested format
+    if (isConvertParams(params)) {
+      if (!REMESH_FORMATS.has(params.format)) {
+        throw new Error(`Meshy cannot convert to ${params.format}`);
+      }
+      return {
+        input_task_id: params.taskId,
+        target_formats: [params.format],
+        ...(params.quad !== undefined && { topology: params.quad ? 'quad' : 'triangle' }),
+        ...(params.faceLimit && { target_polycount: params.faceLimit }),
+        ...options
+      };
+    }
+
+    // Rigging (humanoid characters only)
+    if (isRigParams(params)) {
+      if (params.skeleton && !['humanoid', 'biped', 'auto'].includes(params.skeleton)) {
+        throw new Error(`Meshy only rigs humanoid characters (skeleton: ${params.skeleton})`);
+      }
+      return {
+        input_task_id: params.taskId,
+        ...options
+      };
+    }
+
+    // Animation: action ID from Meshy's animation library
+    if (isAnimateParams(params)) {
+      const actionId = Number(params.animation);
+      if (!Number.isInteger(actionId)) {
+        throw new Error(`Meshy animation must be a numeric action ID (got: ${params.animation})`);
+      }
+      return {
+        rig_task_id: params.taskId,
+        action_id: actionId,
+        ...options
+      };
+    }
+
+    throw new Error(`Unsupported task type: ${params.type}`);
+  }
+
+  /**
+   * Builds the source model reference of a post-processing task.
+   * @internal
+   */
+  private getModelSource(
+    params: { taskId?: string; modelUrl?: string },
+    operation: string
+  ): Record<string, string> {
+    if (params.taskId) {
+      return { input_task_id: params.taskId };
+    }
+    if (params.modelUrl) {
+      return { model_url: params.modelUrl };
+    }
+    throw new Error(`Meshy ${operation} requires taskId or modelUrl`);
+  }
+
+  /**
+   * Fetches and normalizes task status from the Meshy API.
+   *
+   * @param taskId - The Meshy task ID
+   * @param options - Request options (e.g., abort signal)
+   * @returns Normalized StandardTask object
+   *
+   * @throws Error if the task was not created through a provider sharing this `taskStore`
+   * @throws ApiError if the HTTP request fails (after retries)
+   */
+  async getTaskStatus(taskId: string, options: RequestOptions = {}): Promise<StandardTask> {
+    const metadata = await this.taskStore.get<TaskMetadata>(this.getTaskKey(taskId));
+    if (!metadata) {
+      throw new Error(
+        `Unknown task ID: ${taskId}. Task metadata not found (use a shared taskStore to poll across restarts or instances).`
+      );
+    }
+
+    const response = await this.withRetry(async () => {
+      try {
+        return await this.client.get<MeshyTaskData>(`${metadata.endpoint}/${taskId}`, { signal: options.signal });
+      } catch (error) {
+        throw this.toApiError(error);
+      }
+    }, { ...options, idempotent: true });
+
+    return this.normalizeMeshyResponse(metadata, response.data);
+  }
+
+  /**
+   * Saves task metadata needed by later status queries.
+   * @internal
+   */
+  private setTaskMetadata(taskId: string, metadata: TaskMetadata): Promise<void> {
+    return this.taskStore.set(this.getTaskKey(taskId), metadata, { ttl: TASK_METADATA_TTL });
+  }
+
+  /**
+   * Builds the task store key for a task.
+   * @internal
+   */
+  private getTaskKey(taskId: string): string {
+    return `meshy:task:${taskId}`;
+  }
+
+  /**
+   * Converts axios HTTP errors (4xx/5xx) to {@link ApiError}; other errors
+   * pass through unchanged.
+   * @internal
+   */
+  private toApiError(error: unknown): unknown {
+    if (!axios.isAxiosError(error) || !error.response) {
+      return error;
+    }
+    const response = error.response as AxiosResponse<{ message?: string } | undefined>;
+    const sdkCode = MESHY_ERROR_CODE_MAP[response.status] || `MESHY_ERROR_${response.status}`;
+    return new ApiError(
+      `Request error [HTTP ${response.status}]: ${response.data?.message || 'Unknown error'}`,
+      sdkCode,
+      response.data,
+      response.status,
+      parseRetryAfter(response.headers['retry-after'])
+    );
+  }
+
+  /**
+   * Normalizes a Meshy task object to SDK StandardTask format.
+   *
+   * @param metadata - Task metadata recorded at creation
+   * @param data - Raw Meshy task data
+   * @returns Normalized StandardTask
+   *
+   * @internal
+   */
+  private normalizeMeshyResponse(metadata: TaskMetadata, data: MeshyTaskData): StandardTask {
+    const statusMap: Record<string, TaskStatus> = {
+      'PENDING': TaskStatus.PENDING,
+      'IN_PROGRESS': TaskStatus.PROCESSING,
+      'SUCCEEDED': TaskStatus.SUCCEEDED,
+      'FAILED': TaskStatus.FAILED,
+      'EXPIRED': TaskStatus.FAILED,
+      'CANCELED': TaskStatus.CANCELED
+    };
+
+    let sdkStatus = statusMap[data.status] || TaskStatus.PROCESSING;
+
+    // Build result artifacts if task succeeded
+    // Priority for primary model: glb > fbx > obj > usdz
+    let result: TaskArtifacts | undefined;
+    let error: StandardTask['error'];
+    if (sdkStatus === TaskStatus.SUCCEEDED && metadata.format) {
+      // Convert tasks: the model is the requested format, nothing else
+      const model = data.model_urls?.[metadata.format as keyof NonNullable<MeshyTaskData['model_urls']>];
+      const field = CONVERT_FIELDS[metadata.format];
+      if (model) {
+        result = { model, ...(field && { [field]: model }) };
+      } else {
+        sdkStatus = TaskStatus.FAILED;
+        error = {
+          code: 'CONVERSION_FAILED',
+          message: `Meshy returned no ${metadata.format} model`,
+          raw: data
+        };
+      }
+    } else if (sdkStatus === TaskStatus.SUCCEEDED) {
+      const urls = {
+        glb: data.model_urls?.glb || data.result?.rigged_character_glb_url || data.result?.animation_glb_url,
+        fbx: data.model_urls?.fbx || data.result?.rigged_character_fbx_url || data.result?.animation_fbx_url,
+        obj: data.model_urls?.obj,
+        usdz: data.model_urls?.usdz || data.result?.processed_usdz_url
+      };
+      const textures = data.texture_urls?.[0];
+
+      result = {
+        model: urls.glb || urls.fbx || urls.obj || urls.usdz || '',
+        modelGlb: urls.glb,
+        modelFbx: urls.fbx,
+        modelObj: urls.obj,
+        modelUsdz: urls.usdz,
+        thumbnail: data.thumbnail_url,
+        video: data.video_url,
+        textureMaps: textures && {
+          albedo: textures.base_color,
+          normal: textures.normal,
+          roughness: textures.roughness
+        }
+      };
+    }
+
+    // Meshy reports failures as a message only
+    if (!error && (sdkStatus === TaskStatus.FAILED || sdkStatus === TaskStatus.CANCELED)) {
+      const statusCodeMap: Record<string, string> = {
+        'FAILED': 'GENERATION_FAILED',
+        'EXPIRED': 'TASK_EXPIRED',
+        'CANCELED': 'TASK_CANCELED'
+      };
+      error = {
+        code: statusCodeMap[data.status] || 'GENERATION_FAILED',
+        message: data.task_error?.message || 'Task failed',
+        raw: data
+      };
+    }
+
+    return {
+      id: data.id,
+      provider: ProviderId.MESHY,
+      type: metadata.taskType,
+      status: sdkStatus,
+      progress: data.progress || 0,
+      progressDetail: sdkStatus === TaskStatus.PROCESSING ? `${data.progress || 0}%` : undefined,
+      result,
+      error,
+      createdAt: data.created_at || Date.now(),
+      finishedAt: data.finished_at || undefined,
+      rawResponse: data
+    };
+  }
+}
@@ -0,0 +1,296 @@
+/**
+ * @module providers/MockProvider
+ * @description Deterministic in-memory provider for tests and local development
+ */
+
+import { AbstractProvider, ImageInput, RequestOptions } from '../core/AbstractProvider';
+import { ApiError } from '../core/Magi3DClient';
+import {
+  TaskParams,
+  StandardTask,
+  TaskStatus,
+  TaskType,
+  ProviderId,
+  MockConfig,
+  MockDurations,
+  MockFailure,
+  TaskArtifacts,
+  isTextToImageParams,
+  isGenerateImageParams,
+  isPreRigCheckParams,
+  isConvertParams,
+  isRigParams,
+  isAnimateParams
+} from '../types';
+
+// ============================================
+// Mock Types (Internal)
+// ============================================
+
+/**
+ * A submitted mock task
+ * @internal
+ */
+interface MockTask {
+  params: TaskParams;
+  createdAt: number;
+  queued: number;
+  running: number;
+  failure?: MockFailure;
+  canceledAt?: number;
+}
+
+/**
+ * Artifact fields filled for each conversion format
+ * @internal
+ */
+const CONVERT_FIELDS: Record<string, keyof TaskArtifacts | undefined> = {
+  glb: 'modelGlb',
+  fbx: 'modelFbx',
+  obj: 'modelObj',
+  usdz: 'modelUsdz'
+};
+
+/**
+ * Default placeholder artifacts by file extension: an empty glTF 2.0 scene
+ * and a transparent 1x1 PNG. Other formats get an empty data URL.
+ * @internal
+ */
+const PLACEHOLDERS: Record<string, string> = {
+  glb: 'data:model/gltf-binary;base64,Z2xURgIAAABMAAAAOAAAAEpTT057ImFzc2V0Ijp7InZlcnNpb24iOiIyLjAiLCJnZW5lcmF0b3IiOiJtYWdpLTNkIG1vY2sifX0gIA==',
+  png: 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAAC0lEQVR42mNgAAIAAAUAAen63NgAAAAASUVORK5CYII='
+};
+
+// ============================================
+// Provider Implementation
+// ============================================
+
+/**
+ * Deterministic provider that simulates tasks without network access.
+ *
+ * @remarks
+ * Supports every {@link TaskType}. Each task is reported as `PENDING` for
+ * `durations.queued`, then `PROCESSING` with linear progress for
+ * `durations.running`, then `SUCCEEDED` with placeholder artifacts, or
+ * `FAILED` if a {@link MockFailure} matched it. States are derived from
+ * `Date.now()`, so fake timers control them exactly.
+ *
+ * Placeholder artifacts are small inline data URLs (an empty GLB scene and
+ * a 1x1 PNG), so viewers and downloads work offline; set
+ * `artifactBaseUrl` to serve your own files instead.
+ *
+ * Task IDs are sequential per instance (`mock-1`, `mock-2`, ...) and tasks
+ * are kept in memory.
+ *
+ * @example
+ * ```typescript
+ * import { MockProvider, Magi3DClient, TaskType } from 'magi-3d/server';
+ *
+ * const provider = new MockProvider({
+ *   durations: { queued: 0, running: 100 },
+ *   failures: [{ code: 'GENERATION_FAILED', types: [TaskType.RIG] }]
+ * });
+ * const client = new Magi3DClient(provider);
+ *
+ * const taskId = await client.createTask({ type: TaskType.TEXT_TO_3D, prompt: 'a cat' });
+ * const task = await client.pollUntilDone(taskId, { interval: 50 });
+ * // => task.result.model starts with 'data:model/gltf-binary;base64,'
+ * ```
+ */
+export class MockProvider extends AbstractProvider<MockConfig> {
+  /** Provider name identifier */
+  readonly name = 'Mock';
+
+  /** Submitted tasks by ID */
+  private tasks = new Map<string, MockTask>();
+
+  /** Submissions matched so far, per failure (for `times`) */
+  private failureCounts = new Map<MockFailure, number>();
+
+  /**
+   * Creates a new MockProvider instance.
+   *
+   * @param config - Durations, injected failures and artifact settings
+   */
+  constructor(config: MockConfig = {}) {
+    super(config);
+
+    // Register every task type
+    for (const type of Object.values(TaskType)) {
+      this.supportedTaskTypes.add(type);
+    }
+  }
+
+  /**
+   * Accepts any input unchanged.
+   *
+   * @param input - Image input
+   * @returns The input unchanged
+   */
+  protected async prepareInput(input: ImageInput): Promise<string> {
+    return input;
+  }
+
+  /**
+   * Records a task, or throws an injected `submit` failure.
+   *
+   * @param params - Task parameters
+   * @param options - Request options (retries apply to injected failures)
+   * @returns Sequential task ID
+   *
+   * @throws ApiError if a `submit` failure matches (after retries)
+   */
+  protected async doCreateTask(params: TaskParams, options: RequestOptions = {}): Promise<string> {
+    return this.withRetry(async () => {
+      const failure = this.matchFailure(params.type);
+      if (failure?.stage === 'submit') {
+        throw new ApiError(
+          failure.message ?? `Mock submission failed: ${failure.code}`,
+          failure.code,
+          undefined,
+          failure.httpStatus
+        );
+      }
+
+      const durations: MockDurations = {
+        ...this.config.durations,
+        ...this.config.typeDurations?.[params.type]
+      };
+      const taskId = `mock-${this.tasks.size + 1}`;
+      this.tasks.set(taskId, {
+        params,
+        createdAt: Date.now(),
+        queued: durations.queued ?? 1000,
+        running: durations.running ?? 3000,
+        failure
+      });
+      return taskId;
+    }, options);
+  }
+
+  /**
+   * Reports the state of a task at the current time.
+   *
+   * @param taskId - Task ID returned by `createTask()`
+   * @returns The task's current state
+   *
+   * @throws ApiError with code `TASK_NOT_FOUND` for unknown IDs
+   */
+  async getTaskStatus(taskId: string): Promise<StandardTask> {
+    const task = this.getTask(taskId);
+    const now = task.canceledAt ?? Date.now();
+    const elapsed = now - task.createdAt;
+    const finishedAt = task.createdAt + task.queued + task.running;
+
+    let status: TaskStatus;
+    let progress: number;
+    if (elapsed < task.queued) {
+      status = TaskStatus.PENDING;
+      progress = 0;
+    } else if (elapsed < task.queued + task.running) {
+      status = TaskStatus.PROCESSING;
+      progress = Math.min(99, Math.floor(((elapsed - task.queued) / task.running) * 100));
+    } else {
+      status = task.failure ? TaskStatus.FAILED : TaskStatus.SUCCEEDED;
+      progress = 100;
+    }
+    if (task.canceledAt !== undefined) {
+      status = TaskStatus.CANCELED;
+    }
+
+    let error: StandardTask['error'];
+    if (status === TaskStatus.FAILED && task.failure) {
+      error = { code: task.failure.code, message: task.failure.message ?? `Mock task failed: ${task.failure.code}` };
+    } else if (status === TaskStatus.CANCELED) {
+      error = { code: 'TASK_CANCELED', message: 'Task was cancelled' };
+    }
+
+    return {
+      id: taskId,
+      provider: this.config.providerId ?? ProviderId.MOCK,
+      type: task.params.type,
+      status,
+      progress,
+      progressDetail: status === TaskStatus.PROCESSING ? `${progress}%` : undefined,
+      result: status === TaskStatus.SUCCEEDED ? this.buildArtifacts(taskId, task.params) : undefined,
+      error,
+      createdAt: task.createdAt,
+      finishedAt: status === TaskStatus.CANCELED ? now
+        : status === TaskStatus.SUCCEEDED || status === TaskStatus.FAILED ? finishedAt
+        : undefined
+    };
+  }
+
+  /**
+   * Cancels a task that has not finished yet.
+   *
+   * @param taskId - Task ID returned by `createTask()`
+   *
+   * @throws ApiError with code `TASK_NOT_FOUND` for unknown IDs
+   * @throws ApiError with code `TASK_ALREADY_FINISHED` if the task has finished
+   */
+  async cancelTask(taskId: string): Promise<void> {
+    const task = this.getTask(taskId);
+    if (task.canceledAt !== undefined) {
+      return;
+    }
+    if (Date.now() - task.createdAt >= task.queued + task.running) {
+      throw new ApiError(`Task ${taskId} has already finished`, 'TASK_ALREADY_FINISHED');
+    }
+    task.canceledAt = Date.now();
+  }
+
+  /**
+   * Looks up a submitted task.
+   * @internal
+   */
+  private getTask(taskId: string): MockTask {
+    const task = this.tasks.get(taskId);
+    if (!task) {
+      throw new ApiError(`Unknown task ID: ${taskId}`, 'TASK_NOT_FOUND', undefined, 404);
+    }
+    return task;
+  }
+
+  /**
+   * Finds the first failure applying to a submission and counts it.
+   * @internal
+   */
+  private matchFailure(type: TaskType): MockFailure | undefined {
+    const failure = this.config.failures?.find((item) =>
+      (!item.types || item.types.includes(type)) &&
+      (item.times === undefined || (this.failureCounts.get(item) ?? 0) < item.times)
+    );
+    if (failure) {
+      this.failureCounts.set(failure, (this.failureCounts.get(failure) ?? 0) + 1);
+    }
+    return failure;
+  }
+
+  /**
+   * Builds placeholder artifacts matching the task's output.
+   * @internal
+   */
+  private buildArtifacts(taskId: string, params: TaskParams): TaskArtifacts {
+    const base = this.config.artifactBaseUrl;
+    const url = (extension: string) => base
+      ? `${base}/${taskId}.${extension}`
+      : PLACEHOLDERS[extension] ?? 'data:application/octet-stream;base64,';
+
+    if (isTextToImageParams(params) || isGenerateImageParams(params)) {
+      return { model: '', generatedImage: url('png'), thumbnail: url('png') };
+    }
+    if (isPreRigCheckParams(params)) {
+      return { model: '', riggable: true, rigType: 'biped' };
+    }
+    if (isConvertParams(params)) {
+      const model = url(params.format);
+      const field = CONVERT_FIELDS[params.format];
+      return { model, ...(field && { [field]: model }) };
+    }
+    if ((isRigParams(params) || isAnimateParams(params)) && params.outFormat === 'fbx') {
+      return { model: url('fbx'), modelFbx: url('fbx'), thumbnail: url('png') };
+    }
+    return { model: url('glb'), modelGlb: url('glb'), thumbnail: url('png') };
+  }
+}
@@ -0,0 +1,580 @@
+/**
+ * @module providers/RodinProvider
+ * @description Rodin (Hyper3D) provider implementation for 3D model generation
+ */
+
+import axios, { AxiosInstance, AxiosResponse } from 'axios';
+import { AbstractProvider, ImageInput, RequestOptions } from '../core/AbstractProvider';
+import { ApiError } from '../core/Magi3DClient';
+import { InputUtils } from '../utils/InputUtils';
+import { parseRetryAfter } from '../utils/errors';
+import { MemoryTaskStore } from '../stores/MemoryTaskStore';
+import {
+  TaskParams,
+  StandardTask,
+  TaskStatus,
+  TaskType,
+  ProviderId,
+  ProviderCapabilities,
+  PROVIDER_CAPABILITIES,
+  PricingTable,
+  PROVIDER_PRICING,
+  RodinConfig,
+  RodinOptions,
+  TaskArtifacts,
+  TaskStore,
+  isTextTo3DParams,
+  isImageTo3DParams,
+  isMultiviewTo3DParams
+} from '../types';
+
+// ============================================
+// Rodin API Types (Internal)
+// ============================================
+
+/**
+ * Rodin API response envelope (`error` is null on success)
+ * @internal
+ */
+interface RodinApiResponse {
+  error?: string | null;
+  message?: string;
+}
+
+/**
+ * Response of the generation endpoint
+ * @internal
+ */
+interface RodinGenerationResponse extends RodinApiResponse {
+  uuid: string;
+  jobs: {
+    uuids: string[];
+    subscription_key: string;
+  };
+}
+
+/**
+ * Response of the status endpoint (one entry per generation stage)
+ * @internal
+ */
+interface RodinStatusResponse extends RodinApiResponse {
+  jobs: Array<{
+    uuid: string;
+    status: 'Waiting' | 'Generating' | 'Done' | 'Failed';
+  }>;
+}
+
+/**
+ * Response of the download endpoint
+ * @internal
+ */
+interface RodinDownloadResponse extends RodinApiResponse {
+  list: Array<{
+    url: string;
+    name: string;
+  }>;
+}
+
+/**
+ * Task metadata stored for status queries
+ * @internal
+ */
+interface TaskMetadata {
+  taskType: TaskType;
+  subscriptionKey: string;
+  createdAt: number;
+  /** When a status query first saw the task finished */
+  finishedAt?: number;
+}
+
+/**
+ * How long task metadata is kept in the task store.
+ * @internal
+ */
+const TASK_METADATA_TTL = 24 * 60 * 60 * 1000;
+
+/**
+ * Rodin error strings mapped to SDK error codes
+ * @internal
+ */
+const RODIN_ERROR_CODE_MAP: Record<string, string> = {
+  'INVALID_REQUEST': 'INVALID_PARAMETER',
+  'INVALID_PARAMETER': 'INVALID_PARAMETER',
+  'UNAUTHORIZED': 'INVALID_API_KEY',
+  'INVALID_API_KEY': 'INVALID_API_KEY',
+  'INSUFFICIENT_FUND': 'INSUFFICIENT_CREDITS',
+  'NO_CREDITS': 'INSUFFICIENT_CREDITS',
+  'FORBIDDEN': 'ACCESS_DENIED',
+  'TASK_NOT_FOUND': 'TASK_NOT_FOUND',
+  'RATE_LIMITED': 'RATE_LIMIT_EXCEEDED',
+  'TOO_MANY_REQUESTS': 'RATE_LIMIT_EXCEEDED',
+  'CONTENT_VIOLATION': 'CONTENT_POLICY_VIOLATION',
+  'INTERNAL_ERROR': 'SERVER_ERROR',
+  'SERVER_ERROR': 'SERVER_ERROR'
+};
+
+/**
+ * Rodin accepts at most 5 condition images per task.
+ * @internal
+ */
+const MAX_IMAGES = 5;
+
+// ============================================
+// Provider Implementation
+// ============================================
+
+/**
+ * Rodin (Hyper3D) provider for 3D model generation.
+ *
+ * @remarks
+ * Rodin generates models from text, a single image or up to 5 images, with
+ * quality tiers (`tier`, `quality`), material options (`material`) and a
+ * choice of output formats.
+ *
+ * **Supported Task Types:**
+ * - {@link TaskType.TEXT_TO_3D} - Text to 3D model
+ * - {@link TaskType.IMAGE_TO_3D} - Image to 3D model
+ * - {@link TaskType.MULTIVIEW_TO_3D} - 1-5 images to 3D model
+ *
+ * A Rodin task runs as several jobs under one subscription key. The
+ * provider records the key in `taskStore`, combines the job statuses into
+ * one task status, and lists the downloads when all jobs are done.
+ *
+ * Images are sent as multipart uploads; URLs are fetched by the provider.
+ *
+ * **API Documentation:**
+ * @see https://developer.hyper3d.ai/api-specification/overview
+ *
+ * @example
+ * ```typescript
+ * import { RodinProvider, Magi3DClient, TaskType } from 'magi-3d/server';
+ *
+ * const provider = new RodinProvider(); // Uses RODIN_API_KEY
+ * const client = new Magi3DClient(provider);
+ *
+ * const taskId = await client.createTask({
+ *   type: TaskType.IMAGE_TO_3D,
+ *   input: 'https://example.com/chair.png',
+ *   providerOptions: { tier: 'Detail', quality: 'high', material: 'PBR', geometry_file_format: 'fbx' }
+ * });
+ * const result = await client.pollUntilDone(taskId);
+ * console.log('Model:', result.result?.modelFbx);
+ * ```
+ */
+export class RodinProvider extends AbstractProvider<RodinConfig> {
+  /** Provider name identifier */
+  readonly name = 'Rodin';
+
+  /** Axios HTTP client instance */
+  private client: AxiosInstance;
+
+  /** Task metadata store for status queries */
+  private taskStore: TaskStore;
+
+  /**
+   * Creates a new RodinProvider instance.
+   *
+   * @param config - Rodin API configuration. If apiKey is not provided,
+   *                 it will be read from RODIN_API_KEY environment variable.
+   *                 Pass `taskStore` to poll tasks created by other instances
+   *                 or before a restart.
+   *
+   * @example
+   * ```typescript
+   * // Using environment variable (process.env.RODIN_API_KEY)
+   * const provider = new RodinProvider();
+   *
+   * // Or with explicit API key
+   * const provider = new RodinProvider({ apiKey: 'your-api-key' });
+   * ```
+   */
+  constructor(config: RodinConfig = {}) {
+    const apiKey = config.apiKey || process.env.RODIN_API_KEY;
+
+    if (!apiKey) {
+      throw new Error(
+        'Rodin API key is required. Provide it via config.apiKey or set RODIN_API_KEY environment variable.'
+      );
+    }
+
+    super({ ...config, apiKey });
+
+    this.taskStore = config.taskStore ?? new MemoryTaskStore();
+
+    this.client = axios.create({
+      baseURL: config.baseUrl || 'https://hyperhuman.deemos.com/api/v2',
+      headers: {
+        'Authorization': `Bearer ${apiKey}`
+      },
+      timeout: config.timeout || 120000
+    });
+
+    // Register supported task types
+    this.supportedTaskTypes.add(TaskType.TEXT_TO_3D);
+    this.supportedTaskTypes.add(TaskType.IMAGE_TO_3D);
+    this.supportedTaskTypes.add(TaskType.MULTIVIEW_TO_3D);
+  }
+
+  /**
+   * Describes the params, options and outputs of each Rodin task type.
+   *
+   * @returns The Rodin entry of {@link PROVIDER_CAPABILITIES}
+   */
+  describeCapabilities(): ProviderCapabilities {
+    return { ...PROVIDER_CAPABILITIES[ProviderId.RODIN] };
+  }
+
+  /**
+   * Default Rodin prices.
+   *
+   * @returns The Rodin entry of {@link PROVIDER_PRICING}
+   */
+  protected getDefaultPricing(): PricingTable {
+    return PROVIDER_PRICING[ProviderId.RODIN];
+  }
+
+  /**
+   * Prepares input for the Rodin API.
+   *
+   * @remarks
+   * Inputs are validated here and uploaded with the task, since Rodin
+   * only accepts image files.
+   *
+   * @param input - Image input (URL or base64 string)
+   * @returns The input unchanged
+   */
+  protected async prepareInput(input: ImageInput): Promise<string> {
+    InputUtils.validate(input);
+    return input;
+  }
+
+  /**
+   * Creates a task via the Rodin API.
+   *
+   * @param params - Task parameters
+   * @param options - Request options (e.g., abort signal)
+   * @returns Task UUID from Rodin
+   *
+   * @throws Error if the params cannot be expressed for Rodin
+   * @throws ApiError if the API request fails (after retries)
+   */
+  protected async doCreateTask(params: TaskParams<RodinOptions>, options: RequestOptions = {}): Promise<string> {
+    const formData = await this.buildFormData(params, options.signal);
+
+    const response = await this.withRetry(async () => {
+      try {
+        return await this.client.post<RodinGenerationResponse>('/rodin', formData, {
+          headers: { 'Content-Type': 'multipart/form-data' },
+          signal: options.signal
+        });
+      } catch (error) {
+        throw this.toApiError(error);
+      }
+    }, options);
+
+    if (response.data.error) {
+      throw this.createRodinError(response.data.error, response.data.message, response.data);
+    }
+
+    const taskId = response.data.uuid;
+    await this.taskStore.set<TaskMetadata>(this.getTaskKey(taskId), {
+      taskType: params.type,
+      subscriptionKey: response.data.jobs.subscription_key,
+      createdAt: Date.now()
+    }, { ttl: TASK_METADATA_TTL });
+    return taskId;
+  }
+
+  /**
+   * Builds the multipart form for the Rodin generation endpoint.
+   *
+   * @param params - Task parameters
+   * @param signal - Optional signal that aborts image downloads
+   * @returns Form data with images and options
+   */
+  private async buildFormData(params: TaskParams<RodinOptions>, signal?: AbortSignal): Promise<FormData> {
+    const formData = new FormData();
+    const options: RodinOptions = { ...params.providerOptions };
+    let images: string[];
+
+    if (isTextTo3DParams(params)) {
+      formData.append('prompt', params.prompt);
+      images = [];
+    } else if (isImageTo3DParams(params)) {
+      images = [params.input];
+    } else if (isMultiviewTo3DParams(params)) {
+      images = params.inputs.filter(Boolean);
+      if (images.length === 0 || images.length > MAX_IMAGES) {
+        throw new Error(`Rodin multi-image generation requires 1 to ${MAX_IMAGES} images`);
+      }
+      // Inputs are views of one object unless fuse is requested
+      options.condition_mode ??= 'concat';
+    } else {
+      throw new Error(`Unsupported task type for Rodin: ${params.type}`);
+    }
+
+    for (const [index, image] of images.entries()) {
+      const data = await this.readImage(image, signal);
+      formData.append('images', new Blob([new Uint8Array(data)]), `image_${index}.${this.getImageExtension(data)}`);
+    }
+
+    // List options repeat the field; the bounding box is a single JSON value
+    for (const [key, value] of Object.entries(options)) {
+      if (value === undefined) {
+        continue;
+      }
+      if (key === 'bbox_condition') {
+        formData.append(key, JSON.stringify(value));
+      } else if (Array.isArray(value)) {
+        value.forEach((item) => formData.append(key, String(item)));
+      } else {
+        formData.append(key, String(value));
+      }
+    }
+
+    return formData;
+  }
+
+  /**
+   * Reads image bytes from a URL or base64 input.
+   * @internal
+   */
+  private async readImage(input: string, signal?: AbortSignal): Promise<Buffer> {
+    if (InputUtils.isUrl(input)) {
+      const response = await axios.get(input, { responseType: 'arraybuffer', signal });
+      return Buffer.from(response.data);
+    }
+    return Buffer.from(InputUtils.extractBase64(input), 'base64');
+  }
+
+  /**
+   * Detects the file extension of image bytes (default: png).
+   * @internal
+   */
+  private getImageExtension(data: Buffer): string {
+    if (data[0] === 0xff && data[1] === 0xd8) {
+      return 'jpg';
+    }
+    if (data.subarray(0, 4).toString('ascii') === 'RIFF' && data.subarray(8, 12).toString('ascii') === 'WEBP') {
+      return 'webp';
+    }
+    return 'png';
+  }
+
+  /**
+   * Fetches and normalizes task status from the Rodin API.
+   *
+   * @remarks
+   * Checks the job statuses by subscription key, then fetches the download
+   * list once all jobs are done.
+   *
+   * @param taskId - The Rodin task UUID
+   * @param options - Request options (e.g., abort signal)
+   * @returns Normalized StandardTask object
+   *
+   * @throws Error if the task was not created through a provider sharing this `taskStore`
+   * @throws ApiError if an HTTP request fails (after retries)
+   */
+  async getTaskStatus(taskId: string, options: RequestOptions = {}): Promise<StandardTask> {
+    const metadata = await this.taskStore.get<TaskMetadata>(this.getTaskKey(taskId));
+    if (!metadata) {
+      throw new Error(
+        `Unknown task ID: ${taskId}. Task metadata not found (use a shared taskStore to poll across restarts or instances).`
+      );
+    }
+
+    const status = await this.post<RodinStatusResponse>(
+      '/status',
+      { subscription_key: metadata.subscriptionKey },
+      options
+    );
+
+    const jobs = status.jobs || [];
+    let downloads: RodinDownloadResponse | undefined;
+    if (jobs.length > 0 && jobs.every((job) => job.status === 'Done')) {
+      downloads = await this.post<RodinDownloadResponse>('/download', { task_uuid: taskId }, options);
+    }
+
+    const task = this.normalizeRodinResponse(taskId, metadata, status, downloads);
+
+    // Rodin reports no finish time; keep the first one seen so later queries agree
+    if ((task.status === TaskStatus.SUCCEEDED || task.status === TaskStatus.FAILED) && !metadata.finishedAt) {
+      task.finishedAt = Date.now();
+      await this.taskStore.set<TaskMetadata>(
+        this.getTaskKey(taskId),
+        { ...metadata, finishedAt: task.finishedAt },
+        { ttl: TASK_METADATA_TTL }
+      );
+    }
+    return task;
+  }
+
+  /**
+   * Sends an idempotent JSON query and checks the response envelope.
+   * @internal
+   */
+  private async post<T extends RodinApiResponse>(
+    path: string,
+    body: Record<string, unknown>,
+    options: RequestOptions
+  ): Promise<T> {
+    const response = await this.withRetry(async () => {
+      try {
+        return await this.client.post<T>(path, body, { signal: options.signal });
+      } catch (error) {
+        throw this.toApiError(error);
+      }
+    }, { ...options, idempotent: true });
+
+    if (response.data.error) {
+      throw this.createRodinError(response.data.error, response.data.message, response.data);
+    }
+    return response.data;
+  }
+
+  /**
+   * Builds the task store key for a task.
+   * @internal
+   */
+  private getTaskKey(taskId: string): string {
+    return `rodin:task:${taskId}`;
+  }
+
+  /**
+   * Creates a standardized error from a Rodin error string.
+   *
+   * @param rodinCode - Error string from Rodin
+   * @param message - Error message from Rodin
+   * @param raw - Raw response data for debugging
+   * @param httpStatus - HTTP status code (optional)
+   * @param retryAfter - Retry-After hint in milliseconds (optional)
+   * @returns ApiError with formatted message and raw response
+   *
+   * @internal
+   */
+  private createRodinError(
+    rodinCode: string,
+    message?: string,
+    raw?: unknown,
+    httpStatus?: number,
+    retryAfter?: number
+  ): ApiError {
+    const sdkCode = RODIN_ERROR_CODE_MAP[rodinCode] || `RODIN_ERROR_${rodinCode}`;
+    const httpInfo = httpStatus ? ` [HTTP ${httpStatus}]` : '';
+    return new ApiError(
+      `Request error${httpInfo}: ${message || rodinCode}`,
+      sdkCode,
+      raw,
+      httpStatus,
+      retryAfter
+    );
+  }
+
+  /**
+   * Converts axios HTTP errors (4xx/5xx) to {@link ApiError}; other errors
+   * pass through unchanged.
+   * @internal
+   */
+  private toApiError(error: unknown): unknown {
+    if (!axios.isAxiosError(error) || !error.response) {
+      return error;
+    }
+    const response = error.response as AxiosResponse<RodinApiResponse | undefined>;
+    // Fall back to the HTTP status when the body has no error string
+    let rodinCode = response.data?.error;
+    if (!rodinCode) {
+      rodinCode = response.status === 429 ? 'RATE_LIMITED'
+        : response.status >= 500 ? 'SERVER_ERROR'
+        : `HTTP_${response.status}`;
+    }
+    return this.createRodinError(
+      rodinCode,
+      response.data?.message,
+      response.data,
+      response.status,
+      parseRetryAfter(response.headers['retry-after'])
+    );
+  }
+
+  /**
+   * Normalizes Rodin job statuses and downloads to SDK StandardTask format.
+   *
+   * @param taskId - The Rodin task UUID
+   * @param metadata - Task metadata recorded at creation
+   * @param status - Raw status response
+   * @param downloads - Raw download list (once all jobs are done)
+   * @returns Normalized StandardTask
+   *
+   * @internal
+   */
+  private normalizeRodinResponse(
+    taskId: string,
+    metadata: TaskMetadata,
+    status: RodinStatusResponse,
+    downloads?: RodinDownloadResponse
+  ): StandardTask {
+    const jobs = status.jobs || [];
+    const doneJobs = jobs.filter((job) => job.status === 'Done').length;
+
+    // Any failed job fails the task; it succeeds once every job is done
+    let sdkStatus: TaskStatus;
+    if (jobs.some((job) => job.status === 'Failed')) {
+      sdkStatus = TaskStatus.FAILED;
+    } else if (downloads) {
+      sdkStatus = TaskStatus.SUCCEEDED;
+    } else if (jobs.some((job) => job.status === 'Generating') || doneJobs > 0) {
+      sdkStatus = TaskStatus.PROCESSING;
+    } else {
+      sdkStatus = TaskStatus.PENDING;
+    }
+
+    // Map downloads by file extension
+    // Priority for primary model: glb > fbx > obj > usdz > stl
+    let result: TaskArtifacts | undefined;
+    if (sdkStatus === TaskStatus.SUCCEEDED && downloads) {
+      const files = downloads.list || [];
+      const find = (pattern: RegExp) => files.find((file) => pattern.test(file.name))?.url;
+      const urls = {
+        glb: find(/\.glb$/i),
+        fbx: find(/\.fbx$/i),
+        obj: find(/\.obj$/i),
+        usdz: find(/\.usdz$/i),
+        stl: find(/\.stl$/i)
+      };
+
+      result = {
+        model: urls.glb || urls.fbx || urls.obj || urls.usdz || urls.stl || '',
+        modelGlb: urls.glb,
+        modelFbx: urls.fbx,
+        modelObj: urls.obj,
+        modelUsdz: urls.usdz,
+        // With material All, the shaded model is listed next to the PBR one
+        modelPbr: find(/pbr.*\.(glb|fbx|obj|usdz|stl)$/i),
+        thumbnail: find(/preview.*\.(png|jpe?g|webp)$/i),
+        textureMaps: {
+          albedo: find(/(diffuse|albedo|base_?color).*\.(png|jpe?g)$/i),
+          normal: find(/normal.*\.(png|jpe?g)$/i),
+          roughness: find(/roughness.*\.(png|jpe?g)$/i)
+        }
+      };
+    }
+
+    const error: StandardTask['error'] = sdkStatus === TaskStatus.FAILED
+      ? { code: 'GENERATION_FAILED', message: 'Rodin generation failed', raw: status }
+      : undefined;
+
+    return {
+      id: taskId,
+      provider: ProviderId.RODIN,
+      type: metadata.taskType,
+      status: sdkStatus,
+      progress: jobs.length > 0 ? Math.round((doneJobs / jobs.length) * 100) : 0,
+      progressDetail: jobs.length > 0 ? `${doneJobs}/${jobs.length} jobs done` : undefined,
+      result,
+      error,
+      createdAt: metadata.createdAt,
+      finishedAt: sdkStatus === TaskStatus.SUCCEEDED || sdkStatus === TaskStatus.FAILED ? metadata.finishedAt : undefined,
+      rawResponse: downloads ? { status, downloads } : status
+    };
+  }
+}
@@ -0,0 +1,343 @@
+/**
+ * @module providers/RouterProvider
+ * @description Routes tasks across multiple providers with automatic fallback
+ */
+
+import { AbstractProvider, ImageInput, RequestOptions } from '../core/AbstractProvider';
+import { TaskParams, StandardTask, TaskType, ProviderConfig, ProviderCapabilities, CostEstimate } from '../types';
+import { getErrorCode, getHttpStatus, isRateLimitError, SERVER_ERROR_CODES } from '../utils/errors';
+
+// ============================================
+// Configuration
+// ============================================
+
+/**
+ * Information passed to {@link RouterConfig.onFallback}.
+ */
+export interface RouterFallbackInfo {
+  /** Name of the provider that failed */
+  from: string;
+  /** Name of the provider that will be tried next */
+  to: string;
+  /** The error that triggered the fallback */
+  error: unknown;
+  /** Parameters of the task being created */
+  params: TaskParams;
+}
+
+/**
+ * Configuration for {@link RouterProvider}.
+ */
+export interface RouterConfig extends ProviderConfig {
+  /**
+   * Providers in preference order. Provider names must be unique,
+   * since they are encoded in routed task IDs.
+   */
+  providers: AbstractProvider[];
+
+  /**
+   * Per-task-type preference order (provider names), overriding the order
+   * of `providers`. Providers not listed are not used for that task type.
+   *
+   * @example
+   * ```typescript
+   * routes: { [TaskType.TEXT_TO_3D]: ['Hunyuan', 'Tripo'] }
+   * ```
+   */
+  routes?: Partial<Record<TaskType, string[]>>;
+
+  /**
+   * Overrides whether a failed submission falls back to the next provider.
+   *
+   * @param error - The error thrown by the provider
+   * @param provider - Name of the provider that failed
+   * @param retryable - The router's default decision
+   * @returns `true` to try the next provider, `false` to surface the error
+   */
+  shouldFallback?: (error: unknown, provider: string, retryable: boolean) => boolean;
+
+  /**
+   * Called before falling back to the next provider.
+   */
+  onFallback?: (info: RouterFallbackInfo) => void;
+}
+
+// ============================================
+// Fallback Rules
+// ============================================
+
+/**
+ * Error codes that mean "this provider cannot take the task right now",
+ * in addition to rate limits and server errors.
+ * @internal
+ */
+const FALLBACK_ERROR_CODES: readonly string[] = ['INSUFFICIENT_CREDITS', 'ACCESS_DENIED'];
+
+/**
+ * Default fallback decision: account problems, rate limits and 5xx.
+ * @internal
+ */
+function isFallbackError(error: unknown): boolean {
+  const code = getErrorCode(error);
+  const status = getHttpStatus(error);
+  return (
+    isRateLimitError(error) ||
+    (status !== undefined && status >= 500) ||
+    (code !== undefined && (FALLBACK_ERROR_CODES.includes(code) || SERVER_ERROR_CODES.includes(code)))
+  );
+}
+
+/** Separator between the provider name and the provider's own task ID */
+const TASK_ID_SEPARATOR = ':';
+
+// ============================================
+// Router Provider
+// ============================================
+
+/**
+ * Provider that routes each task to one of several providers.
+ *
+ * @remarks
+ * For each new task the router tries, in preference order, every provider
+ * that supports the task type (see {@link PROVIDER_TASK_TYPES}). When a
+ * provider rejects the submission with `INSUFFICIENT_CREDITS`,
+ * `ACCESS_DENIED`, a rate limit or a server error, the next provider is
+ * tried. Other errors (invalid params, content policy) are surfaced as-is.
+ *
+ * Routed task IDs have the form `<provider name>:<provider task ID>`
+ * (e.g., `Tripo:a1b2c3`), so `getTaskStatus()` and post-processing tasks
+ * go back to the provider that created the source task. Post-processing
+ * tasks never fall back, since other providers cannot see the source task.
+ *
+ * @example
+ * ```typescript
+ * import { Magi3DClient, RouterProvider, TripoProvider, HunyuanProvider } from 'magi-3d/server';
+ *
+ * const router = new RouterProvider({
+ *   providers: [new TripoProvider(), new HunyuanProvider()],
+ *   onFallback: ({ from, to, error }) => console.warn(`${from} failed, using ${to}`, error)
+ * });
+ * const client = new Magi3DClient(router);
+ *
+ * const taskId = await client.createTask({ type: TaskType.TEXT_TO_3D, prompt: 'a cat' });
+ * // => 'Tripo:a1b2c3' (or 'Hunyuan:1234' if Tripo is out of credits)
+ *
+ * // Goes to the provider that created the model
+ * const rigTaskId = await client.createTask({ type: TaskType.RIG, taskId });
+ * ```
+ */
+export class RouterProvider extends AbstractProvider<RouterConfig> {
+  /** Provider name identifier */
+  readonly name = 'Router';
+
+  /** Providers keyed by name */
+  private providers = new Map<string, AbstractProvider>();
+
+  /**
+   * Creates a new RouterProvider instance.
+   *
+   * @param config - Providers in preference order and fallback options
+   *
+   * @throws Error if no providers are given or provider names are not unique
+   */
+  constructor(config: RouterConfig) {
+    super(config);
+
+    if (config.providers.length === 0) {
+      throw new Error('RouterProvider requires at least one provider');
+    }
+
+    for (const provider of config.providers) {
+      if (this.providers.has(provider.name) || provider.name.includes(TASK_ID_SEPARATOR)) {
+        throw new Error(`RouterProvider requires unique provider names without "${TASK_ID_SEPARATOR}": ${provider.name}`);
+      }
+      this.providers.set(provider.name, provider);
+
+      for (const type of Object.values(TaskType)) {
+        if (provider.supports(type)) {
+          this.supportedTaskTypes.add(type);
+        }
+      }
+    }
+  }
+
+  /**
+   * Splits a routed task ID into the provider and its own task ID.
+   *
+   * @param taskId - Routed task ID (e.g., `Tripo:a1b2c3`)
+   * @returns The provider and the provider task ID, or `undefined` if the
+   *          ID does not name a known provider
+   */
+  resolveTaskId(taskId: string): { provider: AbstractProvider; taskId: string } | undefined {
+    const index = taskId.indexOf(TASK_ID_SEPARATOR);
+    if (index === -1) {
+      return undefined;
+    }
+    const provider = this.providers.get(taskId.slice(0, index));
+    return provider ? { provider, taskId: taskId.slice(index + 1) } : undefined;
+  }
+
+  /**
+   * Describes each routable task type using its preferred provider.
+   *
+   * @remarks
+   * When a submission falls back, the next provider may accept different
+   * params and options; only the first candidate is described.
+   *
+   * @returns Capabilities keyed by task type, from the first provider in
+   *          preference order that supports it
+   */
+  describeCapabilities(): ProviderCapabilities {
+    const capabilities: ProviderCapabilities = {};
+    for (const type of this.supportedTaskTypes) {
+      const [preferred] = this.getCandidates(type);
+      const capability = preferred?.describeCapabilities()[type];
+      if (capability) {
+        capabilities[type] = capability;
+      }
+    }
+    return capabilities;
+  }
+
+  /**
+   * Estimates the cost on the provider the task would go to first.
+   *
+   * @remarks
+   * Post-processing on a routed task is estimated on the provider that
+   * owns the source task. Fallbacks may run the task elsewhere at a
+   * different price. Set prices on the wrapped providers; the router's
+   * own `pricing` is ignored.
+   *
+   * @returns The preferred provider's estimate, or `undefined` if it has
+   *          no price for the task type
+   */
+  estimateCost(params: TaskParams): CostEstimate | undefined {
+    const source = 'taskId' in params && typeof params.taskId === 'string'
+      ? this.resolveTaskId(params.taskId)
+      : undefined;
+    if (source) {
+      return source.provider.estimateCost({ ...params, taskId: source.taskId } as TaskParams);
+    }
+    const [preferred] = this.supports(params.type) ? this.getCandidates(params.type) : [];
+    return preferred?.estimateCost(params);
+  }
+
+  /**
+   * Passes input through unchanged; the selected provider prepares it.
+   */
+  protected async prepareInput(input: ImageInput): Promise<string> {
+    return input;
+  }
+
+  /**
+   * Creates the task on the first provider that accepts it.
+   *
+   * @throws The last provider's error if every candidate failed
+   */
+  protected async doCreateTask(params: TaskParams, options: RequestOptions): Promise<string> {
+    // Post-processing on a routed task: pin to the provider that owns it
+    const source = 'taskId' in params && typeof params.taskId === 'string'
+      ? this.resolveTaskId(params.taskId)
+      : undefined;
+    if (source) {
+      const pinned = { ...params, taskId: source.taskId } as TaskParams;
+      const taskId = await source.provider.createTask(pinned, options);
+      return this.encodeTaskId(source.provider, taskId);
+    }
+
+    const candidates = this.getCandidates(params.type);
+    if (candidates.length === 0) {
+      throw new Error(`No provider configured for task type: ${params.type}`);
+    }
+
+    for (let i = 0; i < candidates.length; i++) {
+      const provider = candidates[i];
+      try {
+        const taskId = await provider.createTask(params, options);
+        return this.encodeTaskId(provider, taskId);
+      } catch (error) {
+        const next = candidates[i + 1];
+        if (!next || options.signal?.aborted || !this.shouldFallback(error, provider)) {
+          throw error;
+        }
+        this.config.onFallback?.({ from: provider.name, to: next.name, error, params });
+      }
+    }
+
+    // Unreachable: the loop either returns or throws
+    throw new Error(`No provider accepted task type: ${params.type}`);
+  }
+
+  /**
+   * Fetches task status from the provider encoded in the task ID.
+   *
+   * @returns The provider's task, with `id` set to the routed task ID
+   *
+   * @throws Error if the task ID does not name a configured provider
+   */
+  async getTaskStatus(taskId: string, options: RequestOptions = {}): Promise<StandardTask> {
+    const { provider, taskId: providerTaskId } = this.requireTaskId(taskId);
+    const task = await provider.getTaskStatus(providerTaskId, options);
+    return { ...task, id: taskId };
+  }
+
+  /**
+   * Cancels a task on the provider encoded in the task ID.
+   *
+   * @throws Error if the task ID does not name a configured provider
+   * @throws ApiError with code `UNSUPPORTED` if that provider cannot cancel tasks
+   */
+  async cancelTask(taskId: string): Promise<void> {
+    const { provider, taskId: providerTaskId } = this.requireTaskId(taskId);
+    return provider.cancelTask(providerTaskId);
+  }
+
+  /**
+   * Providers to try for a task type, in preference order.
+   * @internal
+   */
+  private getCandidates(type: TaskType): AbstractProvider[] {
+    const route = this.config.routes?.[type];
+    const ordered = route
+      ? route.map((name) => {
+          const provider = this.providers.get(name);
+          if (!provider) {
+            throw new Error(`Route for ${type} references unknown provider: ${name}`);
+          }
+          return provider;
+        })
+      : this.config.providers;
+    return ordered.filter((provider) => provider.supports(type));
+  }
+
+  /**
+   * Applies the fallback rules and the user override.
+   * @internal
+   */
+  private shouldFallback(error: unknown, provider: AbstractProvider): boolean {
+    const retryable = isFallbackError(error);
+    return this.config.shouldFallback
+      ? this.config.shouldFallback(error, provider.name, retryable)
+      : retryable;
+  }
+
+  /**
+   * Prefixes a provider task ID with the provider name.
+   * @internal
+   */
+  private encodeTaskId(provider: AbstractProvider, taskId: string): string {
+    return `${provider.name}${TASK_ID_SEPARATOR}${taskId}`;
+  }
+
+  /**
+   * Resolves a routed task ID or throws.
+   * @internal
+   */
+  private requireTaskId(taskId: string): { provider: AbstractProvider; taskId: string } {
+    const resolved = this.resolveTaskId(taskId);
+    if (!resolved) {
+      throw new Error(`Unknown task ID: ${taskId}. Expected "<provider>${TASK_ID_SEPARATOR}<id>" with a configured provider.`);
+    }
+    return resolved;
+  }
+}
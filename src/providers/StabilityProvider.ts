@@ -0,0 +1,425 @@
+/**
+ * @module providers/StabilityProvider
+ * @description Stability AI provider implementation for synchronous image-to-3D
+ */
+
+import axios, { AxiosInstance, AxiosResponse } from 'axios';
+import { AbstractProvider, ImageInput, RequestOptions } from '../core/AbstractProvider';
+import { ApiError } from '../core/Magi3DClient';
+import { InputUtils } from '../utils/InputUtils';
+import { parseRetryAfter } from '../utils/errors';
+import { MemoryTaskStore } from '../stores/MemoryTaskStore';
+import {
+  TaskParams,
+  StandardTask,
+  TaskStatus,
+  TaskType,
+  ProviderId,
+  ProviderCapabilities,
+  PROVIDER_CAPABILITIES,
+  PricingTable,
+  PROVIDER_PRICING,
+  StabilityConfig,
+  StabilityOptions,
+  TaskStore,
+  isImageTo3DParams
+} from '../types';
+
+// ============================================
+// Stability API Types (Internal)
+// ============================================
+
+/**
+ * Stability error response body
+ * @internal
+ */
+interface StabilityErrorResponse {
+  id?: string;
+  name?: string;
+  errors?: string[];
+}
+
+/**
+ * Finished task stored until its status is read
+ * @internal
+ */
+interface TaskMetadata {
+  taskType: TaskType;
+  /** Model endpoint used */
+  model: string;
+  /** `file://` URL of the GLB (with `outputDir`) */
+  artifact?: string;
+  createdAt: number;
+  finishedAt: number;
+}
+
+/**
+ * How long finished tasks are kept in the task store.
+ * @internal
+ */
+const TASK_METADATA_TTL = 24 * 60 * 60 * 1000;
+
+/**
+ * Most models a provider instance holds as data URLs; the oldest are
+ * dropped first.
+ * @internal
+ */
+const MAX_HELD_MODELS = 20;
+
+/**
+ * Data URL of a model generated without `outputDir`
+ * @internal
+ */
+interface HeldModel {
+  url: string;
+  expiresAt: number;
+}
+
+/**
+ * Stability reports errors by HTTP status with a `name` and `errors` body.
+ * @internal
+ */
+const STABILITY_ERROR_CODE_MAP: Record<number, string> = {
+  400: 'INVALID_PARAMETER',
+  401: 'INVALID_API_KEY',
+  402: 'INSUFFICIENT_CREDITS',
+  403: 'CONTENT_POLICY_VIOLATION',
+  413: 'INPUT_TOO_LARGE',
+  422: 'INVALID_PARAMETER',
+  429: 'RATE_LIMIT_EXCEEDED',
+  500: 'SERVER_ERROR',
+  502: 'SERVER_ERROR',
+  503: 'SERVER_ERROR'
+};
+
+// ============================================
+// Provider Implementation
+// ============================================
+
+/**
+ * Stability AI provider for image-to-3D generation.
+ *
+ * @remarks
+ * Stability's 3D endpoints are synchronous: the GLB is returned in the
+ * response body of the create request. Like Hunyuan's sync
+ * `Convert3DFormat`, the provider stores the finished result under a
+ * synthetic task ID, and `getTaskStatus()` returns it as `SUCCEEDED`.
+ *
+ * The model is written to `outputDir` and returned as a `file://` URL when
+ * configured, or returned as a `data:model/gltf-binary;base64,...` URL.
+ * Data URLs stay in the provider instance rather than the `taskStore` and
+ * are released once read (at most 20 are held), so set `outputDir` to read
+ * results again or from other instances.
+ *
+ * **Supported Task Types:**
+ * - {@link TaskType.IMAGE_TO_3D} - Image to 3D model (Stable Fast 3D or Stable Point Aware 3D)
+ *
+ * **API Documentation:**
+ * @see https://platform.stability.ai/docs/api-reference#tag/3D
+ *
+ * @example
+ * ```typescript
+ * import { StabilityProvider, Magi3DClient, TaskType } from 'magi-3d/server';
+ *
+ * const provider = new StabilityProvider({ outputDir: './models' }); // Uses STABILITY_API_KEY
+ * const client = new Magi3DClient(provider);
+ *
+ * // Resolves once the model has been generated
+ * const taskId = await client.createTask({
+ *   type: TaskType.IMAGE_TO_3D,
+ *   input: 'https://example.com/chair.png',
+ *   providerOptions: { model: 'stable-point-aware-3d', texture_resolution: 2048 }
+ * });
+ * const task = await client.getTask(taskId);
+ * console.log('Model:', task.result?.modelGlb); // file:///.../models/stability_....glb
+ * ```
+ */
+export class StabilityProvider extends AbstractProvider<StabilityConfig> {
+  /** Provider name identifier */
+  readonly name = 'Stability';
+
+  /** Axios HTTP client instance */
+  private client: AxiosInstance;
+
+  /** Store for finished tasks */
+  private taskStore: TaskStore;
+
+  /** Data URLs of models generated without `outputDir` and not read yet, by task ID */
+  private models = new Map<string, HeldModel>();
+
+  /**
+   * Creates a new StabilityProvider instance.
+   *
+   * @param config - Stability API configuration. If apiKey is not provided,
+   *                 it will be read from STABILITY_API_KEY environment variable.
+   *
+   * @example
+   * ```typescript
+   * // Using environment variable (process.env.STABILITY_API_KEY)
+   * const provider = new StabilityProvider();
+   *
+   * // Or with explicit API key, writing models to disk
+   * const provider = new StabilityProvider({ apiKey: 'sk-...', outputDir: './models' });
+   * ```
+   */
+  constructor(config: StabilityConfig = {}) {
+    const apiKey = config.apiKey || process.env.STABILITY_API_KEY;
+
+    if (!apiKey) {
+      throw new Error(
+        'Stability API key is required. Provide it via config.apiKey or set STABILITY_API_KEY environment variable.'
+      );
+    }
+
+    super({ ...config, apiKey });
+
+    this.taskStore = config.taskStore ?? new MemoryTaskStore();
+
+    this.client = axios.create({
+      baseURL: config.baseUrl || 'https://api.stability.ai',
+      headers: {
+        'Authorization': `Bearer ${apiKey}`
+      },
+      timeout: config.timeout || 120000
+    });
+
+    // Register supported task types
+    this.supportedTaskTypes.add(TaskType.IMAGE_TO_3D);
+  }
+
+  /**
+   * Describes the params, options and outputs of each Stability task type.
+   *
+   * @returns The Stability entry of {@link PROVIDER_CAPABILITIES}
+   */
+  describeCapabilities(): ProviderCapabilities {
+    return { ...PROVIDER_CAPABILITIES[ProviderId.STABILITY] };
+  }
+
+  /**
+   * Default Stability prices.
+   *
+   * @returns The Stability entry of {@link PROVIDER_PRICING}
+   */
+  protected getDefaultPricing(): PricingTable {
+    return PROVIDER_PRICING[ProviderId.STABILITY];
+  }
+
+  /**
+   * Prepares input for the Stability API.
+   *
+   * @remarks
+   * Inputs are validated here and uploaded with the task, since Stability
+   * only accepts image files.
+   *
+   * @param input - Image input (URL or base64 string)
+   * @returns The input unchanged
+   */
+  protected async prepareInput(input: ImageInput): Promise<string> {
+    InputUtils.validate(input);
+    return input;
+  }
+
+  /**
+   * Generates the model and stores it under a synthetic task ID.
+   *
+   * @param params - Task parameters
+   * @param options - Request options (e.g., abort signal)
+   * @returns Synthetic task ID of the finished task
+   *
+   * @throws ApiError if the API request fails (after retries)
+   */
+  protected async doCreateTask(params: TaskParams<StabilityOptions>, options: RequestOptions = {}): Promise<string> {
+    if (!isImageTo3DParams(params)) {
+      throw new Error(`Unsupported task type for Stability: ${params.type}`);
+    }
+
+    const { model = 'stable-fast-3d', ...modelOptions } = params.providerOptions || {};
+    const formData = new FormData();
+    const image = await this.readImage(params.input, options.signal);
+    formData.append('image', new Blob([new Uint8Array(image)]), `image.${this.getImageExtension(image)}`);
+    for (const [key, value] of Object.entries(modelOptions)) {
+      if (value !== undefined) {
+        formData.append(key, String(value));
+      }
+    }
+
+    const createdAt = Date.now();
+    const response = await this.withRetry(async () => {
+      try {
+        return await this.client.post<ArrayBuffer>(`/v2beta/3d/${model}`, formData, {
+          headers: { 'Content-Type': 'multipart/form-data' },
+          responseType: 'arraybuffer',
+          signal: options.signal
+        });
+      } catch (error) {
+        throw this.toApiError(error);
+      }
+    }, options);
+
+    // Sync generation returns the model directly, so the task is already done
+    const syntheticId = `stability_${createdAt}_${Math.random().toString(36).slice(2, 8)}`;
+    const data = Buffer.from(response.data);
+    let artifact: string | undefined;
+    if (this.config.outputDir) {
+      artifact = await this.writeModel(this.config.outputDir, syntheticId, data);
+    } else {
+      // Keep whole models out of shared stores
+      this.holdModel(syntheticId, `data:model/gltf-binary;base64,${data.toString('base64')}`);
+    }
+    await this.taskStore.set<TaskMetadata>(this.getTaskKey(syntheticId), {
+      taskType: params.type,
+      model,
+      artifact,
+      createdAt,
+      finishedAt: Date.now()
+    }, { ttl: TASK_METADATA_TTL });
+    return syntheticId;
+  }
+
+  /**
+   * Holds a data URL until it is read, dropping expired models and, past
+   * {@link MAX_HELD_MODELS}, the oldest ones.
+   * @internal
+   */
+  private holdModel(taskId: string, url: string): void {
+    const now = Date.now();
+    for (const [id, held] of this.models) {
+      if (held.expiresAt <= now || this.models.size >= MAX_HELD_MODELS) {
+        this.models.delete(id);
+      }
+    }
+    this.models.set(taskId, { url, expiresAt: now + TASK_METADATA_TTL });
+  }
+
+  /**
+   * Writes the GLB to `outputDir`.
+   *
+   * @returns `file://` URL of the model
+   * @internal
+   */
+  private async writeModel(outputDir: string, taskId: string, data: Buffer): Promise<string> {
+    const { mkdir, writeFile } = await import('fs/promises');
+    const { resolve } = await import('path');
+    const { pathToFileURL } = await import('url');
+    const filePath = resolve(outputDir, `${taskId}.glb`);
+
+    await mkdir(outputDir, { recursive: true });
+    await writeFile(filePath, data);
+    return pathToFileURL(filePath).href;
+  }
+
+  /**
+   * Reads image bytes from a URL or base64 input.
+   * @internal
+   */
+  private async readImage(input: string, signal?: AbortSignal): Promise<Buffer> {
+    if (InputUtils.isUrl(input)) {
+      const response = await axios.get(input, { responseType: 'arraybuffer', signal });
+      return Buffer.from(response.data);
+    }
+    return Buffer.from(InputUtils.extractBase64(input), 'base64');
+  }
+
+  /**
+   * Detects the file extension of image bytes (default: png).
+   * @internal
+   */
+  private getImageExtension(data: Buffer): string {
+    if (data[0] === 0xff && data[1] === 0xd8) {
+      return 'jpg';
+    }
+    if (data.subarray(0, 4).toString('ascii') === 'RIFF' && data.subarray(8, 12).toString('ascii') === 'WEBP') {
+      return 'webp';
+    }
+    return 'png';
+  }
+
+  /**
+   * Returns a task finished by {@link doCreateTask}.
+   *
+   * @param taskId - Synthetic task ID returned by `createTask()`
+   * @returns The succeeded task with its model artifact
+   *
+   * @throws Error if the task was not created through a provider sharing this `taskStore`
+   * @throws Error if the model is a data URL held by another provider instance,
+   *         already returned, or dropped
+   */
+  async getTaskStatus(taskId: string): Promise<StandardTask> {
+    const metadata = await this.taskStore.get<TaskMetadata>(this.getTaskKey(taskId));
+    if (!metadata) {
+      throw new Error(
+        `Unknown task ID: ${taskId}. Task metadata not found (use a shared taskStore to poll across restarts or instances).`
+      );
+    }
+    const held = this.models.get(taskId);
+    const artifact = metadata.artifact ?? (held && held.expiresAt > Date.now() ? held.url : undefined);
+    if (!artifact) {
+      throw new Error(
+        `Model of task ${taskId} is only returned once, by the provider instance that created it (set outputDir to read it again or from other instances).`
+      );
+    }
+    // Data URLs are returned once, then released
+    this.models.delete(taskId);
+
+    return {
+      id: taskId,
+      provider: ProviderId.STABILITY,
+      type: metadata.taskType,
+      status: TaskStatus.SUCCEEDED,
+      progress: 100,
+      result: {
+        model: artifact,
+        modelGlb: artifact
+      },
+      createdAt: metadata.createdAt,
+      finishedAt: metadata.finishedAt,
+      rawResponse: { model: metadata.model }
+    };
+  }
+
+  /**
+   * Builds the task store key for a task.
+   * @internal
+   */
+  private getTaskKey(taskId: string): string {
+    return `stability:task:${taskId}`;
+  }
+
+  /**
+   * Converts axios HTTP errors (4xx/5xx) to {@link ApiError}; other errors
+   * pass through unchanged.
+   * @internal
+   */
+  private toApiError(error: unknown): unknown {
+    if (!axios.isAxiosError(error) || !error.response) {
+      return error;
+    }
+    const response = error.response as AxiosResponse<ArrayBuffer | StabilityErrorResponse | undefined>;
+    const body = this.parseErrorBody(response.data);
+    const sdkCode = STABILITY_ERROR_CODE_MAP[response.status] || `STABILITY_ERROR_${response.status}`;
+    return new ApiError(
+      `Request error [HTTP ${response.status}]: ${body?.errors?.join('; ') || body?.name || 'Unknown error'}`,
+      sdkCode,
+      body,
+      response.status,
+      parseRetryAfter(response.headers['retry-after'])
+    );
+  }
+
+  /**
+   * Decodes an error body, which arrives as bytes since responses are
+   * requested as `arraybuffer`.
+   * @internal
+   */
+  private parseErrorBody(data: unknown): StabilityErrorResponse | undefined {
+    if (data instanceof ArrayBuffer || Buffer.isBuffer(data)) {
+      try {
+        return JSON.parse(Buffer.from(data as ArrayBuffer).toString('utf8'));
+      } catch {
+        return undefined;
+      }
+    }
+    return data as StabilityErrorResponse | undefined;
+  }
+}
@@ -3,17 +3,22 @@
  * @description Tripo AI provider implementation for 3D model generation
  */
 
-import axios, { AxiosInstance } from 'axios';
-import { AbstractProvider, ImageInput } from '../core/AbstractProvider';
+import axios, { AxiosInstance, AxiosResponse } from 'axios';
+import { AbstractProvider, ImageInput, RequestOptions } from '../core/AbstractProvider';
 import { ApiError } from '../core/Magi3DClient';
 import { InputUtils } from '../utils/InputUtils';
 import { uploadToS3 } from '../utils/s3-upload';
+import { parseRetryAfter } from '../utils/errors';
 import {
   TaskParams,
   StandardTask,
   TaskStatus,
   TaskType,
   ProviderId,
+  ProviderCapabilities,
+  PROVIDER_CAPABILITIES,
+  PricingTable,
+  PROVIDER_PRICING,
   TripoConfig,
   TripoOptions,
   TaskArtifacts,
@@ -59,6 +64,8 @@ interface TripoTaskData {
   type: string;
   progress?: number;
   create_time?: number;
+  // Estimated seconds until completion (while queued/running)
+  running_left_time?: number;
   // Error code present when status is failed/banned/expired/cancelled/unknown
   error_code?: number;
   output?: {
@@ -280,6 +287,24 @@ export class TripoProvider extends AbstractProvider<TripoConfig> {
     this.supportedTaskTypes.add(TaskType.STYLIZE);
   }
 
+  /**
+   * Describes the params, options and outputs of each Tripo task type.
+   *
+   * @returns The Tripo entry of {@link PROVIDER_CAPABILITIES}
+   */
+  describeCapabilities(): ProviderCapabilities {
+    return { ...PROVIDER_CAPABILITIES[ProviderId.TRIPO] };
+  }
+
+  /**
+   * Default Tripo prices.
+   *
+   * @returns The Tripo entry of {@link PROVIDER_PRICING}
+   */
+  protected getDefaultPricing(): PricingTable {
+    return PROVIDER_PRICING[ProviderId.TRIPO];
+  }
+
   /**
    * Prepares input for the Tripo API.
    *
@@ -353,7 +378,7 @@ export class TripoProvider extends AbstractProvider<TripoConfig> {
    * Works with both public and localhost URLs since it runs locally.
    * @internal
    */
-  private async fetchContent(input: string): Promise<Buffer> {
+  private async fetchContent(input: string, signal?: AbortSignal): Promise<Buffer> {
     // Base64 data URI
     if (input.startsWith('data:')) {
       const base64Data = input.replace(/^data:[^;]+;base64,/, '');
@@ -368,17 +393,17 @@ export class TripoProvider extends AbstractProvider<TripoConfig> {
     // file:// protocol
     if (input.startsWith('file://')) {
       const { readFile } = await import('fs/promises');
-      return readFile(input.replace(/^file:\/\//, ''));
+      return readFile(input.replace(/^file:\/\//, ''), { signal });
     }
 
     // Local file path
     if (input.startsWith('/') || input.startsWith('./') || input.startsWith('../')) {
       const { readFile } = await import('fs/promises');
-      return readFile(input);
+      return readFile(input, { signal });
     }
 
     // HTTP(S) URL — works for both public and localhost
-    const response = await axios.get(input, { responseType: 'arraybuffer' });
+    const response = await axios.get(input, { responseType: 'arraybuffer', signal });
     return Buffer.from(response.data);
   }
 
@@ -387,14 +412,18 @@ export class TripoProvider extends AbstractProvider<TripoConfig> {
    * @returns The image_token from Tripo
    * @internal
    */
-  private async directUploadImage(data: Buffer, filename: string): Promise<string> {
+  private async directUploadImage(data: Buffer, filename: string, signal?: AbortSignal): Promise<string> {
     const formData = new FormData();
     formData.append('file', new Blob([new Uint8Array(data)]), filename);
 
-    const response = await this.client.post<TripoApiResponse<{ image_token: string }>>(
-      '/v2/openapi/upload/sts',
-      formData,
-      { headers: { 'Content-Type': 'multipart/form-data' } }
+    // Uploads only produce a token, so repeating them is safe
+    const response = await this.withRetry(
+      () => this.client.post<TripoApiResponse<{ image_token: string }>>(
+        '/v2/openapi/upload/sts',
+        formData,
+        { headers: { 'Content-Type': 'multipart/form-data' }, signal }
+      ),
+      { idempotent: true, signal }
     );
 
     if (response.data.code !== 0) {
@@ -410,11 +439,19 @@ export class TripoProvider extends AbstractProvider<TripoConfig> {
    * @returns S3 object reference { bucket, key }
    * @internal
    */
-  private async stsUploadFile(data: Buffer, format: string): Promise<{ bucket: string; key: string }> {
+  private async stsUploadFile(
+    data: Buffer,
+    format: string,
+    signal?: AbortSignal
+  ): Promise<{ bucket: string; key: string }> {
     // Step 1: Get STS token
-    const tokenResponse = await this.client.post<TripoApiResponse<TripoStsTokenData>>(
-      '/v2/openapi/upload/sts/token',
-      { format }
+    const tokenResponse = await this.withRetry(
+      () => this.client.post<TripoApiResponse<TripoStsTokenData>>(
+        '/v2/openapi/upload/sts/token',
+        { format },
+        { signal }
+      ),
+      { idempotent: true, signal }
     );
 
     if (tokenResponse.data.code !== 0) {
@@ -432,17 +469,21 @@ export class TripoProvider extends AbstractProvider<TripoConfig> {
     const regionMatch = s3_host.match(/s3\.([^.]+)\.amazonaws\.com/);
     const region = regionMatch?.[1] || 'us-west-2';
 
-    // Step 2: Upload to S3
-    await uploadToS3({
-      host: s3_host,
-      bucket: resource_bucket,
-      key: resource_uri,
-      accessKeyId: sts_ak,
-      secretAccessKey: sts_sk,
-      sessionToken: session_token,
-      body: data,
-      region
-    });
+    // Step 2: Upload to S3 (PUT to a fixed key is idempotent)
+    await this.withRetry(
+      () => uploadToS3({
+        host: s3_host,
+        bucket: resource_bucket,
+        key: resource_uri,
+        accessKeyId: sts_ak,
+        secretAccessKey: sts_sk,
+        sessionToken: session_token,
+        body: data,
+        region,
+        signal
+      }),
+      { idempotent: true, signal }
+    );
 
     return { bucket: resource_bucket, key: resource_uri };
   }
@@ -460,22 +501,23 @@ export class TripoProvider extends AbstractProvider<TripoConfig> {
    *
    * @param input - URL, file path, or base64 data
    * @param defaultExt - Default file extension if detection fails
+   * @param signal - Optional signal that aborts fetching and uploading
    * @returns File reference for use in API payloads
    * @internal
    */
-  private async resolveFileRef(input: string, defaultExt = 'jpg'): Promise<TripoFileRef> {
+  private async resolveFileRef(input: string, defaultExt = 'jpg', signal?: AbortSignal): Promise<TripoFileRef> {
     const ext = this.detectFileExt(input, defaultExt);
 
     if (this.stsUploadEnabled) {
-      const content = await this.fetchContent(input);
+      const content = await this.fetchContent(input, signal);
 
       if (IMAGE_EXTS.has(ext)) {
         // Direct Upload for images
-        const fileToken = await this.directUploadImage(content, `upload.${ext}`);
+        const fileToken = await this.directUploadImage(content, `upload.${ext}`, signal);
         return { type: ext, file_token: fileToken };
       } else {
         // STS Upload for 3D models and other files
-        const obj = await this.stsUploadFile(content, ext);
+        const obj = await this.stsUploadFile(content, ext, signal);
         return { type: ext, object: obj };
       }
     }
@@ -495,33 +537,35 @@ export class TripoProvider extends AbstractProvider<TripoConfig> {
    * Creates a task via the Tripo API.
    *
    * @param params - Task parameters
+   * @param options - Request options (e.g., abort signal)
    * @returns Task ID from Tripo
    *
-   * @throws Error if API request fails (HTTP 4xx/5xx or code !== 0)
+   * @throws Error if API request fails (HTTP 4xx/5xx or code !== 0) after retries
    */
-  protected async doCreateTask(params: TaskParams<TripoOptions>): Promise<string> {
-    const payload = await this.buildPayload(params);
-
-    try {
-      const response = await this.client.post<TripoApiResponse<{ task_id: string }>>(
-        '/v2/openapi/task',
-        payload
-      );
-
-      if (response.data.code !== 0) {
-        throw this.createTripoError(response.data.code, response.data.message, response.data);
-      }
+  protected async doCreateTask(params: TaskParams<TripoOptions>, options: RequestOptions = {}): Promise<string> {
+    const payload = await this.buildPayload(params, options.signal);
+
+    return this.withRetry(async () => {
+      try {
+        const response = await this.client.post<TripoApiResponse<{ task_id: string }>>(
+          '/v2/openapi/task',
+          payload,
+          { signal: options.signal }
+        );
 
-      return response.data.data.task_id;
-    } catch (error) {
-      // Handle axios HTTP errors (4xx/5xx)
-      if (axios.isAxiosError(error) && error.response?.data) {
-        const tripoCode = error.response.data.code;
-        const tripoMessage = error.response.data.message;
-        throw this.createTripoError(tripoCode, tripoMessage, error.response.data, error.response.status);
+        if (response.data.code !== 0) {
+          throw this.createTripoError(response.data.code, response.data.message, response.data);
+        }
+
+        return response.data.data.task_id;
+      } catch (error) {
+        // Handle axios HTTP errors (4xx/5xx)
+        if (axios.isAxiosError(error) && error.response?.data) {
+          throw this.createTripoHttpError(error.response);
+        }
+        throw error;
       }
-      throw error;
-    }
+    }, options);
   }
 
   /**
@@ -535,7 +579,13 @@ export class TripoProvider extends AbstractProvider<TripoConfig> {
    *
    * @internal
    */
-  private createTripoError(tripoCode: number, message?: string, raw?: unknown, httpStatus?: number): ApiError {
+  private createTripoError(
+    tripoCode: number,
+    message?: string,
+    raw?: unknown,
+    httpStatus?: number,
+    retryAfter?: number
+  ): ApiError {
     const sdkCode = TRIPO_ERROR_CODE_MAP[tripoCode] || `TRIPO_ERROR_${tripoCode}`;
     const errorType = tripoCode >= 2000 ? 'Task error' : 'Request error';
     const httpInfo = httpStatus ? ` [HTTP ${httpStatus}]` : '';
@@ -543,7 +593,26 @@ export class TripoProvider extends AbstractProvider<TripoConfig> {
       `${errorType}${httpInfo}: ${message || 'Unknown error'}`,
       sdkCode,
       raw,
-      httpStatus
+      httpStatus,
+      retryAfter
+    );
+  }
+
+  /**
+   * Creates a standardized error from a Tripo HTTP error response (4xx/5xx).
+   *
+   * @param response - The axios error response
+   * @returns ApiError including the `Retry-After` hint, if any
+   *
+   * @internal
+   */
+  private createTripoHttpError(response: AxiosResponse<TripoApiResponse<unknown>>): ApiError {
+    return this.createTripoError(
+      response.data.code,
+      response.data.message,
+      response.data,
+      response.status,
+      parseRetryAfter(response.headers['retry-after'])
     );
   }
 
@@ -552,9 +621,10 @@ export class TripoProvider extends AbstractProvider<TripoConfig> {
    * Async because file inputs may need to be uploaded when stsUpload is enabled.
    *
    * @param params - Task parameters
+   * @param signal - Optional signal that aborts file uploads
    * @returns API payload object
    */
-  private async buildPayload(params: TaskParams<TripoOptions>): Promise<Record<string, unknown>> {
+  private async buildPayload(params: TaskParams<TripoOptions>, signal?: AbortSignal): Promise<Record<string, unknown>> {
     const options = params.providerOptions || {};
 
     // Text-to-3D
@@ -571,7 +641,7 @@ export class TripoProvider extends AbstractProvider<TripoConfig> {
     if (isImageTo3DParams(params)) {
       return {
         type: 'image_to_model',
-        file: await this.resolveFileRef(params.input),
+        file: await this.resolveFileRef(params.input, 'jpg', signal),
         ...options
       };
     }
@@ -582,7 +652,7 @@ export class TripoProvider extends AbstractProvider<TripoConfig> {
     if (isMultiviewTo3DParams(params)) {
       const files = await Promise.all(
         params.inputs.map(async (url) =>
-          url ? await this.resolveFileRef(url) : {}
+          url ? await this.resolveFileRef(url, 'jpg', signal) : {}
         )
       );
       return {
@@ -603,7 +673,7 @@ export class TripoProvider extends AbstractProvider<TripoConfig> {
         texturePrompt.text = params.prompt;
       }
       if (params.styleImage) {
-        texturePrompt.style_image = await this.resolveFileRef(params.styleImage);
+        texturePrompt.style_image = await this.resolveFileRef(params.styleImage, 'jpg', signal);
       }
       if (Object.keys(texturePrompt).length > 0) {
         payload.texture_prompt = texturePrompt;
@@ -678,7 +748,7 @@ export class TripoProvider extends AbstractProvider<TripoConfig> {
         const ext = this.detectFileExt(params.input, 'glb');
         return {
           type: 'import_model',
-          file: await this.resolveFileRef(params.input, ext),
+          file: await this.resolveFileRef(params.input, ext, signal),
           ...options
         };
       }
@@ -712,11 +782,11 @@ export class TripoProvider extends AbstractProvider<TripoConfig> {
         prompt: params.prompt
       };
       if (params.input) {
-        payload.file = await this.resolveFileRef(params.input);
+        payload.file = await this.resolveFileRef(params.input, 'jpg', signal);
       }
       if (params.inputs && params.inputs.length > 0) {
         payload.files = await Promise.all(
-          params.inputs.map((url) => this.resolveFileRef(url))
+          params.inputs.map((url) => this.resolveFileRef(url, 'jpg', signal))
         );
       }
       return { ...payload, ...options };
@@ -767,32 +837,34 @@ export class TripoProvider extends AbstractProvider<TripoConfig> {
    * Fetches and normalizes task status from the Tripo API.
    *
    * @param taskId - The Tripo task ID
+   * @param options - Request options (e.g., abort signal)
    * @returns Normalized StandardTask object
    *
-   * @throws Error if HTTP request fails (4xx/5xx)
+   * @throws Error if HTTP request fails (4xx/5xx) after retries
    */
-  async getTaskStatus(taskId: string): Promise<StandardTask> {
-    try {
-      const response = await this.client.get<TripoApiResponse<TripoTaskData>>(
-        `/v2/openapi/task/${taskId}`
-      );
-
-      // HTTP 200 + code !== 0: API-level error (shouldn't happen for polling, but handle it)
-      if (response.data.code !== 0) {
-        return this.normalizeErrorResponse(taskId, response.data.code, response.data.message);
+  async getTaskStatus(taskId: string, options: RequestOptions = {}): Promise<StandardTask> {
+    const response = await this.withRetry(async () => {
+      try {
+        return await this.client.get<TripoApiResponse<TripoTaskData>>(
+          `/v2/openapi/task/${taskId}`,
+          { signal: options.signal }
+        );
+      } catch (error) {
+        // Handle axios HTTP errors (4xx/5xx) - these are request errors, throw them
+        if (axios.isAxiosError(error) && error.response?.data) {
+          throw this.createTripoHttpError(error.response);
+        }
+        throw error;
       }
+    }, { ...options, idempotent: true });
 
-      // HTTP 200 + code === 0: Normal response, check status field
-      return this.normalizeTripoResponse(response.data.data);
-    } catch (error) {
-      // Handle axios HTTP errors (4xx/5xx) - these are request errors, throw them
-      if (axios.isAxiosError(error) && error.response?.data) {
-        const tripoCode = error.response.data.code;
-        const tripoMessage = error.response.data.message;
-        throw this.createTripoError(tripoCode, tripoMessage, error.response.data, error.response.status);
-      }
-      throw error;
+    // HTTP 200 + code !== 0: API-level error (shouldn't happen for polling, but handle it)
+    if (response.data.code !== 0) {
+      return this.normalizeErrorResponse(taskId, response.data.code, response.data.message);
     }
+
+    // HTTP 200 + code === 0: Normal response, check status field
+    return this.normalizeTripoResponse(response.data.data);
   }
 
   /**
@@ -891,7 +963,8 @@ export class TripoProvider extends AbstractProvider<TripoConfig> {
         thumbnail: rendered_image,
         video: generated_video,
         generatedImage: generated_image,
-        riggable,
+        // Pre-rig checks always report riggability; a missing flag means not riggable
+        riggable: sdkType === TaskType.PRE_RIG_CHECK ? riggable ?? false : riggable,
         rigType: rig_type
       };
     }
@@ -939,6 +1012,7 @@ export class TripoProvider extends AbstractProvider<TripoConfig> {
       status: sdkStatus,
       progress: data.progress || 0,
       progressDetail: sdkStatus === TaskStatus.PROCESSING ? `${data.progress || 0}%` : undefined,
+      estimatedTimeRemaining: data.running_left_time !== undefined ? data.running_left_time * 1000 : undefined,
       result,
       error,
       createdAt: data.create_time ? data.create_time * 1000 : Date.now(),
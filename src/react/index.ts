@@ -63,13 +63,30 @@ export type {
   RigParams,
   ConvertParams,
   TextureParams,
-  DecimateParams
+  DecimateParams,
+  CapabilityField,
+  CapabilityFieldType,
+  TaskCapability,
+  ProviderCapabilities,
+  PricingTable,
+  TaskPricing,
+  PriceModifier,
+  CostEstimate
 } from '../types';
 
+// Polling strategies
+export { AdaptivePollingStrategy, FixedIntervalStrategy } from '../core/PollingStrategy';
+export type { PollingStrategy, PollContext, AdaptivePollingOptions } from '../core/PollingStrategy';
+
 export {
   TaskStatus,
   TaskType,
   ProviderId,
   PROVIDERS,
-  PROVIDER_TASK_TYPES
+  PROVIDER_TASK_TYPES,
+  PROVIDER_CAPABILITIES,
+  PROVIDER_PRICING
 } from '../types';
+
+// Cost estimation from PROVIDER_PRICING
+export { estimateTaskCost, mergePricing } from '../utils/pricing';
@@ -3,8 +3,9 @@
  * @description Shared polling hook for React applications
  */
 
-import { useState, useCallback, useRef, useEffect } from 'react';
+import { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import { StandardTask, TaskStatus, ProviderId } from '../types';
+import { PollingStrategy, AdaptivePollingStrategy, FixedIntervalStrategy } from '../core/PollingStrategy';
 
 /**
  * Terminal task statuses that stop polling
@@ -16,6 +17,13 @@ const TERMINAL_STATUSES: TaskStatus[] = [
   TaskStatus.CANCELED
 ];
 
+/**
+ * Adaptive strategy shared by hooks without `pollingInterval` or
+ * `pollingStrategy`, so durations learned by one hook benefit the others.
+ * @internal
+ */
+const defaultPollingStrategy = new AdaptivePollingStrategy();
+
 /**
  * Configuration options for the polling hook.
  *
@@ -46,11 +54,22 @@ export interface UsePollingOptions {
   providerId?: ProviderId;
 
   /**
-   * Time between status checks in milliseconds.
-   * @defaultValue 3000
+   * Fixed time between status checks in milliseconds.
+   * When omitted, checks are spaced by `pollingStrategy`.
    */
   pollingInterval?: number;
 
+  /**
+   * Decides the time between status checks. Takes precedence over
+   * `pollingInterval`.
+   *
+   * @remarks
+   * Defaults to an {@link AdaptivePollingStrategy} shared by all hooks,
+   * which checks sparsely at first and more often near the expected
+   * completion of the task's type.
+   */
+  pollingStrategy?: PollingStrategy;
+
   /**
    * Maximum total wait time before timing out.
    * @defaultValue 300000 (5 minutes)
@@ -135,7 +154,7 @@ export interface UsePollingReturn {
  * - {@link useTaskStatus} - For tracking existing tasks
  *
  * **Features:**
- * - Automatic polling with configurable interval
+ * - Adaptive polling schedule, or a fixed interval
  * - Timeout handling
  * - Exponential backoff on network errors
  * - Maximum retry limit for consecutive failures
@@ -175,7 +194,8 @@ export function usePolling(options: UsePollingOptions): UsePollingReturn {
   const {
     api,
     providerId,
-    pollingInterval = 3000,
+    pollingInterval,
+    pollingStrategy,
     timeout = 300000,
     maxRetries = 5,
     headers = {},
@@ -189,11 +209,20 @@ export function usePolling(options: UsePollingOptions): UsePollingReturn {
   const [isPolling, setIsPolling] = useState(false);
   const [error, setError] = useState<Error | null>(null);
 
+  const strategy = useMemo<PollingStrategy>(
+    () => pollingStrategy
+      ?? (pollingInterval !== undefined ? new FixedIntervalStrategy(pollingInterval) : defaultPollingStrategy),
+    [pollingStrategy, pollingInterval]
+  );
+  // Base delay for error backoff before the strategy has been consulted
+  const initialInterval = pollingInterval ?? 3000;
+
   // Refs for tracking state across async operations
   const pollingRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const startTimeRef = useRef<number>(0);
   const consecutiveErrorsRef = useRef<number>(0);
-  const currentIntervalRef = useRef<number>(pollingInterval);
+  const attemptRef = useRef<number>(0);
+  const currentIntervalRef = useRef<number>(initialInterval);
   const abortControllerRef = useRef<AbortController | null>(null);
 
   // Cleanup on unmount
@@ -226,8 +255,9 @@ export function usePolling(options: UsePollingOptions): UsePollingReturn {
     setTaskId(null);
     setError(null);
     consecutiveErrorsRef.current = 0;
-    currentIntervalRef.current = pollingInterval;
-  }, [stopPolling, pollingInterval]);
+    attemptRef.current = 0;
+    currentIntervalRef.current = initialInterval;
+  }, [stopPolling, initialInterval]);
 
   const fetchTaskStatus = useCallback(async (id: string, signal?: AbortSignal): Promise<StandardTask> => {
     // Build URL with optional providerId query parameter
@@ -268,15 +298,22 @@ export function usePolling(options: UsePollingOptions): UsePollingReturn {
 
       // Reset error tracking on success
       consecutiveErrorsRef.current = 0;
-      currentIntervalRef.current = pollingInterval;
+      attemptRef.current++;
 
       setTask(taskData);
       setError(null);
       onProgress?.(taskData);
 
+      const context = {
+        task: taskData,
+        elapsed: Date.now() - startTimeRef.current,
+        attempt: attemptRef.current
+      };
+
       // Check if task reached terminal state
       if (TERMINAL_STATUSES.includes(taskData.status)) {
         setIsPolling(false);
+        strategy.onSettled?.(context);
 
         if (taskData.status === TaskStatus.SUCCEEDED) {
           onSuccess?.(taskData);
@@ -292,6 +329,7 @@ export function usePolling(options: UsePollingOptions): UsePollingReturn {
       }
 
       // Continue polling
+      currentIntervalRef.current = strategy.nextDelay(context);
       pollingRef.current = setTimeout(() => pollTask(id), currentIntervalRef.current);
     } catch (err) {
       // Ignore abort errors (from cleanup or stop)
@@ -317,7 +355,7 @@ export function usePolling(options: UsePollingOptions): UsePollingReturn {
       currentIntervalRef.current = Math.min(currentIntervalRef.current * 1.5, 15000);
       pollingRef.current = setTimeout(() => pollTask(id), currentIntervalRef.current);
     }
-  }, [fetchTaskStatus, pollingInterval, timeout, maxRetries, onProgress, onSuccess, onError]);
+  }, [fetchTaskStatus, strategy, timeout, maxRetries, onProgress, onSuccess, onError]);
 
   const startPolling = useCallback((id: string) => {
     stopPolling();
@@ -327,9 +365,10 @@ export function usePolling(options: UsePollingOptions): UsePollingReturn {
     setIsPolling(true);
     startTimeRef.current = Date.now();
     consecutiveErrorsRef.current = 0;
-    currentIntervalRef.current = pollingInterval;
+    attemptRef.current = 0;
+    currentIntervalRef.current = initialInterval;
     pollTask(id);
-  }, [stopPolling, pollingInterval, pollTask]);
+  }, [stopPolling, initialInterval, pollTask]);
 
   const refresh = useCallback(async (): Promise<StandardTask | null> => {
     if (!taskId) return null;
@@ -34,15 +34,74 @@
 // Providers
 export { TripoProvider } from '../providers/TripoProvider';
 export { HunyuanProvider } from '../providers/HunyuanProvider';
+export { MeshyProvider } from '../providers/MeshyProvider';
+export { RodinProvider } from '../providers/RodinProvider';
+export { StabilityProvider } from '../providers/StabilityProvider';
+export { MockProvider } from '../providers/MockProvider';
+export { RouterProvider } from '../providers/RouterProvider';
+export type { RouterConfig, RouterFallbackInfo } from '../providers/RouterProvider';
 
 // Core
 export { AbstractProvider } from '../core/AbstractProvider';
-export type { ImageInput } from '../core/AbstractProvider';
-export { Magi3DClient, TaskError, ApiError } from '../core/Magi3DClient';
-export type { PollOptions } from '../core/Magi3DClient';
+export type { ImageInput, RequestOptions } from '../core/AbstractProvider';
+export { defineProvider } from '../core/defineProvider';
+export type {
+  ProviderDefinition,
+  DefinedProviderConfig,
+  EndpointSpec,
+  AuthScheme,
+  PayloadMappers,
+  ArtifactExtractors
+} from '../core/defineProvider';
+export { Magi3DClient, TaskError, ApiError, PollTimeoutError } from '../core/Magi3DClient';
+export type {
+  PollOptions,
+  WatchOptions,
+  CreateTaskOptions,
+  CreateTasksOptions,
+  IdempotencyOptions,
+  ResultCacheOptions,
+  Magi3DClientOptions,
+  PollManyOptions,
+  BatchProgress,
+  Magi3DClientEvents,
+  TaskEvent,
+  TaskCreatedEvent,
+  TaskCacheHitEvent,
+  TaskStatusChangeEvent,
+  TaskSettledEvent,
+  TaskResumedEvent,
+  TaskTimeoutEvent,
+  PollErrorEvent,
+  RetryEvent
+} from '../core/Magi3DClient';
+export { SubmissionQueue } from '../core/SubmissionQueue';
+export type { QueueOptions } from '../core/SubmissionQueue';
+export type { Middleware, MiddlewareErrorContext } from '../core/Middleware';
+export { AdaptivePollingStrategy, FixedIntervalStrategy, DEFAULT_EXPECTED_DURATIONS } from '../core/PollingStrategy';
+export type { PollingStrategy, PollContext, AdaptivePollingOptions } from '../core/PollingStrategy';
+export type { PollCheckpoint, CheckpointOptions } from '../core/PollCheckpoints';
+export { BudgetExceededError } from '../core/Budget';
+export type { BudgetOptions, BudgetLimit, BudgetUsage } from '../core/Budget';
+export { Pipeline, PipelineError } from '../core/Pipeline';
+export type {
+  PipelineStep,
+  PipelineStepParams,
+  PipelineStepResult,
+  PipelineContext,
+  PipelineProgress,
+  PipelineRunOptions,
+  PipelineResult
+} from '../core/Pipeline';
+
+// Stores
+export { MemoryTaskStore } from '../stores/MemoryTaskStore';
+export { FileTaskStore } from '../stores/FileTaskStore';
 
 // Utilities
 export { InputUtils, InputType } from '../utils/InputUtils';
+export { isRateLimitError, isTransientError, parseRetryAfter, RATE_LIMIT_ERROR_CODES } from '../utils/errors';
+export { estimateTaskCost, mergePricing } from '../utils/pricing';
 
 // Types
 export * from '../types';
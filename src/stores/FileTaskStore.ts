@@ -0,0 +1,152 @@
+/**
+ * @module stores/FileTaskStore
+ * @description TaskStore persisted to a local JSON file
+ */
+
+import type { TaskStore, TaskStoreSetOptions } from '../types';
+
+/**
+ * Stored entry with its expiry time.
+ * @internal
+ */
+interface Entry {
+  value: unknown;
+  expiresAt?: number;
+}
+
+/**
+ * {@link TaskStore} that persists entries to a JSON file.
+ *
+ * @remarks
+ * Survives process restarts on a single host, which makes it a good fit for
+ * development servers and long-running workers. Writes are serialized within
+ * the process and replace the file atomically; concurrent writers in
+ * different processes are not coordinated (so `setIfAbsent` is only atomic
+ * within one process), so use a database-backed store for multi-instance
+ * deployments.
+ *
+ * Expired entries are dropped whenever the file is rewritten.
+ *
+ * @example
+ * ```typescript
+ * import { HunyuanProvider, FileTaskStore } from 'magi-3d/server';
+ *
+ * const provider = new HunyuanProvider({
+ *   taskStore: new FileTaskStore('./.magi3d/tasks.json')
+ * });
+ * ```
+ */
+export class FileTaskStore implements TaskStore {
+  /** Tail of the write chain, so read-modify-write cycles do not interleave */
+  private pending: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Creates a new file-backed store.
+   *
+   * @param filePath - Path of the JSON file (created on first write)
+   */
+  constructor(private filePath: string) {}
+
+  async get<T = unknown>(key: string): Promise<T | undefined> {
+    await this.pending.catch(() => undefined);
+    const entry = (await this.read())[key];
+    if (!entry || this.isExpired(entry)) {
+      return undefined;
+    }
+    return entry.value as T;
+  }
+
+  async set<T = unknown>(key: string, value: T, options: TaskStoreSetOptions = {}): Promise<void> {
+    await this.update((entries) => {
+      entries[key] = {
+        value,
+        expiresAt: options.ttl !== undefined ? Date.now() + options.ttl : undefined
+      };
+    });
+  }
+
+  async setIfAbsent<T = unknown>(key: string, value: T, options: TaskStoreSetOptions = {}): Promise<boolean> {
+    let written = false;
+    await this.update((entries) => {
+      const existing = entries[key];
+      if (!existing || this.isExpired(existing)) {
+        entries[key] = {
+          value,
+          expiresAt: options.ttl !== undefined ? Date.now() + options.ttl : undefined
+        };
+        written = true;
+      }
+    });
+    return written;
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.update((entries) => {
+      delete entries[key];
+    });
+  }
+
+  async keys(prefix: string): Promise<string[]> {
+    await this.pending.catch(() => undefined);
+    return Object.entries(await this.read())
+      .filter(([key, entry]) => key.startsWith(prefix) && !this.isExpired(entry))
+      .map(([key]) => key);
+  }
+
+  /**
+   * Applies a change to the file contents, queued behind earlier writes.
+   * @internal
+   */
+  private update(change: (entries: Record<string, Entry>) => void): Promise<void> {
+    const next = this.pending.catch(() => undefined).then(async () => {
+      const entries = await this.read();
+      change(entries);
+      for (const [key, entry] of Object.entries(entries)) {
+        if (this.isExpired(entry)) {
+          delete entries[key];
+        }
+      }
+      await this.write(entries);
+    });
+    this.pending = next;
+    return next;
+  }
+
+  /**
+   * Reads all entries (empty if the file does not exist yet).
+   * @internal
+   */
+  private async read(): Promise<Record<string, Entry>> {
+    const { readFile } = await import('fs/promises');
+    try {
+      return JSON.parse(await readFile(this.filePath, 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return {};
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Writes all entries via a temporary file and rename.
+   * @internal
+   */
+  private async write(entries: Record<string, Entry>): Promise<void> {
+    const { mkdir, rename, writeFile } = await import('fs/promises');
+    const { dirname } = await import('path');
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+
+    await mkdir(dirname(this.filePath), { recursive: true });
+    await writeFile(tempPath, JSON.stringify(entries), 'utf8');
+    await rename(tempPath, this.filePath);
+  }
+
+  /**
+   * Checks whether an entry's TTL has elapsed.
+   * @internal
+   */
+  private isExpired(entry: Entry): boolean {
+    return entry.expiresAt !== undefined && entry.expiresAt <= Date.now();
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * @module stores/MemoryTaskStore
+ * @description In-process TaskStore backed by a Map
+ */
+
+import type { TaskStore, TaskStoreSetOptions } from '../types';
+
+/**
+ * Stored entry with its expiry time.
+ * @internal
+ */
+interface Entry {
+  value: unknown;
+  expiresAt?: number;
+}
+
+/**
+ * {@link TaskStore} that keeps entries in memory.
+ *
+ * @remarks
+ * Entries are lost when the process exits and are not shared between
+ * server instances. Expired entries are evicted when read.
+ *
+ * This is the default store; pass an instance explicitly to share it
+ * between providers or clients in the same process.
+ *
+ * @example
+ * ```typescript
+ * const store = new MemoryTaskStore();
+ * await store.set('key', { jobId: '123' }, { ttl: 60000 });
+ * ```
+ */
+export class MemoryTaskStore implements TaskStore {
+  private entries = new Map<string, Entry>();
+
+  async get<T = unknown>(key: string): Promise<T | undefined> {
+    return this.read(key)?.value as T | undefined;
+  }
+
+  async set<T = unknown>(key: string, value: T, options: TaskStoreSetOptions = {}): Promise<void> {
+    this.entries.set(key, {
+      value,
+      expiresAt: options.ttl !== undefined ? Date.now() + options.ttl : undefined
+    });
+  }
+
+  async setIfAbsent<T = unknown>(key: string, value: T, options: TaskStoreSetOptions = {}): Promise<boolean> {
+    // Check and write without yielding, so concurrent calls cannot interleave
+    if (this.read(key)) {
+      return false;
+    }
+    await this.set(key, value, options);
+    return true;
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async keys(prefix: string): Promise<string[]> {
+    return [...this.entries.keys()].filter((key) => key.startsWith(prefix) && this.read(key));
+  }
+
+  /**
+   * Returns the unexpired entry for a key, evicting an expired one.
+   * @internal
+   */
+  private read(key: string): Entry | undefined {
+    const entry = this.entries.get(key);
+    if (entry?.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+}
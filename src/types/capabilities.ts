@@ -0,0 +1,686 @@
+/**
+ * @module types/capabilities
+ * @description Per-task-type capability descriptions for building forms
+ */
+
+import { ProviderId, TaskType } from './enums';
+
+// ============================================
+// Capability types
+// ============================================
+
+/**
+ * Value type of a {@link CapabilityField}.
+ *
+ * - `image` / `image[]` - Image URL or base64 string(s)
+ * - `url` - Model file URL
+ * - `enum` - One of {@link CapabilityField.values}
+ */
+export type CapabilityFieldType =
+  | 'string'
+  | 'number'
+  | 'integer'
+  | 'boolean'
+  | 'enum'
+  | 'url'
+  | 'image'
+  | 'image[]'
+  | 'string[]';
+
+/**
+ * Describes one task parameter or provider option.
+ */
+export interface CapabilityField {
+  /** Key in the task params, or in `providerOptions` for options */
+  name: string;
+  /** Value type */
+  type: CapabilityFieldType;
+  /** Whether the field must be set */
+  required?: boolean;
+  /** Allowed values (for `enum` and `string[]` fields) */
+  values?: readonly string[];
+  /** Minimum value, or minimum item count for array fields */
+  min?: number;
+  /** Maximum value, or maximum item count for array fields */
+  max?: number;
+  /** Value used by the provider when the field is omitted */
+  default?: string | number | boolean;
+  /** Short human-readable description */
+  description?: string;
+}
+
+/**
+ * Describes what a provider accepts and returns for one task type.
+ *
+ * @example
+ * ```typescript
+ * const convert = provider.describeCapabilities()[TaskType.CONVERT];
+ * const format = convert?.params.find((field) => field.name === 'format');
+ * // => { name: 'format', type: 'enum', required: true, values: ['gltf', 'usdz', ...] }
+ * ```
+ */
+export interface TaskCapability {
+  /** The task type */
+  type: TaskType;
+  /** Accepted task params (excluding `type` and `providerOptions`) */
+  params: readonly CapabilityField[];
+  /** Accepted `providerOptions` keys */
+  options: readonly CapabilityField[];
+  /**
+   * How the source model is referenced, for post-processing tasks:
+   * - `taskId` - ID of a task created by the same provider
+   * - `modelUrl` - URL of a model file
+   */
+  source?: 'taskId' | 'modelUrl';
+  /** Kind of result: a model, an image, or analysis data only */
+  output: 'model' | 'image' | 'data';
+  /** Model formats the task can produce (lowercase file extensions) */
+  outputFormats: readonly string[];
+}
+
+/**
+ * Capabilities of a provider, keyed by supported task type.
+ */
+export type ProviderCapabilities = Partial<Record<TaskType, TaskCapability>>;
+
+// ============================================
+// Shared field definitions
+// ============================================
+
+/** @internal */
+const PROMPT: CapabilityField = { name: 'prompt', type: 'string', required: true, description: 'Text prompt' };
+/** @internal */
+const NEGATIVE_PROMPT: CapabilityField = { name: 'negative_prompt', type: 'string', description: 'What to avoid' };
+/** @internal */
+const IMAGE: CapabilityField = { name: 'input', type: 'image', required: true, description: 'Input image' };
+/** @internal */
+const TASK_ID: CapabilityField = { name: 'taskId', type: 'string', required: true, description: 'Source task ID' };
+/** @internal */
+const MODEL_URL: CapabilityField = { name: 'modelUrl', type: 'url', required: true, description: 'Source model URL' };
+/** @internal */
+const OUT_FORMAT: CapabilityField = { name: 'outFormat', type: 'enum', values: ['glb', 'fbx'], default: 'glb' };
+
+/**
+ * Rig types accepted by Tripo (`humanoid` is an alias of `biped`).
+ * @internal
+ */
+const TRIPO_SKELETONS = ['humanoid', 'biped', 'quadruped', 'hexapod', 'octopod', 'avian', 'serpentine', 'aquatic'];
+
+/**
+ * Tripo generation options shared by text, image and multiview tasks.
+ * @internal
+ */
+const TRIPO_GENERATION_OPTIONS: readonly CapabilityField[] = [
+  { name: 'model_version', type: 'string', description: 'Model version' },
+  { name: 'pbr', type: 'boolean', default: true, description: 'PBR materials' },
+  { name: 'texture', type: 'boolean', default: true, description: 'Texturing' },
+  { name: 'texture_quality', type: 'enum', values: ['standard', 'detailed'], default: 'standard' },
+  { name: 'geometry_quality', type: 'enum', values: ['standard', 'detailed'], default: 'standard' },
+  { name: 'face_limit', type: 'integer', min: 1, description: 'Face count limit' },
+  { name: 'quad', type: 'boolean', default: false, description: 'Quad mesh (FBX output)' },
+  { name: 'smart_low_poly', type: 'boolean', default: false },
+  { name: 'generate_parts', type: 'boolean', default: false },
+  { name: 'export_uv', type: 'boolean', default: true },
+  { name: 'auto_size', type: 'boolean', default: false },
+  { name: 'compress', type: 'enum', values: ['geometry'] },
+  { name: 'model_seed', type: 'integer' },
+  { name: 'texture_seed', type: 'integer' }
+];
+
+/**
+ * Tripo options for image-based generation.
+ * @internal
+ */
+const TRIPO_IMAGE_OPTIONS: readonly CapabilityField[] = [
+  ...TRIPO_GENERATION_OPTIONS,
+  { name: 'texture_alignment', type: 'enum', values: ['original_image', 'geometry'], default: 'original_image' },
+  { name: 'orientation', type: 'enum', values: ['default', 'align_image'], default: 'default' },
+  { name: 'enable_image_autofix', type: 'boolean', default: false }
+];
+
+/**
+ * Hunyuan generation options (see `HunyuanOptions`).
+ * @internal
+ */
+const HUNYUAN_GENERATION_OPTIONS: readonly CapabilityField[] = [
+  { name: 'EnablePBR', type: 'boolean', default: false, description: 'PBR materials' },
+  { name: 'FaceCount', type: 'integer', min: 40000, max: 1500000, description: 'Target face count' },
+  { name: 'GenerateType', type: 'enum', values: ['Normal', 'LowPoly', 'Geometry', 'Sketch'], default: 'Normal' },
+  { name: 'PolygonType', type: 'enum', values: ['triangle', 'quadrilateral'], default: 'triangle' },
+  { name: 'ResultFormat', type: 'enum', values: ['OBJ', 'GLB', 'STL', 'USDZ', 'FBX', 'MP4'] }
+];
+
+/**
+ * Meshy generation options shared by text, image and multi-image tasks.
+ * @internal
+ */
+const MESHY_GENERATION_OPTIONS: readonly CapabilityField[] = [
+  { name: 'ai_model', type: 'enum', values: ['meshy-4', 'meshy-5', 'meshy-6', 'latest'], default: 'latest' },
+  { name: 'topology', type: 'enum', values: ['quad', 'triangle'], default: 'triangle' },
+  { name: 'target_polycount', type: 'integer', min: 100, max: 300000, default: 30000 },
+  { name: 'should_remesh', type: 'boolean', default: true },
+  { name: 'symmetry_mode', type: 'enum', values: ['off', 'auto', 'on'], default: 'auto' },
+  { name: 'pose_mode', type: 'enum', values: ['a-pose', 't-pose', ''], default: '' },
+  { name: 'seed', type: 'integer' },
+  { name: 'moderation', type: 'boolean', default: false }
+];
+
+/**
+ * Meshy options for image-based generation (textured in the same task).
+ * @internal
+ */
+const MESHY_IMAGE_OPTIONS: readonly CapabilityField[] = [
+  ...MESHY_GENERATION_OPTIONS,
+  { name: 'should_texture', type: 'boolean', default: true },
+  { name: 'enable_pbr', type: 'boolean', default: false },
+  { name: 'texture_prompt', type: 'string', description: 'Texture guidance' },
+  { name: 'texture_image_url', type: 'url', description: 'Texture reference image' }
+];
+
+/**
+ * Model formats returned by Meshy generation tasks.
+ * @internal
+ */
+const MESHY_FORMATS = ['glb', 'fbx', 'obj', 'usdz'];
+
+/**
+ * Rodin generation options shared by all task types (see `RodinOptions`).
+ * @internal
+ */
+const RODIN_GENERATION_OPTIONS: readonly CapabilityField[] = [
+  { name: 'tier', type: 'enum', values: ['Regular', 'Sketch', 'Detail', 'Smooth', 'Gen-2'], default: 'Regular' },
+  { name: 'quality', type: 'enum', values: ['high', 'medium', 'low', 'extra-low'], default: 'medium' },
+  { name: 'quality_override', type: 'integer', min: 500, max: 1000000, description: 'Exact face count' },
+  { name: 'mesh_mode', type: 'enum', values: ['Raw', 'Quad'], default: 'Quad' },
+  { name: 'material', type: 'enum', values: ['PBR', 'Shaded', 'All'], default: 'PBR' },
+  { name: 'geometry_file_format', type: 'enum', values: ['glb', 'usdz', 'fbx', 'obj', 'stl'], default: 'glb' },
+  { name: 'seed', type: 'integer', min: 0, max: 65535 },
+  { name: 'TAPose', type: 'boolean', default: false },
+  { name: 'addons', type: 'string[]', values: ['HighPack'] },
+  { name: 'preview_render', type: 'boolean', default: false }
+];
+
+/**
+ * Model formats Rodin can produce.
+ * @internal
+ */
+const RODIN_FORMATS = ['glb', 'usdz', 'fbx', 'obj', 'stl'];
+
+// ============================================
+// Provider capabilities
+// ============================================
+
+/**
+ * Capabilities of the built-in providers, matching what
+ * `provider.describeCapabilities()` returns on the server.
+ *
+ * @remarks
+ * Use this to build task forms: render `params` as inputs, `options` as
+ * advanced settings (sent in `providerOptions`), and disable controls for
+ * task types the selected provider does not list.
+ *
+ * @example
+ * ```tsx
+ * import { PROVIDER_CAPABILITIES, ProviderId, TaskType } from 'magi-3d/react';
+ *
+ * const faceCount = PROVIDER_CAPABILITIES[ProviderId.HUNYUAN][TaskType.TEXT_TO_3D]
+ *   ?.options.find((field) => field.name === 'FaceCount');
+ *
+ * <input type="number" min={faceCount?.min} max={faceCount?.max} />
+ * ```
+ */
+export const PROVIDER_CAPABILITIES: Record<ProviderId, ProviderCapabilities> = {
+  [ProviderId.TRIPO]: {
+    [TaskType.TEXT_TO_3D]: {
+      type: TaskType.TEXT_TO_3D,
+      params: [PROMPT, NEGATIVE_PROMPT],
+      options: [...TRIPO_GENERATION_OPTIONS, { name: 'image_seed', type: 'integer' }],
+      output: 'model',
+      outputFormats: ['glb']
+    },
+    [TaskType.IMAGE_TO_3D]: {
+      type: TaskType.IMAGE_TO_3D,
+      params: [IMAGE],
+      options: TRIPO_IMAGE_OPTIONS,
+      output: 'model',
+      outputFormats: ['glb']
+    },
+    [TaskType.MULTIVIEW_TO_3D]: {
+      type: TaskType.MULTIVIEW_TO_3D,
+      params: [{
+        name: 'inputs',
+        type: 'image[]',
+        required: true,
+        min: 4,
+        max: 4,
+        description: 'Front, left, back and right views (empty string to omit a view)'
+      }],
+      options: TRIPO_IMAGE_OPTIONS,
+      output: 'model',
+      outputFormats: ['glb']
+    },
+    [TaskType.TEXT_TO_IMAGE]: {
+      type: TaskType.TEXT_TO_IMAGE,
+      params: [PROMPT, NEGATIVE_PROMPT],
+      options: [],
+      output: 'image',
+      outputFormats: []
+    },
+    [TaskType.GENERATE_IMAGE]: {
+      type: TaskType.GENERATE_IMAGE,
+      params: [
+        PROMPT,
+        { name: 'input', type: 'image', description: 'Reference image' },
+        { name: 'inputs', type: 'image[]', description: 'Reference images' }
+      ],
+      options: [
+        { name: 't_pose', type: 'boolean', default: false },
+        { name: 'sketch_to_render', type: 'boolean', default: false }
+      ],
+      output: 'image',
+      outputFormats: []
+    },
+    [TaskType.TEXTURE]: {
+      type: TaskType.TEXTURE,
+      params: [
+        TASK_ID,
+        { name: 'prompt', type: 'string', description: 'Texture prompt' },
+        { name: 'styleImage', type: 'image', description: 'Style reference image' },
+        { name: 'enablePBR', type: 'boolean', default: true }
+      ],
+      options: [
+        { name: 'model_version', type: 'string' },
+        { name: 'texture_quality', type: 'enum', values: ['standard', 'detailed'], default: 'standard' },
+        { name: 'texture_alignment', type: 'enum', values: ['original_image', 'geometry'] },
+        { name: 'texture_seed', type: 'integer' },
+        { name: 'part_names', type: 'string[]' },
+        { name: 'bake', type: 'boolean', default: true }
+      ],
+      source: 'taskId',
+      output: 'model',
+      outputFormats: ['glb']
+    },
+    [TaskType.REFINE]: {
+      type: TaskType.REFINE,
+      params: [TASK_ID],
+      options: [],
+      source: 'taskId',
+      output: 'model',
+      outputFormats: ['glb']
+    },
+    [TaskType.PRE_RIG_CHECK]: {
+      type: TaskType.PRE_RIG_CHECK,
+      params: [TASK_ID],
+      options: [],
+      source: 'taskId',
+      output: 'data',
+      outputFormats: []
+    },
+    [TaskType.RIG]: {
+      type: TaskType.RIG,
+      params: [
+        TASK_ID,
+        { name: 'skeleton', type: 'enum', values: TRIPO_SKELETONS, default: 'biped' },
+        OUT_FORMAT
+      ],
+      options: [
+        { name: 'model_version', type: 'string' },
+        { name: 'spec', type: 'enum', values: ['mixamo', 'tripo'], default: 'tripo' }
+      ],
+      source: 'taskId',
+      output: 'model',
+      outputFormats: ['glb', 'fbx']
+    },
+    [TaskType.ANIMATE]: {
+      type: TaskType.ANIMATE,
+      params: [
+        TASK_ID,
+        { name: 'animation', type: 'string', required: true, description: 'Animation preset' },
+        OUT_FORMAT,
+        { name: 'animateInPlace', type: 'boolean', default: false }
+      ],
+      options: [
+        { name: 'animations', type: 'string[]', max: 5, description: 'Several animation presets' },
+        { name: 'bake_animation', type: 'boolean', default: true },
+        { name: 'export_with_geometry', type: 'boolean', default: true }
+      ],
+      source: 'taskId',
+      output: 'model',
+      outputFormats: ['glb', 'fbx']
+    },
+    [TaskType.SEGMENT]: {
+      type: TaskType.SEGMENT,
+      params: [TASK_ID],
+      options: [{ name: 'model_version', type: 'string' }],
+      source: 'taskId',
+      output: 'model',
+      outputFormats: ['glb']
+    },
+    [TaskType.MESH_COMPLETION]: {
+      type: TaskType.MESH_COMPLETION,
+      params: [TASK_ID, { name: 'partNames', type: 'string[]', description: 'Parts to complete' }],
+      options: [{ name: 'model_version', type: 'string' }],
+      source: 'taskId',
+      output: 'model',
+      outputFormats: ['glb']
+    },
+    [TaskType.DECIMATE]: {
+      type: TaskType.DECIMATE,
+      params: [
+        TASK_ID,
+        { name: 'targetFaceCount', type: 'integer', min: 1 },
+        { name: 'quad', type: 'boolean', default: false },
+        { name: 'bake', type: 'boolean', default: true }
+      ],
+      options: [{ name: 'model_version', type: 'string' }, { name: 'part_names', type: 'string[]' }],
+      source: 'taskId',
+      output: 'model',
+      outputFormats: ['glb']
+    },
+    [TaskType.CONVERT]: {
+      type: TaskType.CONVERT,
+      params: [
+        TASK_ID,
+        { name: 'format', type: 'enum', required: true, values: ['gltf', 'usdz', 'fbx', 'obj', 'stl', '3mf'] },
+        { name: 'quad', type: 'boolean', default: false },
+        { name: 'faceLimit', type: 'integer', min: 1 },
+        { name: 'textureSize', type: 'integer', min: 1 },
+        { name: 'scaleFactor', type: 'number', default: 1 }
+      ],
+      options: [
+        { name: 'force_symmetry', type: 'boolean', default: false },
+        { name: 'flatten_bottom', type: 'boolean', default: false },
+        { name: 'flatten_bottom_threshold', type: 'number', default: 0.01 },
+        { name: 'texture_format', type: 'enum', values: ['JPEG', 'PNG', 'BMP', 'TIFF', 'WEBP'] },
+        { name: 'pivot_to_center_bottom', type: 'boolean', default: false },
+        { name: 'with_animation', type: 'boolean', default: true },
+        { name: 'pack_uv', type: 'boolean', default: false },
+        { name: 'export_vertex_colors', type: 'boolean', default: false },
+        { name: 'export_orientation', type: 'string', default: '+x' },
+        { name: 'fbx_preset', type: 'string' },
+        { name: 'bake', type: 'boolean', default: true }
+      ],
+      source: 'taskId',
+      output: 'model',
+      outputFormats: ['gltf', 'usdz', 'fbx', 'obj', 'stl', '3mf']
+    },
+    [TaskType.IMPORT]: {
+      type: TaskType.IMPORT,
+      params: [{ name: 'input', type: 'url', required: true, description: 'Model file URL or uploaded file token' }],
+      options: [],
+      output: 'model',
+      outputFormats: ['glb']
+    },
+    [TaskType.STYLIZE]: {
+      type: TaskType.STYLIZE,
+      params: [
+        TASK_ID,
+        { name: 'style', type: 'enum', required: true, values: ['lego', 'voxel', 'voronoi', 'minecraft'] }
+      ],
+      options: [{ name: 'block_size', type: 'integer', min: 32, max: 128, default: 80, description: 'Minecraft grid size' }],
+      source: 'taskId',
+      output: 'model',
+      outputFormats: ['glb']
+    }
+  },
+  [ProviderId.HUNYUAN]: {
+    [TaskType.TEXT_TO_3D]: {
+      type: TaskType.TEXT_TO_3D,
+      params: [PROMPT],
+      options: HUNYUAN_GENERATION_OPTIONS,
+      output: 'model',
+      outputFormats: ['glb', 'obj', 'fbx']
+    },
+    [TaskType.IMAGE_TO_3D]: {
+      type: TaskType.IMAGE_TO_3D,
+      params: [IMAGE],
+      options: HUNYUAN_GENERATION_OPTIONS,
+      output: 'model',
+      outputFormats: ['glb', 'obj', 'fbx']
+    },
+    [TaskType.MULTIVIEW_TO_3D]: {
+      type: TaskType.MULTIVIEW_TO_3D,
+      params: [{
+        name: 'inputs',
+        type: 'image[]',
+        required: true,
+        min: 1,
+        max: 4,
+        description: 'Front, left, back and right views (front required)'
+      }],
+      options: HUNYUAN_GENERATION_OPTIONS,
+      output: 'model',
+      outputFormats: ['glb', 'obj', 'fbx']
+    },
+    [TaskType.PROFILE_TO_3D]: {
+      type: TaskType.PROFILE_TO_3D,
+      params: [
+        { ...IMAGE, description: 'Face photo' },
+        { name: 'template', type: 'string', required: true, description: 'Character template' }
+      ],
+      options: [],
+      output: 'model',
+      outputFormats: ['glb', 'obj', 'fbx']
+    },
+    [TaskType.TEXTURE]: {
+      type: TaskType.TEXTURE,
+      params: [
+        MODEL_URL,
+        { name: 'prompt', type: 'string', description: 'Texture prompt' },
+        { name: 'styleImage', type: 'url', description: 'Style reference image URL' },
+        { name: 'enablePBR', type: 'boolean', default: false }
+      ],
+      options: [],
+      source: 'modelUrl',
+      output: 'model',
+      outputFormats: ['glb', 'obj', 'fbx']
+    },
+    [TaskType.DECIMATE]: {
+      type: TaskType.DECIMATE,
+      params: [MODEL_URL, { name: 'quad', type: 'boolean', default: false }],
+      options: [
+        { name: 'FaceLevel', type: 'enum', values: ['high', 'medium', 'low'] },
+        { name: 'PolygonType', type: 'enum', values: ['triangle', 'quadrilateral'], default: 'triangle' }
+      ],
+      source: 'modelUrl',
+      output: 'model',
+      outputFormats: ['glb', 'obj', 'fbx']
+    },
+    [TaskType.UV_UNWRAP]: {
+      type: TaskType.UV_UNWRAP,
+      params: [MODEL_URL],
+      options: [],
+      source: 'modelUrl',
+      output: 'model',
+      outputFormats: ['glb', 'obj', 'fbx']
+    },
+    [TaskType.SEGMENT]: {
+      type: TaskType.SEGMENT,
+      params: [MODEL_URL],
+      options: [],
+      source: 'modelUrl',
+      output: 'model',
+      outputFormats: ['glb', 'obj', 'fbx']
+    },
+    [TaskType.CONVERT]: {
+      type: TaskType.CONVERT,
+      params: [
+        { ...TASK_ID, type: 'url', description: 'Source model URL (passed as taskId)' },
+        { name: 'format', type: 'enum', required: true, values: ['stl', 'usdz', 'fbx'] }
+      ],
+      options: [],
+      source: 'modelUrl',
+      output: 'model',
+      outputFormats: ['stl', 'usdz', 'fbx']
+    }
+  },
+  [ProviderId.MESHY]: {
+    [TaskType.TEXT_TO_3D]: {
+      type: TaskType.TEXT_TO_3D,
+      params: [PROMPT, NEGATIVE_PROMPT],
+      options: [...MESHY_GENERATION_OPTIONS, { name: 'art_style', type: 'enum', values: ['realistic', 'sculpture'], default: 'realistic' }],
+      output: 'model',
+      outputFormats: MESHY_FORMATS
+    },
+    [TaskType.REFINE]: {
+      type: TaskType.REFINE,
+      params: [{ ...TASK_ID, description: 'Text-to-3D preview task ID' }],
+      options: [
+        { name: 'enable_pbr', type: 'boolean', default: false },
+        { name: 'texture_prompt', type: 'string', description: 'Texture guidance' },
+        { name: 'texture_image_url', type: 'url', description: 'Texture reference image' }
+      ],
+      source: 'taskId',
+      output: 'model',
+      outputFormats: MESHY_FORMATS
+    },
+    [TaskType.IMAGE_TO_3D]: {
+      type: TaskType.IMAGE_TO_3D,
+      params: [IMAGE],
+      options: MESHY_IMAGE_OPTIONS,
+      output: 'model',
+      outputFormats: MESHY_FORMATS
+    },
+    [TaskType.MULTIVIEW_TO_3D]: {
+      type: TaskType.MULTIVIEW_TO_3D,
+      params: [{
+        name: 'inputs',
+        type: 'image[]',
+        required: true,
+        min: 1,
+        max: 4,
+        description: 'Views of the same object'
+      }],
+      options: MESHY_IMAGE_OPTIONS,
+      output: 'model',
+      outputFormats: MESHY_FORMATS
+    },
+    [TaskType.TEXTURE]: {
+      type: TaskType.TEXTURE,
+      params: [
+        { ...TASK_ID, required: false },
+        { ...MODEL_URL, required: false },
+        { name: 'prompt', type: 'string', description: 'Texture prompt (or styleImage)' },
+        { name: 'styleImage', type: 'image', description: 'Style reference image (or prompt)' },
+        { name: 'enablePBR', type: 'boolean', default: false }
+      ],
+      options: [
+        { name: 'ai_model', type: 'enum', values: ['meshy-4', 'meshy-5', 'meshy-6', 'latest'], default: 'latest' },
+        { name: 'enable_original_uv', type: 'boolean', default: true }
+      ],
+      source: 'taskId',
+      output: 'model',
+      outputFormats: MESHY_FORMATS
+    },
+    [TaskType.DECIMATE]: {
+      type: TaskType.DECIMATE,
+      params: [
+        { ...TASK_ID, required: false },
+        { ...MODEL_URL, required: false },
+        { name: 'targetFaceCount', type: 'integer', min: 100, max: 300000 },
+        { name: 'quad', type: 'boolean', default: false }
+      ],
+      options: [
+        { name: 'target_formats', type: 'string[]', description: 'glb, fbx, obj, usdz, blend, stl' },
+        { name: 'resize_height', type: 'number', description: 'Height in meters' },
+        { name: 'origin_at', type: 'enum', values: ['bottom', 'center'] }
+      ],
+      source: 'taskId',
+      output: 'model',
+      outputFormats: MESHY_FORMATS
+    },
+    [TaskType.CONVERT]: {
+      type: TaskType.CONVERT,
+      params: [
+        TASK_ID,
+        { name: 'format', type: 'enum', required: true, values: ['glb', 'fbx', 'obj', 'usdz', 'stl'] },
+        { name: 'quad', type: 'boolean', default: false },
+        { name: 'faceLimit', type: 'integer', min: 100, max: 300000 }
+      ],
+      options: [
+        { name: 'resize_height', type: 'number', description: 'Height in meters' },
+        { name: 'origin_at', type: 'enum', values: ['bottom', 'center'] }
+      ],
+      source: 'taskId',
+      output: 'model',
+      outputFormats: MESHY_FORMATS
+    },
+    [TaskType.RIG]: {
+      type: TaskType.RIG,
+      params: [TASK_ID, { name: 'skeleton', type: 'enum', values: ['humanoid'], default: 'humanoid' }],
+      options: [
+        { name: 'height_meters', type: 'number', default: 1.7, description: 'Character height' },
+        { name: 'texture_image_url', type: 'url', description: 'Base color texture' }
+      ],
+      source: 'taskId',
+      output: 'model',
+      outputFormats: ['glb', 'fbx']
+    },
+    [TaskType.ANIMATE]: {
+      type: TaskType.ANIMATE,
+      params: [
+        { ...TASK_ID, description: 'Rigging task ID' },
+        { name: 'animation', type: 'string', required: true, description: 'Animation library action ID' }
+      ],
+      options: [],
+      source: 'taskId',
+      output: 'model',
+      outputFormats: ['glb', 'fbx', 'usdz']
+    }
+  },
+  [ProviderId.RODIN]: {
+    [TaskType.TEXT_TO_3D]: {
+      type: TaskType.TEXT_TO_3D,
+      params: [PROMPT],
+      options: RODIN_GENERATION_OPTIONS,
+      output: 'model',
+      outputFormats: RODIN_FORMATS
+    },
+    [TaskType.IMAGE_TO_3D]: {
+      type: TaskType.IMAGE_TO_3D,
+      params: [IMAGE],
+      options: [...RODIN_GENERATION_OPTIONS, { name: 'use_original_alpha', type: 'boolean', default: false }],
+      output: 'model',
+      outputFormats: RODIN_FORMATS
+    },
+    [TaskType.MULTIVIEW_TO_3D]: {
+      type: TaskType.MULTIVIEW_TO_3D,
+      params: [{
+        name: 'inputs',
+        type: 'image[]',
+        required: true,
+        min: 1,
+        max: 5,
+        description: 'Views of the same object (or several objects with condition_mode fuse)'
+      }],
+      options: [
+        ...RODIN_GENERATION_OPTIONS,
+        { name: 'condition_mode', type: 'enum', values: ['concat', 'fuse'], default: 'concat' },
+        { name: 'use_original_alpha', type: 'boolean', default: false }
+      ],
+      output: 'model',
+      outputFormats: RODIN_FORMATS
+    }
+  },
+  [ProviderId.STABILITY]: {
+    [TaskType.IMAGE_TO_3D]: {
+      type: TaskType.IMAGE_TO_3D,
+      params: [IMAGE],
+      options: [
+        { name: 'model', type: 'enum', values: ['stable-fast-3d', 'stable-point-aware-3d'], default: 'stable-fast-3d' },
+        { name: 'texture_resolution', type: 'integer', min: 512, max: 2048, default: 1024, description: '512, 1024 or 2048' },
+        { name: 'foreground_ratio', type: 'number', min: 0.1, max: 2 },
+        { name: 'remesh', type: 'enum', values: ['none', 'triangle', 'quad'], default: 'none' },
+        { name: 'vertex_count', type: 'integer', min: -1, max: 20000, default: -1, description: 'Stable Fast 3D only' },
+        { name: 'target_type', type: 'enum', values: ['none', 'vertex', 'face'], default: 'none', description: 'Stable Point Aware 3D only' },
+        { name: 'target_count', type: 'integer', min: 100, max: 20000, description: 'Stable Point Aware 3D only' },
+        { name: 'guidance_scale', type: 'number', min: 1, max: 10, default: 3, description: 'Stable Point Aware 3D only' },
+        { name: 'seed', type: 'integer', min: 0, description: 'Stable Point Aware 3D only' }
+      ],
+      output: 'model',
+      outputFormats: ['glb']
+    }
+  },
+  // Mock tasks ignore params and options
+  [ProviderId.MOCK]: {}
+};
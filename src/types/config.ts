@@ -4,6 +4,10 @@
  * @description Provider configuration type definitions
  */
 
+import type { TaskStore } from './store';
+import type { PricingTable } from './pricing';
+import type { ProviderId, TaskType } from './enums';
+
 /**
  * Base configuration interface for all providers.
  *
@@ -17,6 +21,73 @@ export interface ProviderConfig {
   timeout?: number;
   /** Maximum number of retries for failed requests (default: 3) */
   maxRetries?: number;
+  /** Backoff and retry decision overrides (see {@link RetryOptions}) */
+  retry?: RetryOptions;
+  /**
+   * Prices used by `estimateCost()`, replacing the provider's defaults
+   * per task type (see {@link PROVIDER_PRICING})
+   */
+  pricing?: Partial<PricingTable>;
+}
+
+/**
+ * Information passed to {@link RetryOptions.shouldRetry}.
+ */
+export interface RetryContext {
+  /** The error thrown by the failed request */
+  error: unknown;
+  /** Number of the retry about to be made (1-based) */
+  attempt: number;
+  /** Whether the request can be repeated safely (e.g., a status query) */
+  idempotent: boolean;
+  /** The SDK's default decision for this error */
+  retryable: boolean;
+}
+
+/**
+ * Information about a request that is about to be retried.
+ */
+export interface RetryInfo {
+  /** Number of the retry about to be made (1-based) */
+  attempt: number;
+  /** Delay before the retry, in milliseconds */
+  delay: number;
+  /** The error that triggered the retry */
+  error: unknown;
+}
+
+/**
+ * Retry behavior for provider HTTP requests.
+ *
+ * @remarks
+ * By default, requests are retried on rate limits, HTTP 5xx, `SERVER_ERROR` /
+ * `INTERNAL_ERROR` / `SERVICE_UNAVAILABLE` and connection resets. Timeouts are only retried for
+ * idempotent requests (status queries), since a timed-out submission may
+ * already have created a billed task.
+ *
+ * @example
+ * ```typescript
+ * const provider = new TripoProvider({
+ *   maxRetries: 5,
+ *   retry: {
+ *     baseDelay: 1000,
+ *     // Never retry submissions, whatever the error
+ *     shouldRetry: ({ idempotent, retryable }) => idempotent && retryable
+ *   }
+ * });
+ * ```
+ */
+export interface RetryOptions {
+  /** Initial backoff delay in milliseconds, doubled per retry (default: 500) */
+  baseDelay?: number;
+  /** Maximum backoff delay in milliseconds (default: 30000) */
+  maxDelay?: number;
+  /**
+   * Overrides the retry decision for a failed request.
+   * @param context - The error, attempt number and the default decision
+   * @returns `true` to retry, `false` to surface the error
+   */
+  shouldRetry?: (context: RetryContext) => boolean;
 }
 
 /**
@@ -59,6 +130,133 @@ export interface HunyuanConfig extends ProviderConfig {
   region?: string;
   /** Custom API endpoint */
   endpoint?: string;
+  /**
+   * Store for job metadata needed to query tasks later
+   * (default: a {@link MemoryTaskStore} private to the provider instance).
+   * Use a shared store to poll tasks across restarts and server instances.
+   */
+  taskStore?: TaskStore;
+}
+
+/**
+ * Configuration for Meshy provider.
+ * If apiKey is not provided, it will be read from MESHY_API_KEY environment variable.
+ * @see https://docs.meshy.ai/api
+ */
+export interface MeshyConfig extends ProviderConfig {
+  /** Meshy API key. Falls back to process.env.MESHY_API_KEY if not provided. */
+  apiKey?: string;
+  /** Custom API base URL (default: https://api.meshy.ai) */
+  baseUrl?: string;
+  /**
+   * Store for task metadata needed to query tasks later
+   * (default: a {@link MemoryTaskStore} private to the provider instance).
+   * Meshy queries tasks per endpoint, so the task type must be known.
+   * Use a shared store to poll tasks across restarts and server instances.
+   */
+  taskStore?: TaskStore;
+}
+
+/**
+ * Configuration for Rodin (Hyper3D) provider.
+ * If apiKey is not provided, it will be read from RODIN_API_KEY environment variable.
+ * @see https://developer.hyper3d.ai/api-specification/overview
+ */
+export interface RodinConfig extends ProviderConfig {
+  /** Rodin API key. Falls back to process.env.RODIN_API_KEY if not provided. */
+  apiKey?: string;
+  /** Custom API base URL (default: https://hyperhuman.deemos.com/api/v2) */
+  baseUrl?: string;
+  /**
+   * Store for task metadata needed to query tasks later
+   * (default: a {@link MemoryTaskStore} private to the provider instance).
+   * Rodin reports status by subscription key, which is recorded per task.
+   * Use a shared store to poll tasks across restarts and server instances.
+   */
+  taskStore?: TaskStore;
+}
+
+/**
+ * Configuration for Stability AI provider.
+ * If apiKey is not provided, it will be read from STABILITY_API_KEY environment variable.
+ * @see https://platform.stability.ai/docs/api-reference#tag/3D
+ */
+export interface StabilityConfig extends ProviderConfig {
+  /** Stability API key. Falls back to process.env.STABILITY_API_KEY if not provided. */
+  apiKey?: string;
+  /** Custom API base URL (default: https://api.stability.ai) */
+  baseUrl?: string;
+  /**
+   * Directory where generated GLB files are written. Results are then
+   * returned as `file://` URLs; without it they are returned as data URLs.
+   */
+  outputDir?: string;
+  /**
+   * Store for finished tasks until their status is read
+   * (default: a {@link MemoryTaskStore} private to the provider instance).
+   * Without `outputDir`, models stay in the creating provider instance
+   * until their status is first read, and other instances sharing the
+   * store cannot read them.
+   */
+  taskStore?: TaskStore;
 }
 
- 
+/**
+ * Time a {@link MockProvider} task spends in each state, in milliseconds.
+ */
+export interface MockDurations {
+  /** Time reported as `PENDING` (default: 1000) */
+  queued?: number;
+  /** Time reported as `PROCESSING`, with progress rising linearly (default: 3000) */
+  running?: number;
+}
+
+/**
+ * A failure injected by {@link MockProvider}.
+ *
+ * @example
+ * ```typescript
+ * // First submission is rate limited, then all rigging tasks fail
+ * failures: [
+ *   { code: 'RATE_LIMIT_EXCEEDED', stage: 'submit', times: 1 },
+ *   { code: 'GENERATION_FAILED', types: [TaskType.RIG] }
+ * ]
+ * ```
+ */
+export interface MockFailure {
+  /** SDK error code (e.g., `GENERATION_FAILED`, `INSUFFICIENT_CREDITS`) */
+  code: string;
+  /** Error message (default: derived from the code) */
+  message?: string;
+  /**
+   * When the failure happens:
+   * - `task` - the task runs, then ends as `FAILED` (default)
+   * - `submit` - `createTask()` throws an `ApiError`
+   */
+  stage?: 'submit' | 'task';
+  /** HTTP status of `submit` failures */
+  httpStatus?: number;
+  /** Task types the failure applies to (default: all) */
+  types?: TaskType[];
+  /** Number of matching submissions to fail (default: all) */
+  times?: number;
+}
+
+/**
+ * Configuration for the mock provider used in tests and local development.
+ */
+export interface MockConfig extends ProviderConfig {
+  /** Time spent in each state (default: 1s queued, 3s running) */
+  durations?: MockDurations;
+  /** Durations for specific task types, replacing `durations` for them */
+  typeDurations?: Partial<Record<TaskType, MockDurations>>;
+  /** Failures to inject; the first matching entry applies */
+  failures?: MockFailure[];
+  /** Provider reported in tasks (default: mock) */
+  providerId?: ProviderId;
+  /**
+   * Base URL of placeholder artifacts, served as `<artifactBaseUrl>/<taskId>.<ext>`
+   * (default: inline data URLs, which load without network access)
+   */
+  artifactBaseUrl?: string;
+}
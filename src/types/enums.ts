@@ -8,7 +8,12 @@
  */
 export enum ProviderId {
   TRIPO = 'tripo',
-  HUNYUAN = 'hunyuan'
+  HUNYUAN = 'hunyuan',
+  MESHY = 'meshy',
+  RODIN = 'rodin',
+  STABILITY = 'stability',
+  /** {@link MockProvider} tasks (tests and local development) */
+  MOCK = 'mock'
 }
 
 /**
@@ -32,7 +32,10 @@ export type {
   StylizeParams,
   ProfileTo3DParams,
   TripoOptions,
-  HunyuanOptions
+  HunyuanOptions,
+  MeshyOptions,
+  RodinOptions,
+  StabilityOptions
 } from './params';
 
 // Type guards
@@ -63,7 +66,15 @@ export {
 // Result types
 export type {
   StandardTask,
-  TaskArtifacts
+  TaskArtifacts,
+  TaskId,
+  TaskResult,
+  TypedTask,
+  ModelArtifacts,
+  ImageArtifacts,
+  PreRigCheckArtifacts,
+  ConvertArtifacts,
+  ConvertFormat
 } from './result';
 
 // Configuration types
@@ -71,7 +82,32 @@ export type {
   ProviderConfig,
   TripoConfig,
   HunyuanConfig,
+  MeshyConfig,
+  RodinConfig,
+  StabilityConfig,
+  MockConfig,
+  MockDurations,
+  MockFailure,
+  RetryOptions,
+  RetryContext,
+  RetryInfo,
 } from './config';
 
+// Store contract
+export type { TaskStore, TaskStoreSetOptions } from './store';
+
 // Provider metadata (static, for frontend)
 export { PROVIDERS, PROVIDER_TASK_TYPES } from './providers';
+
+// Pricing tables (static, for frontend)
+export { PROVIDER_PRICING } from './pricing';
+export type { PricingTable, TaskPricing, PriceModifier, CostEstimate } from './pricing';
+
+// Capability descriptions (static, for frontend)
+export { PROVIDER_CAPABILITIES } from './capabilities';
+export type {
+  CapabilityField,
+  CapabilityFieldType,
+  TaskCapability,
+  ProviderCapabilities
+} from './capabilities';
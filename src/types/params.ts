@@ -151,6 +151,120 @@ export interface HunyuanOptions {
   FaceLevel?: 'high' | 'medium' | 'low';
 }
 
+/**
+ * Meshy-specific generation options
+ * @see https://docs.meshy.ai/api
+ */
+export interface MeshyOptions {
+  /** Model version (default: latest) */
+  ai_model?: 'meshy-4' | 'meshy-5' | 'meshy-6' | 'latest';
+
+  // --- Generation options ---
+  /** Art style for text-to-3D previews */
+  art_style?: 'realistic' | 'sculpture';
+  /** Mesh topology */
+  topology?: 'quad' | 'triangle';
+  /** Target polygon count (100 - 300,000) */
+  target_polycount?: number;
+  /** Remesh the generated model (default: true) */
+  should_remesh?: boolean;
+  /** Symmetry behavior */
+  symmetry_mode?: 'off' | 'auto' | 'on';
+  /** Pose of generated characters */
+  pose_mode?: 'a-pose' | 't-pose' | '';
+  /** Random seed for reproducible geometry */
+  seed?: number;
+  /** Screen inputs for harmful content */
+  moderation?: boolean;
+
+  // --- Texture options ---
+  /** Generate textures for image-to-3D (default: true) */
+  should_texture?: boolean;
+  /** Generate PBR maps (metallic, roughness, normal) */
+  enable_pbr?: boolean;
+  /** Text guiding texturing */
+  texture_prompt?: string;
+  /** Image guiding texturing */
+  texture_image_url?: string;
+  /** Keep the original UVs when retexturing */
+  enable_original_uv?: boolean;
+
+  // --- Remesh options ---
+  /** Formats produced by remeshing (default: all) */
+  target_formats?: Array<'glb' | 'fbx' | 'obj' | 'usdz' | 'blend' | 'stl'>;
+  /** Resize the model to this height in meters */
+  resize_height?: number;
+  /** Origin placement */
+  origin_at?: 'bottom' | 'center';
+
+  // --- Rigging and animation options ---
+  /** Character height in meters, for rigging (default: 1.7) */
+  height_meters?: number;
+  /** Post-processing of animations */
+  post_process?: {
+    operation_type: 'change_fps' | 'fbx2usdz' | 'extract_armature';
+    fps?: 24 | 25 | 30 | 60;
+  };
+}
+
+/**
+ * Rodin (Hyper3D) generation options
+ * @see https://developer.hyper3d.ai/api-specification/rodin-generation
+ */
+export interface RodinOptions {
+  /** Generation tier (default: Regular) */
+  tier?: 'Regular' | 'Sketch' | 'Detail' | 'Smooth' | 'Gen-2';
+  /** Mesh quality preset (default: medium) */
+  quality?: 'high' | 'medium' | 'low' | 'extra-low';
+  /** Exact face count, overriding `quality` */
+  quality_override?: number;
+  /** Mesh topology (default: Quad) */
+  mesh_mode?: 'Raw' | 'Quad';
+  /** Material type; `All` returns both PBR and shaded models (default: PBR) */
+  material?: 'PBR' | 'Shaded' | 'All';
+  /** Output model format (default: glb) */
+  geometry_file_format?: 'glb' | 'usdz' | 'fbx' | 'obj' | 'stl';
+  /** Multi-image mode: `concat` for views of one object, `fuse` to merge objects */
+  condition_mode?: 'concat' | 'fuse';
+  /** Random seed (0-65535) */
+  seed?: number;
+  /** Generate characters in T/A pose */
+  TAPose?: boolean;
+  /** Bounding box [width, height, length] */
+  bbox_condition?: number[];
+  /** Paid add-ons (e.g., `HighPack` for 4K textures and more faces) */
+  addons?: Array<'HighPack'>;
+  /** Render a preview image */
+  preview_render?: boolean;
+  /** Keep the alpha channel of input images */
+  use_original_alpha?: boolean;
+}
+
+/**
+ * Stability AI image-to-3D options
+ * @see https://platform.stability.ai/docs/api-reference#tag/3D
+ */
+export interface StabilityOptions {
+  /** Model endpoint (default: stable-fast-3d) */
+  model?: 'stable-fast-3d' | 'stable-point-aware-3d';
+  /** Texture size in pixels (default: 1024) */
+  texture_resolution?: 512 | 1024 | 2048;
+  /** Share of the image taken by the object (default: 0.85 for fast-3d, 1.3 for point-aware-3d) */
+  foreground_ratio?: number;
+  /** Remeshing algorithm (default: none) */
+  remesh?: 'none' | 'triangle' | 'quad';
+  /** Stable Fast 3D: target vertex count (-1 for no limit) */
+  vertex_count?: number;
+  /** Stable Point Aware 3D: what `target_count` limits (default: none) */
+  target_type?: 'none' | 'vertex' | 'face';
+  /** Stable Point Aware 3D: target vertex or face count */
+  target_count?: number;
+  /** Stable Point Aware 3D: guidance scale for point cloud generation (1-10) */
+  guidance_scale?: number;
+  /** Stable Point Aware 3D: random seed */
+  seed?: number;
+}
+
 // ============================================
 // Base task params interface
 // ============================================
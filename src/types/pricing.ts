@@ -0,0 +1,240 @@
+/**
+ * @module types/pricing
+ * @description Pricing tables used for pre-flight cost estimates
+ */
+
+import { ProviderId, TaskType } from './enums';
+
+// ============================================
+// Pricing types
+// ============================================
+
+/**
+ * Adjusts a task's price when a param or provider option matches.
+ *
+ * @remarks
+ * The field is looked up in `providerOptions` first, then in the task
+ * params. A modifier applies when the value:
+ * - equals `equals`, if set
+ * - is at least `atLeast`, if set (numeric fields)
+ * - is `true`, if neither is set
+ *
+ * Unset fields never match, so surcharges for provider defaults belong in
+ * the base price (use a negative `amount` for opting out, e.g.
+ * `texture: false`).
+ *
+ * @example
+ * ```typescript
+ * // +10 credits for detailed textures
+ * { field: 'texture_quality', equals: 'detailed', amount: 10 }
+ *
+ * // +10 credits for 500k faces or more
+ * { field: 'FaceCount', atLeast: 500000, amount: 10 }
+ * ```
+ */
+export interface PriceModifier {
+  /** Key in `providerOptions` or in the task params */
+  field: string;
+  /** Value the field must equal */
+  equals?: string | number | boolean;
+  /** Minimum value of a numeric field */
+  atLeast?: number;
+  /** Amount added to the price (negative for discounts) */
+  amount: number;
+  /** Label shown in the estimate breakdown (default: derived from the condition) */
+  label?: string;
+}
+
+/**
+ * Price of one task type.
+ */
+export interface TaskPricing {
+  /** Price with the provider's default options */
+  base: number;
+  /** Adjustments for params and options, applied in order */
+  modifiers?: readonly PriceModifier[];
+}
+
+/**
+ * Prices of a provider's task types.
+ */
+export interface PricingTable {
+  /** Unit of all amounts (e.g., `credits`, `USD`) */
+  unit: string;
+  /** Prices keyed by task type */
+  tasks: Partial<Record<TaskType, TaskPricing>>;
+}
+
+/**
+ * Expected cost of a task.
+ */
+export interface CostEstimate {
+  /** Name of the provider that would run the task (e.g., 'Tripo') */
+  provider: string;
+  /** The task type */
+  type: TaskType;
+  /** Total expected cost (never negative) */
+  amount: number;
+  /** Unit of `amount` (e.g., `credits`) */
+  unit: string;
+  /** Base price and each applied modifier */
+  breakdown: Array<{ label: string; amount: number }>;
+}
+
+// ============================================
+// Default pricing
+// ============================================
+
+/**
+ * Tripo model generation (PBR is included in the textured price).
+ * @internal
+ */
+const TRIPO_GENERATION: TaskPricing = {
+  base: 20,
+  modifiers: [
+    { field: 'texture', equals: false, amount: -10, label: 'no texture' },
+    { field: 'texture_quality', equals: 'detailed', amount: 10 },
+    { field: 'geometry_quality', equals: 'detailed', amount: 20 },
+    { field: 'quad', amount: 5 },
+    { field: 'smart_low_poly', amount: 10 },
+    { field: 'generate_parts', amount: 20 }
+  ]
+};
+
+/**
+ * Hunyuan model generation.
+ * @internal
+ */
+const HUNYUAN_GENERATION: TaskPricing = {
+  base: 20,
+  modifiers: [
+    { field: 'EnablePBR', amount: 10 },
+    { field: 'FaceCount', atLeast: 500000, amount: 10 },
+    { field: 'GenerateType', equals: 'Geometry', amount: -5 },
+    { field: 'GenerateType', equals: 'LowPoly', amount: 5 },
+    { field: 'PolygonType', equals: 'quadrilateral', amount: 5 }
+  ]
+};
+
+/**
+ * Meshy image-based generation (textured unless `should_texture` is false).
+ * @internal
+ */
+const MESHY_IMAGE_GENERATION: TaskPricing = {
+  base: 30,
+  modifiers: [{ field: 'should_texture', equals: false, amount: -10, label: 'no texture' }]
+};
+
+/**
+ * Rodin generation. The `HighPack` add-on is not included, since
+ * modifiers cannot match array options.
+ * @internal
+ */
+const RODIN_GENERATION: TaskPricing = {
+  base: 0.5,
+  modifiers: [{ field: 'tier', equals: 'Gen-2', amount: 0.5 }]
+};
+
+/**
+ * List prices of the built-in providers, used by
+ * `provider.estimateCost()` unless overridden with
+ * {@link ProviderConfig.pricing}.
+ *
+ * @remarks
+ * Prices change and differ per plan; treat these as indicative and
+ * override them with your account's prices for billing decisions.
+ *
+ * @example
+ * ```typescript
+ * import { PROVIDER_PRICING, ProviderId, TaskType } from 'magi-3d/react';
+ *
+ * PROVIDER_PRICING[ProviderId.TRIPO].tasks[TaskType.RIG]?.base; // => 25
+ * ```
+ */
+export const PROVIDER_PRICING: Record<ProviderId, PricingTable> = {
+  [ProviderId.TRIPO]: {
+    unit: 'credits',
+    tasks: {
+      [TaskType.TEXT_TO_3D]: TRIPO_GENERATION,
+      [TaskType.IMAGE_TO_3D]: TRIPO_GENERATION,
+      [TaskType.MULTIVIEW_TO_3D]: TRIPO_GENERATION,
+      [TaskType.TEXT_TO_IMAGE]: { base: 5 },
+      [TaskType.GENERATE_IMAGE]: { base: 5 },
+      [TaskType.TEXTURE]: {
+        base: 10,
+        modifiers: [{ field: 'texture_quality', equals: 'detailed', amount: 10 }]
+      },
+      [TaskType.REFINE]: { base: 30 },
+      [TaskType.PRE_RIG_CHECK]: { base: 0 },
+      [TaskType.RIG]: { base: 25 },
+      [TaskType.ANIMATE]: { base: 10 },
+      [TaskType.SEGMENT]: { base: 40 },
+      [TaskType.MESH_COMPLETION]: { base: 50 },
+      [TaskType.DECIMATE]: {
+        base: 10,
+        modifiers: [{ field: 'quad', amount: 5 }]
+      },
+      [TaskType.CONVERT]: {
+        base: 5,
+        modifiers: [{ field: 'quad', amount: 5 }]
+      },
+      [TaskType.IMPORT]: { base: 0 },
+      [TaskType.STYLIZE]: { base: 20 }
+    }
+  },
+  [ProviderId.HUNYUAN]: {
+    unit: 'credits',
+    tasks: {
+      [TaskType.TEXT_TO_3D]: HUNYUAN_GENERATION,
+      [TaskType.IMAGE_TO_3D]: HUNYUAN_GENERATION,
+      [TaskType.MULTIVIEW_TO_3D]: HUNYUAN_GENERATION,
+      [TaskType.PROFILE_TO_3D]: { base: 20 },
+      [TaskType.TEXTURE]: {
+        base: 10,
+        modifiers: [{ field: 'enablePBR', amount: 10 }]
+      },
+      [TaskType.DECIMATE]: {
+        base: 5,
+        modifiers: [{ field: 'quad', amount: 5 }]
+      },
+      [TaskType.UV_UNWRAP]: { base: 5 },
+      [TaskType.SEGMENT]: { base: 10 },
+      [TaskType.CONVERT]: { base: 0 }
+    }
+  },
+  [ProviderId.MESHY]: {
+    unit: 'credits',
+    tasks: {
+      [TaskType.TEXT_TO_3D]: { base: 20 },
+      [TaskType.REFINE]: { base: 10 },
+      [TaskType.IMAGE_TO_3D]: MESHY_IMAGE_GENERATION,
+      [TaskType.MULTIVIEW_TO_3D]: MESHY_IMAGE_GENERATION,
+      [TaskType.TEXTURE]: { base: 10 },
+      [TaskType.DECIMATE]: { base: 5 },
+      [TaskType.CONVERT]: { base: 5 },
+      [TaskType.RIG]: { base: 5 },
+      [TaskType.ANIMATE]: { base: 3 }
+    }
+  },
+  [ProviderId.RODIN]: {
+    unit: 'credits',
+    tasks: {
+      [TaskType.TEXT_TO_3D]: RODIN_GENERATION,
+      [TaskType.IMAGE_TO_3D]: RODIN_GENERATION,
+      [TaskType.MULTIVIEW_TO_3D]: RODIN_GENERATION
+    }
+  },
+  [ProviderId.STABILITY]: {
+    unit: 'credits',
+    tasks: {
+      [TaskType.IMAGE_TO_3D]: {
+        base: 2,
+        modifiers: [{ field: 'model', equals: 'stable-point-aware-3d', amount: 2 }]
+      }
+    }
+  },
+  [ProviderId.MOCK]: {
+    unit: 'credits',
+    tasks: {}
+  }
+};
@@ -6,7 +6,7 @@
 import { ProviderId, TaskType } from './enums';
 
 /**
- * List of all available provider IDs.
+ * List of all available provider IDs, except {@link ProviderId.MOCK}.
  * Use this to populate provider selection UI.
  *
  * @example
@@ -22,7 +22,7 @@ import { ProviderId, TaskType } from './enums';
  * }
  * ```
  */
-export const PROVIDERS = [ProviderId.TRIPO, ProviderId.HUNYUAN] as const;
+export const PROVIDERS = [ProviderId.TRIPO, ProviderId.HUNYUAN, ProviderId.MESHY, ProviderId.RODIN, ProviderId.STABILITY] as const;
 
 /**
  * Mapping of provider IDs to their supported task types.
@@ -65,5 +65,25 @@ export const PROVIDER_TASK_TYPES: Record<ProviderId, readonly TaskType[]> = {
     TaskType.UV_UNWRAP,
     TaskType.SEGMENT,
     TaskType.CONVERT
-  ]
+  ],
+  [ProviderId.MESHY]: [
+    TaskType.TEXT_TO_3D,
+    TaskType.REFINE,
+    TaskType.IMAGE_TO_3D,
+    TaskType.MULTIVIEW_TO_3D,
+    TaskType.TEXTURE,
+    TaskType.DECIMATE,
+    TaskType.CONVERT,
+    TaskType.RIG,
+    TaskType.ANIMATE
+  ],
+  [ProviderId.RODIN]: [
+    TaskType.TEXT_TO_3D,
+    TaskType.IMAGE_TO_3D,
+    TaskType.MULTIVIEW_TO_3D
+  ],
+  [ProviderId.STABILITY]: [
+    TaskType.IMAGE_TO_3D
+  ],
+  [ProviderId.MOCK]: Object.values(TaskType)
 } as const;
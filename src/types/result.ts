@@ -4,6 +4,13 @@
  */
 
 import { TaskStatus, TaskType, ProviderId, RemoteUrl } from './enums';
+import type {
+  TaskParams,
+  ConvertParams,
+  PreRigCheckParams,
+  TextToImageParams,
+  GenerateImageParams
+} from './params';
 
 /**
  * Standard output artifacts from a 3D generation or post-processing task.
@@ -68,8 +75,11 @@ export interface TaskArtifacts {
 export interface StandardTask {
   /** Unique task identifier */
   id: string;
-  /** Provider that processed this task */
-  provider: ProviderId;
+  /**
+   * Provider that processed this task: a built-in {@link ProviderId}, or the
+   * `id` of a provider created with `defineProvider()`
+   */
+  provider: ProviderId | (string & {});
   /** Type of task */
   type: TaskType;
 
@@ -79,6 +89,11 @@ export interface StandardTask {
   progress: number;
   /** Progress detail message (e.g., "Meshing...") */
   progressDetail?: string;
+  /**
+   * Provider's estimate of the time until completion, in milliseconds
+   * (when reported). Used by adaptive polling.
+   */
+  estimatedTimeRemaining?: number;
 
   /** Output artifacts (present on success) */
   result?: TaskArtifacts;
@@ -101,3 +116,125 @@ export interface StandardTask {
    */
   rawResponse?: unknown;
 }
+
+// ============================================
+// Typed results
+// ============================================
+
+/**
+ * Artifacts of tasks that output a 3D model (generation, texturing,
+ * rigging, mesh operations, ...).
+ */
+export type ModelArtifacts = Pick<
+  TaskArtifacts,
+  'model' | 'modelGlb' | 'modelPbr' | 'modelBase' | 'modelUsdz' | 'modelFbx' | 'modelObj' | 'thumbnail' | 'video' | 'textureMaps'
+>;
+
+/**
+ * Artifacts of {@link TaskType.TEXT_TO_IMAGE} and {@link TaskType.GENERATE_IMAGE} tasks.
+ */
+export interface ImageArtifacts {
+  /** Generated image URL */
+  generatedImage: RemoteUrl;
+  /** Preview image URL (if returned) */
+  thumbnail?: RemoteUrl;
+}
+
+/**
+ * Artifacts of {@link TaskType.PRE_RIG_CHECK} tasks.
+ */
+export interface PreRigCheckArtifacts {
+  /** Whether the model can be rigged */
+  riggable: boolean;
+  /** Detected rig type (e.g., 'biped') */
+  rigType?: string;
+}
+
+/** Target formats of {@link TaskType.CONVERT} tasks */
+export type ConvertFormat = ConvertParams['format'];
+
+/**
+ * Format-specific model field per conversion format.
+ * @internal
+ */
+interface ConvertFormatArtifacts {
+  glb: { modelGlb?: RemoteUrl };
+  gltf: {};
+  fbx: { modelFbx?: RemoteUrl };
+  obj: { modelObj?: RemoteUrl };
+  usdz: { modelUsdz?: RemoteUrl };
+  stl: {};
+  '3mf': {};
+}
+
+/**
+ * Artifacts of {@link TaskType.CONVERT} tasks.
+ *
+ * @typeParam F - Requested format; only the matching format field exists
+ */
+export type ConvertArtifacts<F extends ConvertFormat = ConvertFormat> = {
+  /** Converted model URL, in the requested format */
+  model: RemoteUrl;
+} & ConvertFormatArtifacts[F];
+
+/**
+ * Result artifacts of a specific task params variant.
+ * @internal
+ */
+type ArtifactsOf<P> =
+  P extends PreRigCheckParams ? PreRigCheckArtifacts
+  : P extends TextToImageParams | GenerateImageParams ? ImageArtifacts
+  : P extends ConvertParams ? ConvertArtifacts<P['format']>
+  : ModelArtifacts;
+
+/**
+ * Result artifacts for a task params type.
+ *
+ * @remarks
+ * Ties a {@link TaskParams} variant to the fields its result actually has,
+ * so reading a field that is never set (e.g., `modelGlb` of a pre-rig
+ * check) is a compile error. The wide `TaskParams` union maps to the loose
+ * {@link TaskArtifacts}.
+ *
+ * @example
+ * ```typescript
+ * type A = TaskResult<PreRigCheckParams>;              // { riggable: boolean; rigType?: string }
+ * type B = TaskResult<ConvertParams & { format: 'fbx' }>; // { model: string; modelFbx?: string }
+ * type C = TaskResult;                                 // TaskArtifacts
+ * ```
+ */
+export type TaskResult<P extends TaskParams = TaskParams> =
+  [TaskParams] extends [P] ? TaskArtifacts : ArtifactsOf<P>;
+
+/**
+ * A {@link StandardTask} whose `type` and `result` are narrowed to a task
+ * params type.
+ *
+ * @remarks
+ * Returned by {@link Magi3DClient} methods when the task ID came from
+ * `createTask()` (see {@link TaskId}). For plain string IDs it is
+ * equivalent to `StandardTask`.
+ */
+export type TypedTask<P extends TaskParams = TaskParams> = Omit<StandardTask, 'type' | 'result'> & {
+  /** Type of task */
+  type: P['type'];
+  /** Output artifacts (present on success) */
+  result?: TaskResult<P>;
+};
+
+/**
+ * Type-only marker carrying the params type of a task ID.
+ * @internal
+ */
+declare const taskParams: unique symbol;
+
+/**
+ * Task ID returned by `createTask()`, remembering the params it was
+ * created with.
+ *
+ * @remarks
+ * At runtime this is a plain string; the params type exists only for
+ * TypeScript. Plain strings are accepted wherever a `TaskId` is, and then
+ * give untyped results.
+ */
+export type TaskId<P extends TaskParams = TaskParams> = string & { readonly [taskParams]?: P };
@@ -0,0 +1,129 @@
+/**
+ * @module types/store
+ * @description Key-value store contract for persisting SDK state
+ */
+
+/**
+ * Options for {@link TaskStore.set}.
+ */
+export interface TaskStoreSetOptions {
+  /** Time to live in milliseconds. Omit to keep the entry until deleted. */
+  ttl?: number;
+}
+
+/**
+ * Asynchronous key-value store for state that must outlive a process.
+ *
+ * @remarks
+ * Providers use a task store to remember what they need to query a task
+ * later (e.g., the Hunyuan query action for a job), so a task created on one
+ * server instance can be polled from another or after a restart.
+ *
+ * The SDK ships {@link MemoryTaskStore} (default, single process) and
+ * {@link FileTaskStore} (single host). To back it with Redis, a database or
+ * a KV service, implement this interface. Adapters must honor this contract:
+ *
+ * - **Values** are JSON-serializable. `get` returns a value structurally
+ *   equal to what was passed to `set` (a JSON round-trip is fine).
+ * - **Keys** are opaque strings namespaced by the SDK (e.g.,
+ *   `hunyuan:task:<jobId>`); store them verbatim.
+ * - **TTL** is in milliseconds. Once it has elapsed, `get` must return
+ *   `undefined`. Expired entries may be evicted lazily.
+ * - **Missing keys** resolve `get` to `undefined` and `delete` to a no-op;
+ *   they must not reject.
+ * - **Errors** (connection failures, etc.) should reject; the SDK surfaces
+ *   them to the caller unchanged.
+ *
+ * @example
+ * ```typescript
+ * import type { TaskStore } from 'magi-3d/server';
+ * import Redis from 'ioredis';
+ *
+ * const redis = new Redis(process.env.REDIS_URL);
+ *
+ * const redisStore: TaskStore = {
+ *   async get(key) {
+ *     const value = await redis.get(key);
+ *     return value === null ? undefined : JSON.parse(value);
+ *   },
+ *   async set(key, value, options) {
+ *     const json = JSON.stringify(value);
+ *     if (options?.ttl) {
+ *       await redis.set(key, json, 'PX', options.ttl);
+ *     } else {
+ *       await redis.set(key, json);
+ *     }
+ *   },
+ *   async setIfAbsent(key, value, options) {
+ *     const json = JSON.stringify(value);
+ *     const result = options?.ttl
+ *       ? await redis.set(key, json, 'PX', options.ttl, 'NX')
+ *       : await redis.set(key, json, 'NX');
+ *     return result === 'OK';
+ *   },
+ *   async delete(key) {
+ *     await redis.del(key);
+ *   },
+ *   async keys(prefix) {
+ *     const keys: string[] = [];
+ *     for await (const batch of redis.scanStream({ match: `${prefix}*` })) {
+ *       keys.push(...batch);
+ *     }
+ *     return keys;
+ *   }
+ * };
+ *
+ * const provider = new HunyuanProvider({ taskStore: redisStore });
+ * ```
+ */
+export interface TaskStore {
+  /**
+   * Reads a value.
+   * @param key - Entry key
+   * @returns The stored value, or `undefined` if missing or expired
+   */
+  get<T = unknown>(key: string): Promise<T | undefined>;
+
+  /**
+   * Writes a value, replacing any existing entry.
+   * @param key - Entry key
+   * @param value - JSON-serializable value
+   * @param options - Expiry options
+   */
+  set<T = unknown>(key: string, value: T, options?: TaskStoreSetOptions): Promise<void>;
+
+  /**
+   * Writes a value only if the key has no unexpired entry, atomically
+   * (e.g., Redis `SET key value NX PX ttl`).
+   *
+   * @remarks
+   * Optional. {@link Magi3DClient} uses it to reserve idempotency keys, so
+   * processes racing on the same key submit only one task. Without it,
+   * keys are only deduplicated reliably within one process.
+   *
+   * @param key - Entry key
+   * @param value - JSON-serializable value
+   * @param options - Expiry options
+   * @returns `true` if the value was written, `false` if the key was taken
+   */
+  setIfAbsent?<T = unknown>(key: string, value: T, options?: TaskStoreSetOptions): Promise<boolean>;
+
+  /**
+   * Removes a value.
+   * @param key - Entry key
+   */
+  delete(key: string): Promise<void>;
+
+  /**
+   * Lists the keys of unexpired entries starting with a prefix
+   * (e.g., Redis `SCAN` with `MATCH <prefix>*`).
+   *
+   * @remarks
+   * Optional. Needed by {@link Magi3DClient.resumePending} to find
+   * polling checkpoints.
+   *
+   * @param prefix - Key prefix
+   * @returns Matching keys, in any order
+   */
+  keys?(prefix: string): Promise<string[]>;
+}
@@ -0,0 +1,64 @@
+/**
+ * @module utils/abort
+ * @description Helpers for cooperative cancellation with AbortSignal
+ */
+
+/**
+ * Creates the error thrown when an operation is aborted.
+ *
+ * @remarks
+ * If the signal was aborted with an `Error` reason (the default for
+ * `AbortController.abort()` in Node.js 17.2+ and browsers), that reason is
+ * returned as-is. Otherwise a new `Error` named `AbortError` is created.
+ *
+ * @param signal - The aborted signal
+ * @returns Error describing the abort
+ */
+export function createAbortError(signal?: AbortSignal): Error {
+  if (signal?.reason instanceof Error) {
+    return signal.reason;
+  }
+  const error = new Error('The operation was aborted');
+  error.name = 'AbortError';
+  return error;
+}
+
+/**
+ * Throws the abort error if the signal has already been aborted.
+ *
+ * @param signal - Optional signal to check
+ * @throws Error named `AbortError` (or the signal's reason) if aborted
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw createAbortError(signal);
+  }
+}
+
+/**
+ * Waits for the given duration, rejecting early if the signal is aborted.
+ *
+ * @param ms - Delay in milliseconds
+ * @param signal - Optional signal that cancels the wait
+ * @returns Promise resolving after the delay
+ * @throws Error named `AbortError` (or the signal's reason) if aborted
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      return reject(createAbortError(signal));
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError(signal));
+    };
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,146 @@
+/**
+ * @module utils/errors
+ * @description Helpers for classifying provider errors
+ */
+
+/**
+ * SDK error codes that indicate the provider rejected a request because of
+ * rate limiting (Tripo code 2000, Tencent Cloud `RequestLimitExceeded*`).
+ */
+export const RATE_LIMIT_ERROR_CODES: readonly string[] = [
+  'RATE_LIMIT_EXCEEDED',
+  'IP_RATE_LIMIT_EXCEEDED',
+  'ACCOUNT_RATE_LIMIT_EXCEEDED'
+];
+
+/**
+ * Reads the SDK error code from an error, if present.
+ * @internal
+ */
+export function getErrorCode(error: unknown): string | undefined {
+  if (error && typeof error === 'object' && 'code' in error) {
+    const { code } = error as { code: unknown };
+    return typeof code === 'string' ? code : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * SDK error codes for provider-side server failures (Tripo code 1000,
+ * Tencent Cloud `InternalError` and `ServiceUnavailable`).
+ */
+export const SERVER_ERROR_CODES: readonly string[] = ['SERVER_ERROR', 'INTERNAL_ERROR', 'SERVICE_UNAVAILABLE'];
+
+/**
+ * Node.js socket error codes where the connection dropped before a response.
+ * @internal
+ */
+const CONNECTION_ERROR_CODES: readonly string[] = ['ECONNRESET', 'ECONNREFUSED', 'EPIPE', 'EAI_AGAIN'];
+
+/**
+ * Socket and axios error codes for requests that timed out.
+ * @internal
+ */
+const TIMEOUT_ERROR_CODES: readonly string[] = ['ETIMEDOUT', 'ECONNABORTED'];
+
+/**
+ * Reads the HTTP status from an error, if present.
+ *
+ * @remarks
+ * Reads `httpStatus` from {@link ApiError} and `response.status` from
+ * axios errors that were not converted.
+ * @internal
+ */
+export function getHttpStatus(error: unknown): number | undefined {
+  if (!error || typeof error !== 'object') {
+    return undefined;
+  }
+  const { httpStatus, response } = error as { httpStatus?: unknown; response?: { status?: unknown } };
+  if (typeof httpStatus === 'number') {
+    return httpStatus;
+  }
+  return typeof response?.status === 'number' ? response.status : undefined;
+}
+
+/**
+ * Reads a server retry hint in milliseconds from an error, if present.
+ *
+ * @remarks
+ * Reads `retryAfter` from {@link ApiError} and the `Retry-After` header from
+ * axios errors that were not converted.
+ * @internal
+ */
+export function getRetryAfter(error: unknown): number | undefined {
+  if (!error || typeof error !== 'object') {
+    return undefined;
+  }
+  const { retryAfter, response } = error as { retryAfter?: unknown; response?: { headers?: Record<string, unknown> } };
+  if (typeof retryAfter === 'number' && retryAfter >= 0) {
+    return retryAfter;
+  }
+  return parseRetryAfter(response?.headers?.['retry-after']);
+}
+
+/**
+ * Parses a `Retry-After` header value (seconds or HTTP date) to milliseconds.
+ *
+ * @param value - Header value
+ * @returns Delay in milliseconds, or `undefined` if absent or invalid
+ */
+export function parseRetryAfter(value: unknown): number | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (String(value).trim() !== '' && Number.isFinite(seconds)) {
+    return seconds >= 0 ? seconds * 1000 : undefined;
+  }
+
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Checks whether an error is a provider rate-limit rejection.
+ *
+ * @param error - Any thrown value (typically an {@link ApiError})
+ * @returns `true` for rate-limit error codes or HTTP 429
+ */
+export function isRateLimitError(error: unknown): boolean {
+  const code = getErrorCode(error);
+  return (code !== undefined && RATE_LIMIT_ERROR_CODES.includes(code)) || getHttpStatus(error) === 429;
+}
+
+/**
+ * Checks whether a failed request is worth retrying.
+ *
+ * @remarks
+ * Rate limits, HTTP 5xx, server error codes and dropped connections are
+ * transient. Timeouts are only treated as transient for idempotent requests,
+ * because a submission that timed out may still have created a task.
+ *
+ * @param error - Any thrown value (typically an {@link ApiError} or axios error)
+ * @param idempotent - Whether the request can be repeated safely
+ * @returns `true` if the request should be retried
+ */
+export function isTransientError(error: unknown, idempotent = false): boolean {
+  if (isRateLimitError(error)) {
+    return true;
+  }
+
+  const status = getHttpStatus(error);
+  if (status !== undefined && status >= 500) {
+    return true;
+  }
+
+  const code = getErrorCode(error);
+  if (code === undefined) {
+    return false;
+  }
+  return (
+    SERVER_ERROR_CODES.includes(code) ||
+    CONNECTION_ERROR_CODES.includes(code) ||
+    (idempotent && TIMEOUT_ERROR_CODES.includes(code))
+  );
+}
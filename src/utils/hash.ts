@@ -0,0 +1,63 @@
+/**
+ * @module utils/hash
+ * @description Stable, dependency-free hashing of JSON-like values
+ */
+
+/**
+ * Serializes a value to JSON with object keys sorted and `undefined`
+ * properties dropped, so equivalent objects serialize identically.
+ *
+ * @param value - JSON-like value (objects, arrays, primitives)
+ * @returns Canonical JSON string
+ *
+ * @example
+ * ```typescript
+ * stableStringify({ b: 1, a: undefined, c: [2, { y: 1, x: 0 }] });
+ * // => '{"b":1,"c":[2,{"x":0,"y":1}]}'
+ * ```
+ */
+export function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => (item === undefined ? 'null' : stableStringify(item))).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * 53-bit string hash (cyrb53).
+ * @internal
+ */
+function cyrb53(input: string, seed: number): number {
+  let h1 = 0xdeadbeef ^ seed;
+  let h2 = 0x41c6ce57 ^ seed;
+  for (let i = 0; i < input.length; i++) {
+    const ch = input.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return 4294967296 * (2097151 & h2) + (h1 >>> 0);
+}
+
+/**
+ * Hashes a value by its canonical JSON form.
+ *
+ * @remarks
+ * Not cryptographic: suitable for cache keys, not for integrity checks.
+ * Works in Node.js and browsers without `crypto`.
+ *
+ * @param value - JSON-like value
+ * @returns Hex digest (~106 bits)
+ */
+export function stableHash(value: unknown): string {
+  const input = stableStringify(value);
+  return cyrb53(input, 0).toString(16).padStart(14, '0') + cyrb53(input, 1).toString(16).padStart(14, '0');
+}
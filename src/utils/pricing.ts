@@ -0,0 +1,111 @@
+/**
+ * @module utils/pricing
+ * @description Cost estimation from pricing tables
+ */
+
+import { CostEstimate, PriceModifier, PricingTable, TaskParams } from '../types';
+
+/**
+ * Overrides parts of a pricing table.
+ *
+ * @param base - The default table
+ * @param override - Unit and/or task prices replacing those of `base`
+ *                   (task types are replaced whole, not merged)
+ * @returns The combined table
+ */
+export function mergePricing(base: PricingTable, override?: Partial<PricingTable>): PricingTable {
+  if (!override) {
+    return base;
+  }
+  return {
+    unit: override.unit ?? base.unit,
+    tasks: { ...base.tasks, ...override.tasks }
+  };
+}
+
+/**
+ * Estimates the cost of a task from a pricing table.
+ *
+ * @param provider - Name of the provider, reported in the estimate
+ * @param table - Prices of the provider's task types
+ * @param params - Task parameters
+ * @returns The estimate, or `undefined` if the table has no price for the task type
+ *
+ * @example
+ * ```typescript
+ * const estimate = estimateTaskCost('Hunyuan', PROVIDER_PRICING[ProviderId.HUNYUAN], {
+ *   type: TaskType.TEXT_TO_3D,
+ *   prompt: 'a cat',
+ *   providerOptions: { EnablePBR: true }
+ * });
+ * // => { amount: 30, unit: 'credits', breakdown: [{ label: 'base', amount: 20 }, { label: 'EnablePBR', amount: 10 }], ... }
+ * ```
+ */
+export function estimateTaskCost(
+  provider: string,
+  table: PricingTable,
+  params: TaskParams
+): CostEstimate | undefined {
+  const pricing = table.tasks[params.type];
+  if (!pricing) {
+    return undefined;
+  }
+
+  const breakdown = [{ label: 'base', amount: pricing.base }];
+  for (const modifier of pricing.modifiers ?? []) {
+    if (matches(modifier, getField(params, modifier.field))) {
+      breakdown.push({ label: modifier.label ?? describeModifier(modifier), amount: modifier.amount });
+    }
+  }
+
+  return {
+    provider,
+    type: params.type,
+    amount: Math.max(0, breakdown.reduce((sum, item) => sum + item.amount, 0)),
+    unit: table.unit,
+    breakdown
+  };
+}
+
+/**
+ * Reads a field from `providerOptions`, falling back to the task params.
+ * @internal
+ */
+function getField(params: TaskParams, field: string): unknown {
+  const options = params.providerOptions as Record<string, unknown> | undefined;
+  if (options && options[field] !== undefined) {
+    return options[field];
+  }
+  return (params as unknown as Record<string, unknown>)[field];
+}
+
+/**
+ * Checks a modifier's condition against a field value.
+ * @internal
+ */
+function matches(modifier: PriceModifier, value: unknown): boolean {
+  if (value === undefined) {
+    return false;
+  }
+  if (modifier.equals !== undefined && value !== modifier.equals) {
+    return false;
+  }
+  if (modifier.atLeast !== undefined && !(typeof value === 'number' && value >= modifier.atLeast)) {
+    return false;
+  }
+  return modifier.equals !== undefined || modifier.atLeast !== undefined || value === true;
+}
+
+/**
+ * Default breakdown label of a modifier.
+ * @internal
+ */
+function describeModifier(modifier: PriceModifier): string {
+  if (modifier.equals !== undefined) {
+    return `${modifier.field}=${modifier.equals}`;
+  }
+  if (modifier.atLeast !== undefined) {
+    return `${modifier.field}>=${modifier.atLeast}`;
+  }
+  return modifier.field;
+}
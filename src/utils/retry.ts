@@ -0,0 +1,91 @@
+/**
+ * @module utils/retry
+ * @description Retry with exponential backoff for provider HTTP requests
+ */
+
+import type { RetryInfo, RetryOptions } from '../types';
+import { sleep } from './abort';
+import { getRetryAfter, isRateLimitError, isTransientError } from './errors';
+
+/**
+ * Settings for a single {@link withRetry} call.
+ * @internal
+ */
+export interface RetryPolicy extends RetryOptions {
+  /** Maximum number of retries after the first attempt */
+  maxRetries: number;
+  /** Whether the request can be repeated safely */
+  idempotent: boolean;
+  /** Whether rate-limit errors are retried (default: `true`) */
+  retryRateLimits?: boolean;
+  /** Signal that stops retrying */
+  signal?: AbortSignal;
+  /** Called before each retry */
+  onRetry?: (info: RetryInfo) => void;
+}
+
+/** Default initial backoff delay */
+const DEFAULT_BASE_DELAY = 500;
+
+/** Default maximum backoff delay */
+const DEFAULT_MAX_DELAY = 30000;
+
+/**
+ * Computes the backoff before a retry.
+ *
+ * @remarks
+ * Uses exponential backoff with "equal jitter": half of the exponential delay
+ * is fixed and the other half is random, so concurrent clients spread out.
+ * A server `Retry-After` hint takes precedence.
+ *
+ * @param attempt - Retry number (1-based)
+ * @param error - The error that triggered the retry
+ * @param options - Backoff settings
+ * @returns Delay in milliseconds
+ */
+export function getRetryDelay(attempt: number, error: unknown, options: RetryOptions = {}): number {
+  const retryAfter = getRetryAfter(error);
+  if (retryAfter !== undefined) {
+    return retryAfter;
+  }
+
+  const baseDelay = options.baseDelay ?? DEFAULT_BASE_DELAY;
+  const maxDelay = options.maxDelay ?? DEFAULT_MAX_DELAY;
+  const exponential = Math.min(baseDelay * 2 ** (attempt - 1), maxDelay);
+  return exponential / 2 + Math.random() * (exponential / 2);
+}
+
+/**
+ * Runs a request, retrying transient failures with backoff.
+ *
+ * @param request - Function performing the request (called once per attempt)
+ * @param policy - Retry limit, idempotency and backoff settings
+ * @returns Promise resolving to the request result
+ *
+ * @throws The last error once retries are exhausted or the error is not retryable
+ * @throws Error named `AbortError` if `policy.signal` is aborted while waiting
+ */
+export async function withRetry<T>(request: () => Promise<T>, policy: RetryPolicy): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await request();
+    } catch (error) {
+      if (policy.signal?.aborted || attempt > policy.maxRetries) {
+        throw error;
+      }
+
+      const retryable = isTransientError(error, policy.idempotent) &&
+        (policy.retryRateLimits !== false || !isRateLimitError(error));
+      const shouldRetry = policy.shouldRetry
+        ? policy.shouldRetry({ error, attempt, idempotent: policy.idempotent, retryable })
+        : retryable;
+      if (!shouldRetry) {
+        throw error;
+      }
+
+      const delay = getRetryDelay(attempt, error, policy);
+      policy.onRetry?.({ attempt, delay, error });
+      await sleep(delay, policy.signal);
+    }
+  }
+}
@@ -24,6 +24,8 @@ export interface S3UploadParams {
   body: Buffer;
   /** AWS region (default: "us-west-2") */
   region?: string;
+  /** Optional signal that aborts the upload */
+  signal?: AbortSignal;
 }
 
 function sha256(data: string | Buffer): string {
@@ -48,7 +50,7 @@ export async function uploadToS3(params: S3UploadParams): Promise<void> {
   const {
     host, bucket, key,
     accessKeyId, secretAccessKey, sessionToken,
-    body
+    body, signal
   } = params;
   const region = params.region || 'us-west-2';
 
@@ -118,6 +120,7 @@ export async function uploadToS3(params: S3UploadParams): Promise<void> {
       'Authorization': authorization
     },
     maxBodyLength: Infinity,
-    maxContentLength: Infinity
+    maxContentLength: Infinity,
+    signal
   });
 }
@@ -1,31 +1,27 @@
 // tests/core/Magi3DClient.test.ts
-import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { Magi3DClient } from '../../src/core/Magi3DClient';
-import { AbstractProvider } from '../../src/core/AbstractProvider';
-import { StandardTask, TaskStatus, TaskType, ProviderId, TaskParams } from '../../src/types';
+import { describe, it, expect, expectTypeOf, vi, beforeEach } from 'vitest';
+import { Magi3DClient, ApiError, PollTimeoutError } from '../../src/core/Magi3DClient';
+import { BudgetExceededError } from '../../src/core/Budget';
+import { RequestOptions } from '../../src/core/AbstractProvider';
+import { MemoryTaskStore } from '../../src/stores/MemoryTaskStore';
+import { StandardTask, TaskStatus, TaskType, ProviderId, ProviderConfig, TaskParams } from '../../src/types';
+import { TestProvider } from '../helpers/providers';
 
 // Mock provider for testing
-class MockProvider extends AbstractProvider {
-  readonly name = 'Mock';
-
-  constructor(config: any) {
-    super(config);
+class MockProvider extends TestProvider {
+  constructor(config: ProviderConfig) {
     // Register supported task types for testing
-    this.supportedTaskTypes.add(TaskType.IMAGE_TO_3D);
-    this.supportedTaskTypes.add(TaskType.TEXT_TO_3D);
-    this.supportedTaskTypes.add(TaskType.CONVERT);
-    this.supportedTaskTypes.add(TaskType.RIG);
-  }
-
-  protected async prepareInput(input: any) {
-    return input;
-  }
-
-  protected async doCreateTask(params: TaskParams) {
-    return 'task-123';
+    super(config, [
+      TaskType.IMAGE_TO_3D,
+      TaskType.TEXT_TO_3D,
+      TaskType.CONVERT,
+      TaskType.RIG,
+      TaskType.PRE_RIG_CHECK,
+      TaskType.TEXT_TO_IMAGE
+    ]);
   }
 
-  async getTaskStatus(taskId: string): Promise<StandardTask> {
+  async getTaskStatus(taskId: string, _options?: RequestOptions): Promise<StandardTask> {
     return {
       id: taskId,
       provider: ProviderId.TRIPO,
@@ -40,6 +36,11 @@ class MockProvider extends AbstractProvider {
       createdAt: Date.now()
     };
   }
+
+  async cancelTask(taskId: string): Promise<void> {
+    if (taskId === 'task-running') return;
+    throw new ApiError('Mock does not support task cancellation', 'UNSUPPORTED');
+  }
 }
 
 describe('Magi3DClient', () => {
@@ -70,6 +71,28 @@ describe('Magi3DClient', () => {
       expect(taskId).toBe('task-123');
     });
 
+    it('should pass the abort signal to the provider', async () => {
+      const spy = vi.spyOn(provider, 'createTask');
+      const controller = new AbortController();
+      const params: TaskParams = { type: TaskType.TEXT_TO_3D, prompt: 'a cute cat' };
+
+      await client.createTask(params, { signal: controller.signal });
+
+      expect(spy).toHaveBeenCalledWith(params, expect.objectContaining({ signal: controller.signal }));
+    });
+
+    it('should reject when the signal is already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        client.createTask(
+          { type: TaskType.TEXT_TO_3D, prompt: 'a cute cat' },
+          { signal: controller.signal }
+        )
+      ).rejects.toMatchObject({ name: 'AbortError' });
+    });
+
     it('should create a post-processing task', async () => {
       const taskId = await client.createTask({
         type: TaskType.CONVERT,
@@ -79,6 +102,84 @@ describe('Magi3DClient', () => {
 
       expect(taskId).toBe('task-123');
     });
+
+    it('should retry rate-limited submissions when a queue is configured', async () => {
+      const queued = new Magi3DClient(provider, { queue: { rateLimitBackoff: 1 } });
+      const spy = vi.spyOn(provider, 'doCreateTask')
+        .mockRejectedValueOnce(new ApiError('Too many requests', 'RATE_LIMIT_EXCEEDED'));
+
+      const taskId = await queued.createTask({
+        type: TaskType.TEXT_TO_3D,
+        prompt: 'a cute cat'
+      });
+
+      expect(taskId).toBe('task-123');
+      expect(spy).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('rate-limit retries', () => {
+    // Provider whose submissions are always rate limited, retrying with withRetry
+    class RateLimitedProvider extends MockProvider {
+      attempts = 0;
+
+      async doCreateTask(_params: TaskParams, options?: RequestOptions) {
+        return this.withRetry(async () => {
+          this.attempts++;
+          throw new ApiError('Too many requests', 'RATE_LIMIT_EXCEEDED', undefined, 429);
+        }, options);
+      }
+    }
+
+    const queue = { maxRateLimitRetries: 2, rateLimitBackoff: 1 };
+    let limited: RateLimitedProvider;
+
+    beforeEach(() => {
+      limited = new RateLimitedProvider({ apiKey: 'test', maxRetries: 3, retry: { baseDelay: 1 } });
+    });
+
+    it('should retry rate limits in the provider without a queue', async () => {
+      await expect(new Magi3DClient(limited).createTask({ type: TaskType.TEXT_TO_3D, prompt: 'a cat' }))
+        .rejects.toMatchObject({ code: 'RATE_LIMIT_EXCEEDED' });
+
+      expect(limited.attempts).toBe(4);
+    });
+
+    it('should leave rate-limit retries to the queue when one is configured', async () => {
+      await expect(new Magi3DClient(limited, { queue }).createTask({ type: TaskType.TEXT_TO_3D, prompt: 'a cat' }))
+        .rejects.toMatchObject({ code: 'RATE_LIMIT_EXCEEDED' });
+
+      expect(limited.attempts).toBe(3);
+    });
+
+    it('should retry batch submissions at one layer only', async () => {
+      const batched = new Magi3DClient(limited, { batch: queue });
+      const [result] = await batched.createTasks([{ type: TaskType.TEXT_TO_3D, prompt: 'a cat' }]);
+      expect(result.status).toBe('rejected');
+      expect(limited.attempts).toBe(3);
+
+      limited.attempts = 0;
+      const queued = new Magi3DClient(limited, { queue, batch: { maxRateLimitRetries: 5, rateLimitBackoff: 1 } });
+      await queued.createTasks([{ type: TaskType.TEXT_TO_3D, prompt: 'a cat' }]);
+      expect(limited.attempts).toBe(3);
+    });
+  });
+
+  describe('estimateCost', () => {
+    it('should estimate with the provider pricing override', () => {
+      const priced = new Magi3DClient(new MockProvider({
+        pricing: {
+          unit: 'USD',
+          tasks: { [TaskType.TEXT_TO_3D]: { base: 0.5, modifiers: [{ field: 'quad', amount: 0.25 }] } }
+        }
+      }));
+
+      const estimate = priced.estimateCost({ type: TaskType.TEXT_TO_3D, prompt: 'a cat', providerOptions: { quad: true } });
+
+      expect(estimate).toMatchObject({ provider: 'Mock', amount: 0.75, unit: 'USD' });
+      expect(priced.estimateCost({ type: TaskType.RIG, taskId: 'task-123' })).toBeUndefined();
+      expect(client.estimateCost({ type: TaskType.TEXT_TO_3D, prompt: 'a cat' })).toBeUndefined();
+    });
   });
 
   describe('getTask', () => {
@@ -91,6 +192,23 @@ describe('Magi3DClient', () => {
     });
   });
 
+  describe('cancelTask', () => {
+    it('should cancel a task through the provider', async () => {
+      const spy = vi.spyOn(provider, 'cancelTask');
+
+      await client.cancelTask('task-running');
+
+      expect(spy).toHaveBeenCalledWith('task-running');
+    });
+
+    it('should surface UNSUPPORTED errors from the provider', async () => {
+      await expect(client.cancelTask('task-123')).rejects.toMatchObject({
+        name: 'ApiError',
+        code: 'UNSUPPORTED'
+      });
+    });
+  });
+
   describe('pollUntilDone', () => {
     it('should poll until task succeeds', async () => {
       const result = await client.pollUntilDone('task-123', {
@@ -150,5 +268,781 @@ describe('Magi3DClient', () => {
         })
       ).rejects.toThrow('timed out');
     });
+
+    it('should reject with PollTimeoutError carrying the last snapshot', async () => {
+      vi.spyOn(provider, 'getTaskStatus').mockResolvedValue({
+        id: 'task-456',
+        provider: ProviderId.TRIPO,
+        type: TaskType.IMAGE_TO_3D,
+        status: TaskStatus.PROCESSING,
+        progress: 50,
+        createdAt: Date.now()
+      });
+
+      const error = await client.pollUntilDone('task-456', { interval: 10, timeout: 50 }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(PollTimeoutError);
+      expect(error.taskId).toBe('task-456');
+      expect(error.elapsed).toBeGreaterThan(50);
+      expect(error.task).toMatchObject({ status: TaskStatus.PROCESSING, progress: 50 });
+    });
+
+    it('should resolve with a TIMEOUT task when onTimeout is resolve', async () => {
+      vi.spyOn(provider, 'getTaskStatus').mockResolvedValue({
+        id: 'task-456',
+        provider: ProviderId.TRIPO,
+        type: TaskType.IMAGE_TO_3D,
+        status: TaskStatus.PROCESSING,
+        progress: 50,
+        createdAt: Date.now()
+      });
+
+      const task = await client.pollUntilDone('task-456', { interval: 10, timeout: 50, onTimeout: 'resolve' });
+
+      expect(task).toMatchObject({
+        id: 'task-456',
+        status: TaskStatus.TIMEOUT,
+        progress: 50,
+        error: { code: 'POLL_TIMEOUT' }
+      });
+    });
+
+    it('should stop polling when the signal is aborted', async () => {
+      const getStatus = vi.spyOn(provider, 'getTaskStatus').mockResolvedValue({
+        id: 'task-456',
+        provider: ProviderId.TRIPO,
+        type: TaskType.IMAGE_TO_3D,
+        status: TaskStatus.PROCESSING,
+        progress: 50,
+        createdAt: Date.now()
+      });
+      const controller = new AbortController();
+
+      const promise = client.pollUntilDone('task-456', {
+        interval: 1000,
+        timeout: 5000,
+        signal: controller.signal
+      });
+      setTimeout(() => controller.abort(), 50);
+
+      await expect(promise).rejects.toMatchObject({ name: 'AbortError' });
+      expect(getStatus).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('watchTask', () => {
+    function snapshot(status: TaskStatus, progress: number): StandardTask {
+      return {
+        id: 'task-789',
+        provider: ProviderId.TRIPO,
+        type: TaskType.IMAGE_TO_3D,
+        status,
+        progress,
+        createdAt: Date.now()
+      };
+    }
+
+    it('should yield distinct snapshots until a terminal status', async () => {
+      vi.spyOn(provider, 'getTaskStatus')
+        .mockResolvedValueOnce(snapshot(TaskStatus.PENDING, 0))
+        .mockResolvedValueOnce(snapshot(TaskStatus.PROCESSING, 40))
+        .mockResolvedValueOnce(snapshot(TaskStatus.PROCESSING, 40))
+        .mockResolvedValueOnce(snapshot(TaskStatus.PROCESSING, 80))
+        .mockResolvedValueOnce(snapshot(TaskStatus.FAILED, 80));
+
+      const seen: Array<[TaskStatus, number]> = [];
+      for await (const task of client.watchTask('task-789', { interval: 10 })) {
+        seen.push([task.status, task.progress]);
+      }
+
+      expect(seen).toEqual([
+        [TaskStatus.PENDING, 0],
+        [TaskStatus.PROCESSING, 40],
+        [TaskStatus.PROCESSING, 80],
+        [TaskStatus.FAILED, 80]
+      ]);
+    });
+
+    it('should not emit client-wide progress events', async () => {
+      const progressHandler = vi.fn();
+      client.on('progress', progressHandler);
+
+      for await (const task of client.watchTask('task-123', { interval: 10 })) {
+        expect(task.status).toBe(TaskStatus.SUCCEEDED);
+      }
+
+      expect(progressHandler).not.toHaveBeenCalled();
+    });
+
+    it('should stop polling when the consumer breaks', async () => {
+      const getStatus = vi.spyOn(provider, 'getTaskStatus')
+        .mockResolvedValue(snapshot(TaskStatus.PROCESSING, 10));
+
+      for await (const task of client.watchTask('task-789', { interval: 10 })) {
+        expect(task.progress).toBe(10);
+        break;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      expect(getStatus).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('lifecycle events', () => {
+    function snapshot(status: TaskStatus, progress: number): StandardTask {
+      return {
+        id: 'task-123',
+        provider: ProviderId.TRIPO,
+        type: TaskType.IMAGE_TO_3D,
+        status,
+        progress,
+        createdAt: Date.now()
+      };
+    }
+
+    it('should emit created with the task ID and provider', async () => {
+      const created = vi.fn();
+      client.on('created', created);
+
+      await client.createTask({ type: TaskType.TEXT_TO_3D, prompt: 'a cat' });
+
+      expect(created).toHaveBeenCalledWith({
+        taskId: 'task-123',
+        provider: 'Mock',
+        params: { type: TaskType.TEXT_TO_3D, prompt: 'a cat' }
+      });
+    });
+
+    it('should emit statusChange only when the status changes, then a terminal event', async () => {
+      vi.spyOn(provider, 'getTaskStatus')
+        .mockResolvedValueOnce(snapshot(TaskStatus.PENDING, 0))
+        .mockResolvedValueOnce(snapshot(TaskStatus.PROCESSING, 40))
+        .mockResolvedValueOnce(snapshot(TaskStatus.PROCESSING, 80))
+        .mockResolvedValueOnce(snapshot(TaskStatus.FAILED, 80));
+      const statusChange = vi.fn();
+      const failed = vi.fn();
+      client.on('statusChange', statusChange);
+      client.on('failed', failed);
+
+      await expect(client.pollUntilDone('task-123', { interval: 10 })).rejects.toThrow();
+
+      expect(statusChange.mock.calls.map(([e]) => [e.previous, e.next])).toEqual([
+        [undefined, TaskStatus.PENDING],
+        [TaskStatus.PENDING, TaskStatus.PROCESSING],
+        [TaskStatus.PROCESSING, TaskStatus.FAILED]
+      ]);
+      expect(failed).toHaveBeenCalledWith(expect.objectContaining({ taskId: 'task-123', provider: 'Mock' }));
+    });
+
+    it('should emit succeeded and canceled for matching terminal statuses', async () => {
+      const succeeded = vi.fn();
+      const canceled = vi.fn();
+      client.on('succeeded', succeeded);
+      client.on('canceled', canceled);
+
+      await client.pollUntilDone('task-123', { interval: 10 });
+      vi.spyOn(provider, 'getTaskStatus').mockResolvedValue(snapshot(TaskStatus.CANCELED, 10));
+      await expect(client.pollUntilDone('task-123', { interval: 10 })).rejects.toThrow();
+
+      expect(succeeded).toHaveBeenCalledTimes(1);
+      expect(canceled).toHaveBeenCalledTimes(1);
+    });
+
+    it('should emit pollError with the consecutive error count', async () => {
+      vi.spyOn(provider, 'getTaskStatus')
+        .mockRejectedValueOnce(new Error('network'))
+        .mockRejectedValueOnce(new Error('network'))
+        .mockResolvedValue(snapshot(TaskStatus.SUCCEEDED, 100));
+      const pollError = vi.fn();
+      client.on('pollError', pollError);
+
+      await client.pollUntilDone('task-123', { interval: 1 });
+
+      expect(pollError.mock.calls.map(([e]) => e.consecutiveErrors)).toEqual([1, 2]);
+    });
+
+    it('should emit timeout when polling exceeds the timeout', async () => {
+      vi.spyOn(provider, 'getTaskStatus').mockResolvedValue(snapshot(TaskStatus.PROCESSING, 10));
+      const timeout = vi.fn();
+      client.on('timeout', timeout);
+
+      await expect(client.pollUntilDone('task-123', { interval: 10, timeout: 30 })).rejects.toThrow('timed out');
+
+      expect(timeout).toHaveBeenCalledWith(expect.objectContaining({
+        taskId: 'task-123',
+        provider: 'Mock',
+        task: expect.objectContaining({ status: TaskStatus.PROCESSING })
+      }));
+    });
+
+    it('should emit retry for provider retries', async () => {
+      vi.spyOn(provider, 'getTaskStatus').mockImplementation(async (taskId, options) => {
+        options?.onRetry?.({ attempt: 1, delay: 5, error: new Error('502') });
+        return snapshot(TaskStatus.SUCCEEDED, 100);
+      });
+      const retry = vi.fn();
+      client.on('retry', retry);
+
+      await client.getTask('task-123');
+
+      expect(retry).toHaveBeenCalledWith(expect.objectContaining({
+        taskId: 'task-123',
+        provider: 'Mock',
+        operation: 'getTask',
+        attempt: 1,
+        delay: 5
+      }));
+    });
+  });
+
+  describe('batch', () => {
+    function snapshot(taskId: string, status: TaskStatus, progress: number): StandardTask {
+      return {
+        id: taskId,
+        provider: ProviderId.TRIPO,
+        type: TaskType.IMAGE_TO_3D,
+        status,
+        progress,
+        createdAt: Date.now()
+      };
+    }
+
+    it('should return settled results for createTasks in input order', async () => {
+      let n = 0;
+      vi.spyOn(provider, 'doCreateTask').mockImplementation(async (params) => {
+        if ('prompt' in params && params.prompt === 'bad') {
+          throw new ApiError('Invalid prompt', 'INVALID_PARAMS');
+        }
+        return `task-${++n}`;
+      });
+
+      const results = await client.createTasks([
+        { type: TaskType.TEXT_TO_3D, prompt: 'a cat' },
+        { type: TaskType.TEXT_TO_3D, prompt: 'bad' },
+        { type: TaskType.TEXT_TO_3D, prompt: 'a dog' }
+      ]);
+
+      expect(results.map((r) => r.status)).toEqual(['fulfilled', 'rejected', 'fulfilled']);
+      expect((results[0] as PromiseFulfilledResult<string>).value).toBe('task-1');
+      expect((results[2] as PromiseFulfilledResult<string>).value).toBe('task-2');
+      expect((results[1] as PromiseRejectedResult).reason).toBeInstanceOf(ApiError);
+    });
+
+    it('should space batch requests under the request budget', async () => {
+      client = new Magi3DClient(provider, { batch: { requestsPerSecond: 20 } });
+      const times: number[] = [];
+      vi.spyOn(provider, 'doCreateTask').mockImplementation(async () => {
+        times.push(Date.now());
+        return 'task-123';
+      });
+
+      await client.createTasks(Array.from({ length: 3 }, () => ({ type: TaskType.TEXT_TO_3D, prompt: 'a cat' })));
+
+      expect(times[1] - times[0]).toBeGreaterThanOrEqual(45);
+      expect(times[2] - times[1]).toBeGreaterThanOrEqual(45);
+    });
+
+    it('should poll many tasks and report aggregate progress', async () => {
+      const calls = new Map<string, number>();
+      vi.spyOn(provider, 'getTaskStatus').mockImplementation(async (taskId) => {
+        const call = (calls.get(taskId) ?? 0) + 1;
+        calls.set(taskId, call);
+        if (taskId === 'task-bad') {
+          return { ...snapshot(taskId, TaskStatus.FAILED, 0), error: { code: 'GENERATION_FAILED', message: 'failed' } };
+        }
+        return call < 2
+          ? snapshot(taskId, TaskStatus.PROCESSING, 50)
+          : snapshot(taskId, TaskStatus.SUCCEEDED, 100);
+      });
+      const onProgress = vi.fn();
+
+      const results = await client.pollMany(['task-a', 'task-bad', 'task-b'], { interval: 10, timeout: 5000, onProgress });
+
+      expect(results.map((r) => r.status)).toEqual(['fulfilled', 'rejected', 'fulfilled']);
+      expect((results[0] as PromiseFulfilledResult<StandardTask>).value.id).toBe('task-a');
+      expect(onProgress).toHaveBeenLastCalledWith(expect.objectContaining({
+        total: 3,
+        succeeded: 2,
+        failed: 1,
+        pending: 0,
+        progress: 100
+      }));
+      const pending = onProgress.mock.calls.map(([p]) => p.pending);
+      expect(pending).toEqual([...pending].sort().reverse());
+    });
+
+    it('should count tasks that cannot be polled as failed', async () => {
+      vi.spyOn(provider, 'getTaskStatus').mockImplementation(async (taskId) =>
+        snapshot(taskId, taskId === 'task-slow' ? TaskStatus.PROCESSING : TaskStatus.SUCCEEDED, 10)
+      );
+      const onProgress = vi.fn();
+
+      const results = await client.pollMany(['task-slow', 'task-fast'], { interval: 10, timeout: 50, onProgress });
+
+      expect((results[0] as PromiseRejectedResult).reason).toBeInstanceOf(PollTimeoutError);
+      expect(results[1].status).toBe('fulfilled');
+      expect(onProgress).toHaveBeenLastCalledWith(expect.objectContaining({ succeeded: 1, failed: 1, pending: 0 }));
+    });
+  });
+
+  describe('idempotency', () => {
+    const params: TaskParams = { type: TaskType.TEXT_TO_3D, prompt: 'a cat' };
+
+    it('should return the existing task ID for a repeated key', async () => {
+      let n = 0;
+      const spy = vi.spyOn(provider, 'doCreateTask').mockImplementation(async () => `task-${++n}`);
+
+      const first = await client.createTask(params, { idempotencyKey: 'req-1' });
+      const repeat = await client.createTask(params, { idempotencyKey: 'req-1' });
+      const other = await client.createTask(params, { idempotencyKey: 'req-2' });
+
+      expect(first).toBe('task-1');
+      expect(repeat).toBe('task-1');
+      expect(other).toBe('task-2');
+      expect(spy).toHaveBeenCalledTimes(2);
+    });
+
+    it('should share one submission between concurrent calls', async () => {
+      const spy = vi.spyOn(provider, 'doCreateTask').mockImplementation(async () => 'task-1');
+
+      const ids = await Promise.all([
+        client.createTask(params, { idempotencyKey: 'req-1' }),
+        client.createTask(params, { idempotencyKey: 'req-1' })
+      ]);
+
+      expect(ids).toEqual(['task-1', 'task-1']);
+      expect(spy).toHaveBeenCalledTimes(1);
+    });
+
+    it('should deduplicate across clients sharing a store', async () => {
+      const store = new MemoryTaskStore();
+      const spy = vi.spyOn(provider, 'doCreateTask').mockImplementation(async () => 'task-1');
+      const a = new Magi3DClient(provider, { idempotency: { store } });
+      const b = new Magi3DClient(provider, { idempotency: { store } });
+
+      await a.createTask(params, { idempotencyKey: 'req-1' });
+      const taskId = await b.createTask(params, { idempotencyKey: 'req-1' });
+
+      expect(taskId).toBe('task-1');
+      expect(spy).toHaveBeenCalledTimes(1);
+      expect(await store.get('idempotency:Mock:req-1')).toBe('task-1');
+    });
+
+    it('should reserve keys so racing clients submit once', async () => {
+      const store = new MemoryTaskStore();
+      let n = 0;
+      const spy = vi.spyOn(provider, 'doCreateTask').mockImplementation(async () => {
+        await new Promise((r) => setTimeout(r, 20));
+        return `task-${++n}`;
+      });
+      const a = new Magi3DClient(provider, { idempotency: { store } });
+      const b = new Magi3DClient(provider, { idempotency: { store } });
+
+      const ids = await Promise.all([
+        a.createTask(params, { idempotencyKey: 'req-1' }),
+        b.createTask(params, { idempotencyKey: 'req-1' })
+      ]);
+
+      expect(ids).toEqual(['task-1', 'task-1']);
+      expect(spy).toHaveBeenCalledTimes(1);
+    });
+
+    it('should let a waiting client submit when the reserved submission fails', async () => {
+      const store = new MemoryTaskStore();
+      const spy = vi.spyOn(provider, 'doCreateTask')
+        .mockRejectedValueOnce(new ApiError('Bad gateway', 'SERVER_ERROR', undefined, 502))
+        .mockResolvedValueOnce('task-2');
+      const a = new Magi3DClient(provider, { idempotency: { store } });
+      const b = new Magi3DClient(provider, { idempotency: { store } });
+
+      const [first, second] = await Promise.allSettled([
+        a.createTask(params, { idempotencyKey: 'req-1' }),
+        b.createTask(params, { idempotencyKey: 'req-1' })
+      ]);
+
+      expect(first.status).toBe('rejected');
+      expect(second).toEqual({ status: 'fulfilled', value: 'task-2' });
+      expect(spy).toHaveBeenCalledTimes(2);
+    });
+
+    it('should give each createTasks entry its own key', async () => {
+      let n = 0;
+      const spy = vi.spyOn(provider, 'doCreateTask').mockImplementation(async () => `task-${++n}`);
+      const batch: TaskParams[] = [params, { type: TaskType.TEXT_TO_3D, prompt: 'a dog' }];
+      const options = { idempotencyKey: (_: TaskParams, index: number) => `batch-1:${index}` };
+
+      const first = await client.createTasks(batch, options);
+      const repeat = await client.createTasks(batch, options);
+
+      expect(first.map((r) => r.status === 'fulfilled' && r.value)).toEqual(['task-1', 'task-2']);
+      expect(repeat.map((r) => r.status === 'fulfilled' && r.value)).toEqual(['task-1', 'task-2']);
+      expect(spy).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not record the key when the submission fails', async () => {
+      const spy = vi.spyOn(provider, 'doCreateTask')
+        .mockRejectedValueOnce(new ApiError('Bad request', 'INVALID_PARAMS'))
+        .mockResolvedValueOnce('task-1');
+
+      await expect(client.createTask(params, { idempotencyKey: 'req-1' })).rejects.toThrow(ApiError);
+      const taskId = await client.createTask(params, { idempotencyKey: 'req-1' });
+
+      expect(taskId).toBe('task-1');
+      expect(spy).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('result cache', () => {
+    const params: TaskParams = { type: TaskType.TEXT_TO_3D, prompt: 'a cat', providerOptions: { pbr: true, seed: 1 } };
+
+    beforeEach(() => {
+      client = new Magi3DClient(provider, { cache: {} });
+    });
+
+    it('should reuse a succeeded task for equivalent params', async () => {
+      const spy = vi.spyOn(provider, 'doCreateTask').mockResolvedValue('task-123');
+      const cacheHit = vi.fn();
+      client.on('cacheHit', cacheHit);
+
+      const first = await client.createTask(params);
+      const second = await client.createTask({ providerOptions: { seed: 1, pbr: true }, prompt: 'a cat', type: TaskType.TEXT_TO_3D } as TaskParams);
+
+      expect(second).toBe(first);
+      expect(spy).toHaveBeenCalledTimes(1);
+      expect(cacheHit).toHaveBeenCalledWith(expect.objectContaining({
+        taskId: 'task-123',
+        task: expect.objectContaining({ status: TaskStatus.SUCCEEDED })
+      }));
+    });
+
+    it('should submit again when bypassing the cache', async () => {
+      const spy = vi.spyOn(provider, 'doCreateTask').mockResolvedValue('task-123');
+
+      await client.createTask(params);
+      await client.createTask(params, { bypassCache: true });
+
+      expect(spy).toHaveBeenCalledTimes(2);
+    });
+
+    it('should drop failed tasks from the cache', async () => {
+      let n = 0;
+      const spy = vi.spyOn(provider, 'doCreateTask').mockImplementation(async () => `task-${++n}`);
+      vi.spyOn(provider, 'getTaskStatus').mockImplementation(async (taskId) => ({
+        id: taskId,
+        provider: ProviderId.TRIPO,
+        type: TaskType.TEXT_TO_3D,
+        status: taskId === 'task-1' ? TaskStatus.FAILED : TaskStatus.SUCCEEDED,
+        progress: 100,
+        createdAt: Date.now()
+      }));
+
+      await client.createTask(params);
+      const taskId = await client.createTask(params);
+
+      expect(taskId).toBe('task-2');
+      expect(spy).toHaveBeenCalledTimes(2);
+    });
+
+    it('should expire entries after the TTL', async () => {
+      const spy = vi.spyOn(provider, 'doCreateTask').mockResolvedValue('task-123');
+
+      await client.createTask(params, { cacheTtl: 10 });
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      await client.createTask(params);
+
+      expect(spy).toHaveBeenCalledTimes(2);
+    });
+
+    it('should be disabled by default', async () => {
+      client = new Magi3DClient(provider);
+      const spy = vi.spyOn(provider, 'doCreateTask').mockResolvedValue('task-123');
+
+      await client.createTask(params);
+      await client.createTask(params);
+
+      expect(spy).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('polling strategy', () => {
+    function snapshot(status: TaskStatus): StandardTask {
+      return {
+        id: 'task-123',
+        provider: ProviderId.TRIPO,
+        type: TaskType.TEXT_TO_3D,
+        status,
+        progress: status === TaskStatus.SUCCEEDED ? 100 : 50,
+        createdAt: Date.now()
+      };
+    }
+
+    it('should space status checks with the strategy', async () => {
+      vi.spyOn(provider, 'getTaskStatus')
+        .mockResolvedValueOnce(snapshot(TaskStatus.PROCESSING))
+        .mockResolvedValueOnce(snapshot(TaskStatus.PROCESSING))
+        .mockResolvedValueOnce(snapshot(TaskStatus.SUCCEEDED));
+      const strategy = { nextDelay: vi.fn(() => 5), onSettled: vi.fn() };
+
+      await client.pollUntilDone('task-123', { strategy, timeout: 5000 });
+
+      expect(strategy.nextDelay).toHaveBeenCalledTimes(2);
+      expect(strategy.nextDelay).toHaveBeenLastCalledWith(expect.objectContaining({ attempt: 2 }));
+      expect(strategy.onSettled).toHaveBeenCalledWith(expect.objectContaining({
+        attempt: 3,
+        task: expect.objectContaining({ status: TaskStatus.SUCCEEDED })
+      }));
+    });
+
+    it('should use the client strategy by default', async () => {
+      const strategy = { nextDelay: vi.fn(() => 5) };
+      client = new Magi3DClient(provider, { polling: strategy });
+      vi.spyOn(provider, 'getTaskStatus')
+        .mockResolvedValueOnce(snapshot(TaskStatus.PROCESSING))
+        .mockResolvedValueOnce(snapshot(TaskStatus.SUCCEEDED));
+
+      await client.pollUntilDone('task-123');
+
+      expect(strategy.nextDelay).toHaveBeenCalledTimes(1);
+    });
+
+    it('should prefer a fixed interval when one is passed', async () => {
+      const strategy = { nextDelay: vi.fn(() => 60000) };
+      client = new Magi3DClient(provider, { polling: strategy });
+      vi.spyOn(provider, 'getTaskStatus')
+        .mockResolvedValueOnce(snapshot(TaskStatus.PROCESSING))
+        .mockResolvedValueOnce(snapshot(TaskStatus.SUCCEEDED));
+
+      const task = await client.pollUntilDone('task-123', { interval: 5 });
+
+      expect(task.status).toBe(TaskStatus.SUCCEEDED);
+      expect(strategy.nextDelay).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('checkpoints', () => {
+    function snapshot(taskId: string, status: TaskStatus): StandardTask {
+      return {
+        id: taskId,
+        provider: ProviderId.TRIPO,
+        type: TaskType.TEXT_TO_3D,
+        status,
+        progress: status === TaskStatus.SUCCEEDED ? 100 : 50,
+        createdAt: Date.now()
+      };
+    }
+
+    it('should save checkpoints while polling and remove them when done', async () => {
+      const store = new MemoryTaskStore();
+      client = new Magi3DClient(provider, { checkpoints: { store } });
+      const saved: unknown[] = [];
+      vi.spyOn(provider, 'getTaskStatus')
+        .mockImplementationOnce(async (taskId) => snapshot(taskId, TaskStatus.PROCESSING))
+        .mockImplementationOnce(async (taskId) => {
+          saved.push(await store.get('poll:Mock:pending:task-123'));
+          return snapshot(taskId, TaskStatus.SUCCEEDED);
+        });
+
+      await client.pollUntilDone('task-123', { interval: 5, timeout: 60000, checkpoint: true });
+
+      expect(saved[0]).toEqual(expect.objectContaining({
+        taskId: 'task-123',
+        provider: 'Mock',
+        timeout: 60000,
+        lastStatus: TaskStatus.PROCESSING
+      }));
+      expect(await store.get('poll:Mock:pending:task-123')).toBeUndefined();
+    });
+
+    it('should keep the checkpoint when polling is aborted', async () => {
+      const store = new MemoryTaskStore();
+      client = new Magi3DClient(provider, { checkpoints: { store } });
+      const controller = new AbortController();
+      vi.spyOn(provider, 'getTaskStatus').mockImplementation(async (taskId) => {
+        controller.abort();
+        return snapshot(taskId, TaskStatus.PROCESSING);
+      });
+
+      await expect(
+        client.pollUntilDone('task-123', { interval: 5, checkpoint: true, signal: controller.signal })
+      ).rejects.toThrow();
+
+      expect(await store.get('poll:Mock:pending:task-123')).toHaveProperty('taskId', 'task-123');
+    });
+
+    it('should keep checkpoints of clients sharing a store apart', async () => {
+      const store = new MemoryTaskStore();
+      const a = new Magi3DClient(provider, { checkpoints: { store } });
+      const b = new Magi3DClient(provider, { checkpoints: { store } });
+      const controller = new AbortController();
+      let polls = 0;
+      vi.spyOn(provider, 'getTaskStatus').mockImplementation(async (taskId) => {
+        if (++polls === 4) {
+          controller.abort();
+        }
+        return snapshot(taskId, TaskStatus.PROCESSING);
+      });
+
+      const options = { interval: 5, checkpoint: true, signal: controller.signal };
+      await Promise.allSettled([a.pollUntilDone('task-a', options), b.pollUntilDone('task-b', options)]);
+
+      expect(await store.keys!('poll:Mock:pending:')).toEqual(['poll:Mock:pending:task-a', 'poll:Mock:pending:task-b']);
+    });
+
+    it('should not checkpoint unless asked to', async () => {
+      const store = new MemoryTaskStore();
+      const setSpy = vi.spyOn(store, 'set');
+      client = new Magi3DClient(provider, { checkpoints: { store } });
+
+      await client.pollUntilDone('task-123', { interval: 5 });
+
+      expect(setSpy).not.toHaveBeenCalled();
+    });
+
+    it('should resume pending tasks with the remaining budget and re-emit events', async () => {
+      const store = new MemoryTaskStore();
+      await store.set('poll:Mock:pending:task-a', { taskId: 'task-a', provider: 'Mock', startedAt: Date.now() - 60000, timeout: 300000, elapsed: 20000, lastStatus: TaskStatus.PROCESSING, updatedAt: Date.now() });
+      await store.set('poll:Mock:pending:task-b', { taskId: 'task-b', provider: 'Mock', startedAt: Date.now() - 60000, timeout: 300000, elapsed: 20000, updatedAt: Date.now() });
+      client = new Magi3DClient(provider, { checkpoints: { store } });
+      vi.spyOn(provider, 'getTaskStatus').mockImplementation(async (taskId) =>
+        snapshot(taskId, taskId === 'task-a' ? TaskStatus.SUCCEEDED : TaskStatus.FAILED)
+      );
+      const resumed = vi.fn();
+      const succeeded = vi.fn();
+      const failed = vi.fn();
+      client.on('resumed', resumed);
+      client.on('succeeded', succeeded);
+      client.on('failed', failed);
+
+      const results = await client.resumePending({ interval: 5 });
+
+      expect(results.map((r) => r.status)).toEqual(['fulfilled', 'rejected']);
+      expect(resumed).toHaveBeenCalledTimes(2);
+      expect(resumed).toHaveBeenCalledWith(expect.objectContaining({
+        taskId: 'task-a',
+        checkpoint: expect.objectContaining({ elapsed: 20000 })
+      }));
+      expect(succeeded).toHaveBeenCalledWith(expect.objectContaining({ taskId: 'task-a' }));
+      expect(failed).toHaveBeenCalledWith(expect.objectContaining({ taskId: 'task-b' }));
+      expect(await store.keys!('poll:Mock:pending:')).toEqual([]);
+    });
+
+    it('should time out resumed tasks once the saved budget is used up', async () => {
+      const store = new MemoryTaskStore();
+      await store.set('poll:Mock:pending:task-a', { taskId: 'task-a', provider: 'Mock', startedAt: Date.now(), timeout: 1000, elapsed: 990, updatedAt: Date.now() });
+      client = new Magi3DClient(provider, { checkpoints: { store } });
+      vi.spyOn(provider, 'getTaskStatus').mockImplementation(async (taskId) => snapshot(taskId, TaskStatus.PROCESSING));
+
+      const [result] = await client.resumePending({ interval: 20 });
+
+      expect((result as PromiseRejectedResult).reason).toBeInstanceOf(PollTimeoutError);
+    });
+  });
+
+  describe('budget', () => {
+    const hour = 60 * 60 * 1000;
+    const params = { type: TaskType.TEXT_TO_3D, prompt: 'a cat' } as const;
+
+    it('should reject submissions over the global limit before calling the provider', async () => {
+      const budgeted = new Magi3DClient(provider, { budget: { global: [{ window: hour, maxTasks: 2 }] } });
+      const spy = vi.spyOn(provider, 'doCreateTask');
+
+      await budgeted.createTask(params);
+      await budgeted.createTask(params);
+      const error = await budgeted.createTask(params).catch((e) => e);
+
+      expect(error).toBeInstanceOf(BudgetExceededError);
+      expect(error).toMatchObject({ code: 'BUDGET_EXCEEDED', tag: undefined, usage: { tasks: 2, credits: 0 } });
+      expect(spy).toHaveBeenCalledTimes(2);
+    });
+
+    it('should limit estimated credits per tag', async () => {
+      const priced = new MockProvider({ pricing: { tasks: { [TaskType.TEXT_TO_3D]: { base: 30 } } } });
+      const budgeted = new Magi3DClient(priced, {
+        budget: {
+          perTag: [{ window: hour, maxCredits: 50 }],
+          tags: { vip: [{ window: hour, maxCredits: 100 }] }
+        }
+      });
+
+      await budgeted.createTask(params, { tag: 'tenant-a' });
+      await expect(budgeted.createTask(params, { tag: 'tenant-a' })).rejects.toMatchObject({
+        tag: 'tenant-a',
+        cost: 30,
+        usage: { credits: 30, tasks: 1 }
+      });
+      await expect(budgeted.createTask(params, { tag: 'tenant-b' })).resolves.toBe('task-123');
+      await budgeted.createTask(params, { tag: 'vip' });
+      await expect(budgeted.createTask(params, { tag: 'vip', cost: 70 })).resolves.toBe('task-123');
+    });
+
+    it('should free budget as the window slides', async () => {
+      vi.useFakeTimers();
+      try {
+        const budgeted = new Magi3DClient(provider, { budget: { global: [{ window: hour, maxCredits: 10 }] } });
+        await budgeted.createTask(params, { cost: 6 });
+        vi.advanceTimersByTime(1000);
+        await budgeted.createTask(params, { cost: 4 });
+
+        const error = await budgeted.createTask(params, { cost: 5 }).catch((e) => e);
+        expect(error.retryAfter).toBe(hour - 1000);
+
+        vi.advanceTimersByTime(hour - 1000);
+        await expect(budgeted.createTask(params, { cost: 5 })).resolves.toBe('task-123');
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should not record failed submissions and accept reported usage', async () => {
+      const budgeted = new Magi3DClient(provider, { budget: { global: [{ window: hour, maxCredits: 10 }] } });
+      vi.spyOn(provider, 'doCreateTask')
+        .mockRejectedValueOnce(new ApiError('down', 'SERVER_ERROR'))
+        .mockResolvedValueOnce('task-1')
+        .mockResolvedValueOnce('task-2');
+
+      await expect(budgeted.createTask(params, { cost: 10 })).rejects.toThrow('down');
+      await budgeted.createTask(params, { cost: 10 });
+      await expect(budgeted.createTask(params, { cost: 10 })).rejects.toBeInstanceOf(BudgetExceededError);
+
+      await budgeted.recordUsage('task-1', 0);
+      await expect(budgeted.createTask(params, { cost: 10 })).resolves.toBe('task-2');
+    });
+
+    it('should hold no budget when resolving the source task ID fails', async () => {
+      const budgeted = new Magi3DClient(provider, {
+        budget: { global: [{ window: hour, maxTasks: 1 }] },
+        middleware: [{
+          resolveTaskId: (taskId) => {
+            if (taskId === 'lost') throw new Error('Unknown task ID: lost');
+          }
+        }]
+      });
+
+      await expect(budgeted.createTask({ type: TaskType.RIG, taskId: 'lost' })).rejects.toThrow('Unknown task ID');
+      await expect(budgeted.createTask(params)).resolves.toBe('task-123');
+    });
+  });
+
+  describe('typed results', () => {
+    it('should narrow results to the task type', async () => {
+      const rigCheckId = await client.createTask({ type: TaskType.PRE_RIG_CHECK, taskId: 'task-1' });
+      const convertId = await client.createTask({ type: TaskType.CONVERT, taskId: 'task-1', format: 'fbx' });
+      const imageId = await client.createTask({ type: TaskType.TEXT_TO_IMAGE, prompt: 'a cat' });
+
+      expect(typeof rigCheckId).toBe('string');
+      expectTypeOf(client.pollUntilDone(rigCheckId)).resolves.toHaveProperty('result')
+        .toEqualTypeOf<{ riggable: boolean; rigType?: string } | undefined>();
+      expectTypeOf(client.pollUntilDone(imageId)).resolves.toHaveProperty('result')
+        .toEqualTypeOf<{ generatedImage: string; thumbnail?: string } | undefined>();
+      expectTypeOf(client.pollUntilDone(convertId)).resolves.toHaveProperty('result')
+        .toEqualTypeOf<({ model: string } & { modelFbx?: string }) | undefined>();
+    });
+
+    it('should keep loose results for plain task IDs', async () => {
+      const task = await client.pollUntilDone('task-123');
+
+      expect(task.result?.modelGlb).toBeDefined();
+      expectTypeOf(task.result).toEqualTypeOf<StandardTask['result']>();
+    });
   });
 });
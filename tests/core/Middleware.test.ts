@@ -0,0 +1,126 @@
+// tests/core/Middleware.test.ts
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Magi3DClient, ApiError } from '../../src/core/Magi3DClient';
+import { StandardTask, TaskStatus, TaskType, ProviderId, TaskParams } from '../../src/types';
+import { TestProvider } from '../helpers/providers';
+
+// Mock provider that records submissions and reports progress in two steps
+class MockProvider extends TestProvider {
+  canceled: string[] = [];
+  polls = 0;
+
+  constructor() {
+    super({}, [TaskType.TEXT_TO_3D, TaskType.CONVERT]);
+  }
+
+  async doCreateTask(params: TaskParams) {
+    if ('prompt' in params && params.prompt === 'fail') {
+      throw new ApiError('Not enough credits', 'INSUFFICIENT_CREDITS');
+    }
+    this.created.push(params);
+    return 'task-1';
+  }
+
+  async getTaskStatus(taskId: string): Promise<StandardTask> {
+    if (taskId !== 'task-1') {
+      throw new ApiError(`Unknown task ID: ${taskId}`, 'TASK_NOT_FOUND', undefined, 404);
+    }
+    this.polls++;
+    const done = this.polls >= 2;
+    return {
+      id: taskId,
+      provider: ProviderId.TRIPO,
+      type: TaskType.TEXT_TO_3D,
+      status: done ? TaskStatus.SUCCEEDED : TaskStatus.PROCESSING,
+      progress: done ? 100 : 50,
+      createdAt: Date.now()
+    };
+  }
+
+  async cancelTask(taskId: string): Promise<void> {
+    this.canceled.push(taskId);
+  }
+}
+
+describe('Magi3DClient middleware', () => {
+  let provider: MockProvider;
+
+  beforeEach(() => {
+    provider = new MockProvider();
+  });
+
+  it('should let beforeCreate modify params in registration order', async () => {
+    const client = new Magi3DClient(provider, {
+      middleware: [
+        { beforeCreate: (params) => 'prompt' in params ? { ...params, prompt: `${params.prompt}!` } : params },
+        { beforeCreate: (params) => ({ ...params, providerOptions: { seed: 1 } }) }
+      ]
+    });
+
+    await client.createTask({ type: TaskType.TEXT_TO_3D, prompt: 'a cat' });
+
+    expect(provider.created[0]).toMatchObject({ prompt: 'a cat!', providerOptions: { seed: 1 } });
+  });
+
+  it('should reject the request when a hook throws', async () => {
+    const client = new Magi3DClient(provider).use({
+      beforeCreate: () => {
+        throw new Error('Prompt rejected');
+      }
+    });
+
+    await expect(client.createTask({ type: TaskType.TEXT_TO_3D, prompt: 'x' })).rejects.toThrow('Prompt rejected');
+    expect(provider.created).toHaveLength(0);
+  });
+
+  it('should pass the task ID and submitted params to afterCreate', async () => {
+    const afterCreate = vi.fn((taskId: string) => `tenant-a/${taskId}`);
+    const client = new Magi3DClient(provider).use({ afterCreate });
+
+    const taskId = await client.createTask({ type: TaskType.TEXT_TO_3D, prompt: 'a cat' });
+
+    expect(taskId).toBe('tenant-a/task-1');
+    expect(afterCreate).toHaveBeenCalledWith('task-1', expect.objectContaining({ prompt: 'a cat' }));
+  });
+
+  it('should map rewritten task IDs back with resolveTaskId', async () => {
+    const client = new Magi3DClient(provider).use({
+      afterCreate: (taskId) => `tenant-a/${taskId}`,
+      resolveTaskId: (taskId) => taskId.replace(/^tenant-a\//, '')
+    });
+
+    const taskId = await client.createTask({ type: TaskType.TEXT_TO_3D, prompt: 'a cat' });
+    const task = await client.pollUntilDone(taskId, { interval: 10 });
+    await client.cancelTask(taskId);
+    await client.createTask({ type: TaskType.CONVERT, taskId, format: 'fbx' });
+
+    expect(task).toMatchObject({ id: 'tenant-a/task-1', status: TaskStatus.SUCCEEDED });
+    expect(provider.canceled).toEqual(['task-1']);
+    expect(provider.created[1]).toMatchObject({ taskId: 'task-1' });
+  });
+
+  it('should apply afterStatus to getTask and every polling tick', async () => {
+    const afterStatus = vi.fn((task: StandardTask) => ({ ...task, progressDetail: 'enriched' }));
+    const client = new Magi3DClient(provider).use({ afterStatus });
+    const onProgress = vi.fn();
+
+    const result = await client.pollUntilDone('task-1', { interval: 10, onProgress });
+
+    expect(afterStatus).toHaveBeenCalledTimes(2);
+    expect(onProgress).toHaveBeenCalledWith(expect.objectContaining({ progress: 50, progressDetail: 'enriched' }));
+    expect(result.progressDetail).toBe('enriched');
+  });
+
+  it('should let onError observe and replace errors', async () => {
+    const onError = vi.fn((error: unknown) => new Error(`wrapped: ${(error as Error).message}`));
+    const client = new Magi3DClient(provider).use({ onError });
+
+    await expect(client.createTask({ type: TaskType.TEXT_TO_3D, prompt: 'fail' })).rejects.toThrow(
+      'wrapped: Not enough credits'
+    );
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ code: 'INSUFFICIENT_CREDITS' }),
+      expect.objectContaining({ operation: 'createTask' })
+    );
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Magi3DClient } from '../../src/core/Magi3DClient';
+import { Pipeline, PipelineError } from '../../src/core/Pipeline';
+import { StandardTask, TaskStatus, TaskType, ProviderId, TaskParams } from '../../src/types';
+import { TestProvider } from '../helpers/providers';
+
+// Mock provider that records created params and completes tasks immediately
+class MockProvider extends TestProvider {
+  riggable = true;
+  failType?: TaskType;
+
+  async doCreateTask(params: TaskParams) {
+    this.created.push(params);
+    return `task-${this.created.length}`;
+  }
+
+  async getTaskStatus(taskId: string): Promise<StandardTask> {
+    const params = this.created[Number(taskId.split('-')[1]) - 1];
+    const failed = params.type === this.failType;
+    const isCheck = params.type === TaskType.PRE_RIG_CHECK;
+    return {
+      id: taskId,
+      provider: ProviderId.TRIPO,
+      type: params.type,
+      status: failed ? TaskStatus.FAILED : TaskStatus.SUCCEEDED,
+      progress: 100,
+      result: failed ? undefined : {
+        model: isCheck ? '' : `https://example.com/${taskId}.glb`,
+        ...(isCheck && { riggable: this.riggable, rigType: 'biped' })
+      },
+      error: failed ? { code: 'GENERATION_FAILED', message: 'boom' } : undefined,
+      createdAt: Date.now()
+    };
+  }
+
+  async cancelTask(): Promise<void> {}
+}
+
+describe('Pipeline', () => {
+  let provider: MockProvider;
+  let client: Magi3DClient;
+
+  beforeEach(() => {
+    provider = new MockProvider();
+    client = new Magi3DClient(provider);
+  });
+
+  function riggingPipeline() {
+    return new Pipeline(client, [
+      { name: 'model', params: { type: TaskType.IMAGE_TO_3D, input: 'https://example.com/cat.jpg' } },
+      { name: 'check', params: { type: TaskType.PRE_RIG_CHECK } },
+      {
+        name: 'rig',
+        when: (ctx) => ctx.results.check.task?.result?.riggable === true,
+        params: { type: TaskType.RIG }
+      },
+      { name: 'export', params: { type: TaskType.CONVERT, format: 'fbx' } }
+    ]);
+  }
+
+  it('should pass task IDs forward, skipping non-model steps as sources', async () => {
+    const result = await riggingPipeline().run({ poll: { interval: 10 } });
+
+    expect(provider.created.map((p) => [p.type, 'taskId' in p ? p.taskId : undefined])).toEqual([
+      [TaskType.IMAGE_TO_3D, undefined],
+      [TaskType.PRE_RIG_CHECK, 'task-1'],
+      [TaskType.RIG, 'task-1'],
+      [TaskType.CONVERT, 'task-3']
+    ]);
+    expect(result.final?.id).toBe('task-4');
+    expect(result.steps.map((s) => s.status)).toEqual(['succeeded', 'succeeded', 'succeeded', 'succeeded']);
+  });
+
+  it('should link steps by the task ID createTask returned', async () => {
+    client.use({ afterStatus: (task) => ({ ...task, id: `remote/${task.id}` }) });
+
+    const result = await riggingPipeline().run({ poll: { interval: 10 } });
+
+    expect(provider.created.map((p) => 'taskId' in p ? p.taskId : undefined)).toEqual([
+      undefined, 'task-1', 'task-1', 'task-3'
+    ]);
+    expect(result.results.export.taskId).toBe('task-4');
+  });
+
+  it('should skip conditional steps', async () => {
+    provider.riggable = false;
+
+    const result = await riggingPipeline().run({ poll: { interval: 10 } });
+
+    expect(result.results.rig.status).toBe('skipped');
+    expect(provider.created.map((p) => p.type)).not.toContain(TaskType.RIG);
+    expect(provider.created[2]).toMatchObject({ taskId: 'task-1' });
+  });
+
+  it('should use the step named in from', async () => {
+    await new Pipeline(client, [
+      { name: 'model', params: { type: TaskType.TEXT_TO_3D, prompt: 'a robot' } },
+      { name: 'lowpoly', params: { type: TaskType.DECIMATE } },
+      { name: 'export', from: 'model', params: { type: TaskType.CONVERT, format: 'obj' } }
+    ]).run({ poll: { interval: 10 } });
+
+    expect(provider.created[1]).toMatchObject({ modelUrl: 'https://example.com/task-1.glb' });
+    expect(provider.created[2]).toMatchObject({ taskId: 'task-1' });
+  });
+
+  it('should report per-step and combined progress', async () => {
+    const onProgress = vi.fn();
+
+    await riggingPipeline().run({ poll: { interval: 10 }, onProgress });
+
+    expect(onProgress).toHaveBeenCalledWith(expect.objectContaining({ step: 'model', progress: 25 }));
+    expect(onProgress).toHaveBeenLastCalledWith(expect.objectContaining({ step: 'export', progress: 100 }));
+  });
+
+  it('should wrap step failures in PipelineError', async () => {
+    provider.failType = TaskType.RIG;
+
+    const error: PipelineError = await riggingPipeline().run({ poll: { interval: 10 } }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(PipelineError);
+    expect(error.step).toBe('rig');
+    expect(error.completed.map((s) => s.name)).toEqual(['model', 'check']);
+    expect(error.cause).toMatchObject({ code: 'GENERATION_FAILED' });
+  });
+
+  it('should reject invalid step references', () => {
+    expect(() => new Pipeline(client, [
+      { name: 'export', from: 'model', params: { type: TaskType.CONVERT, format: 'fbx' } }
+    ])).toThrow('unknown earlier step');
+  });
+});
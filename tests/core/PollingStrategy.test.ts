@@ -0,0 +1,89 @@
+// tests/core/PollingStrategy.test.ts
+import { describe, it, expect } from 'vitest';
+import { AdaptivePollingStrategy, FixedIntervalStrategy } from '../../src/core/PollingStrategy';
+import { StandardTask, TaskStatus, TaskType, ProviderId } from '../../src/types';
+
+function snapshot(overrides: Partial<StandardTask> = {}): StandardTask {
+  return {
+    id: 'task-1',
+    provider: ProviderId.TRIPO,
+    type: TaskType.TEXT_TO_3D,
+    status: TaskStatus.PROCESSING,
+    progress: 0,
+    createdAt: Date.now(),
+    ...overrides
+  };
+}
+
+describe('FixedIntervalStrategy', () => {
+  it('should always return the interval', () => {
+    const strategy = new FixedIntervalStrategy(2000);
+
+    expect(strategy.nextDelay()).toBe(2000);
+    expect(new FixedIntervalStrategy().nextDelay()).toBe(3000);
+  });
+});
+
+describe('AdaptivePollingStrategy', () => {
+  const strategy = () => new AdaptivePollingStrategy({ expectedDurations: { [TaskType.TEXT_TO_3D]: 60000 } });
+
+  it('should poll sparsely at first and tighten near the expected completion', () => {
+    const adaptive = strategy();
+
+    const early = adaptive.nextDelay({ task: snapshot(), elapsed: 0, attempt: 1 });
+    const late = adaptive.nextDelay({ task: snapshot(), elapsed: 56000, attempt: 5 });
+
+    expect(early).toBe(15000);
+    expect(late).toBe(2000);
+    expect(adaptive.nextDelay({ task: snapshot(), elapsed: 59500, attempt: 6 })).toBe(1000);
+  });
+
+  it('should back off gradually for overdue tasks', () => {
+    const adaptive = strategy();
+
+    expect(adaptive.nextDelay({ task: snapshot(), elapsed: 68000, attempt: 8 })).toBe(2000);
+    expect(adaptive.nextDelay({ task: snapshot(), elapsed: 200000, attempt: 20 })).toBe(15000);
+  });
+
+  it('should use expected durations per task type', () => {
+    const adaptive = new AdaptivePollingStrategy();
+    const convert = snapshot({ type: TaskType.CONVERT });
+
+    expect(adaptive.getExpectedDuration(convert)).toBe(15000);
+    expect(adaptive.nextDelay({ task: convert, elapsed: 0, attempt: 1 })).toBe(7500);
+  });
+
+  it('should learn durations per provider and task type', () => {
+    const adaptive = strategy();
+    const succeeded = snapshot({ status: TaskStatus.SUCCEEDED, progress: 100 });
+
+    adaptive.onSettled({ task: succeeded, elapsed: 300000, attempt: 10 });
+    expect(adaptive.getExpectedDuration(succeeded)).toBe(300000);
+
+    adaptive.onSettled({ task: succeeded, elapsed: 200000, attempt: 10 });
+    expect(adaptive.getExpectedDuration(succeeded)).toBe(270000);
+
+    expect(adaptive.getExpectedDuration({ provider: ProviderId.HUNYUAN, type: TaskType.TEXT_TO_3D })).toBe(60000);
+  });
+
+  it('should not learn from failed tasks', () => {
+    const adaptive = strategy();
+
+    adaptive.onSettled({ task: snapshot({ status: TaskStatus.FAILED }), elapsed: 1000, attempt: 1 });
+
+    expect(adaptive.getExpectedDuration(snapshot())).toBe(60000);
+  });
+
+  it('should honor the provider estimate', () => {
+    const adaptive = strategy();
+
+    expect(adaptive.nextDelay({ task: snapshot({ estimatedTimeRemaining: 4000 }), elapsed: 0, attempt: 1 })).toBe(2000);
+  });
+
+  it('should extrapolate from reported progress', () => {
+    const adaptive = strategy();
+
+    // 80% after 40s => ~10s left
+    expect(adaptive.nextDelay({ task: snapshot({ progress: 80 }), elapsed: 40000, attempt: 4 })).toBe(5000);
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect, vi } from 'vitest';
+import { SubmissionQueue } from '../../src/core/SubmissionQueue';
+import { ApiError } from '../../src/core/Magi3DClient';
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((r) => { resolve = r; });
+  return { promise, resolve };
+}
+
+describe('SubmissionQueue', () => {
+  it('should cap the number of submissions in flight', async () => {
+    const queue = new SubmissionQueue({ maxConcurrent: 2 });
+    const gates = [deferred<string>(), deferred<string>(), deferred<string>()];
+    const started: number[] = [];
+
+    const results = gates.map((gate, i) => queue.run(() => {
+      started.push(i);
+      return gate.promise;
+    }));
+
+    await new Promise((r) => setTimeout(r, 0));
+    expect(started).toEqual([0, 1]);
+    expect(queue.running).toBe(2);
+    expect(queue.pending).toBe(1);
+
+    gates[0].resolve('a');
+    await results[0];
+    await new Promise((r) => setTimeout(r, 0));
+    expect(started).toEqual([0, 1, 2]);
+
+    gates[1].resolve('b');
+    gates[2].resolve('c');
+    await expect(Promise.all(results)).resolves.toEqual(['a', 'b', 'c']);
+    expect(queue.running).toBe(0);
+  });
+
+  it('should space submissions by requestsPerSecond', async () => {
+    const queue = new SubmissionQueue({ requestsPerSecond: 20 });
+    const startedAt: number[] = [];
+
+    await Promise.all([0, 1, 2].map(() => queue.run(async () => {
+      startedAt.push(Date.now());
+    })));
+
+    expect(startedAt[1] - startedAt[0]).toBeGreaterThanOrEqual(45);
+    expect(startedAt[2] - startedAt[1]).toBeGreaterThanOrEqual(45);
+  });
+
+  it('should hold and retry rate-limited submissions', async () => {
+    const onRateLimit = vi.fn();
+    const queue = new SubmissionQueue({ rateLimitBackoff: 10, onRateLimit });
+    const submit = vi.fn()
+      .mockRejectedValueOnce(new ApiError('Too many requests', 'RATE_LIMIT_EXCEEDED'))
+      .mockRejectedValueOnce(new ApiError('Limit', 'ACCOUNT_RATE_LIMIT_EXCEEDED'))
+      .mockResolvedValue('task-1');
+
+    await expect(queue.run(submit)).resolves.toBe('task-1');
+    expect(submit).toHaveBeenCalledTimes(3);
+    expect(onRateLimit).toHaveBeenNthCalledWith(1, expect.objectContaining({ attempt: 1, delay: 10 }));
+    expect(onRateLimit).toHaveBeenNthCalledWith(2, expect.objectContaining({ attempt: 2, delay: 20 }));
+  });
+
+  it('should surface the error once rate-limit retries are exhausted', async () => {
+    const queue = new SubmissionQueue({ rateLimitBackoff: 1, maxRateLimitRetries: 2 });
+    const submit = vi.fn().mockRejectedValue(new ApiError('Too many requests', 'RATE_LIMIT_EXCEEDED'));
+
+    await expect(queue.run(submit)).rejects.toMatchObject({ code: 'RATE_LIMIT_EXCEEDED' });
+    expect(submit).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not retry other errors', async () => {
+    const queue = new SubmissionQueue();
+    const submit = vi.fn().mockRejectedValue(new ApiError('No credits', 'INSUFFICIENT_CREDITS'));
+
+    await expect(queue.run(submit)).rejects.toMatchObject({ code: 'INSUFFICIENT_CREDITS' });
+    expect(submit).toHaveBeenCalledTimes(1);
+  });
+
+  it('should remove aborted submissions from the queue', async () => {
+    const queue = new SubmissionQueue({ maxConcurrent: 1 });
+    const gate = deferred<string>();
+    const controller = new AbortController();
+    const submit = vi.fn().mockResolvedValue('never');
+
+    const first = queue.run(() => gate.promise);
+    const second = queue.run(submit, controller.signal);
+    controller.abort();
+
+    await expect(second).rejects.toThrow();
+    expect(queue.pending).toBe(0);
+
+    gate.resolve('done');
+    await expect(first).resolves.toBe('done');
+    expect(submit).not.toHaveBeenCalled();
+    expect(queue.running).toBe(0);
+  });
+});
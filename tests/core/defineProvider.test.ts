@@ -0,0 +1,184 @@
+// tests/core/defineProvider.test.ts
+import { describe, it, expect, vi } from 'vitest';
+import { AxiosError, AxiosHeaders } from 'axios';
+import { defineProvider, ProviderDefinition } from '../../src/core/defineProvider';
+import { MemoryTaskStore } from '../../src/stores/MemoryTaskStore';
+import { ApiError } from '../../src/core/Magi3DClient';
+import { TaskStatus, TaskType } from '../../src/types';
+import { httpClient } from '../helpers/providers';
+
+// Acme's response bodies (tasks, errors and envelopes)
+interface AcmeResponse {
+  id?: string;
+  state?: string;
+  progress?: number;
+  finished_at?: number;
+  ok?: boolean;
+  error?: { code: string; message?: string };
+  outputs?: { glb?: string; preview?: string };
+}
+
+const definition: ProviderDefinition<unknown, AcmeResponse> = {
+  id: 'acme',
+  name: 'Acme',
+  baseUrl: 'https://api.acme.test',
+  auth: { type: 'header', name: 'X-Api-Key', env: 'ACME_API_KEY' },
+  endpoints: {
+    create: { [TaskType.TEXT_TO_3D]: '/v1/text', [TaskType.IMAGE_TO_3D]: '/v1/image' },
+    status: '/v1/tasks/{taskId}'
+  },
+  payloads: {
+    [TaskType.TEXT_TO_3D]: (params) => ({ prompt: params.prompt }),
+    [TaskType.IMAGE_TO_3D]: (params) => ({ image_url: params.input })
+  },
+  getTaskId: (data) => data.id ?? '',
+  getStatus: (data) => data.state,
+  statusMap: { queued: TaskStatus.PENDING, done: TaskStatus.SUCCEEDED, failed: TaskStatus.FAILED },
+  getProgress: (data) => data.progress,
+  getErrorCode: (data) => data.error?.code,
+  getErrorMessage: (data) => data.error?.message,
+  errorMap: { no_credits: 'INSUFFICIENT_CREDITS', nsfw: 'CONTENT_POLICY_VIOLATION' },
+  artifacts: {
+    modelGlb: (data) => data.outputs?.glb,
+    thumbnail: (data) => data.outputs?.preview
+  }
+};
+
+const config = { apiKey: 'acme-key', maxRetries: 0 };
+
+const httpError = (status: number, data: unknown) => new AxiosError(
+  'Request failed', 'ERR_BAD_REQUEST', undefined, undefined,
+  { status, statusText: '', data, headers: {}, config: { headers: new AxiosHeaders() } }
+);
+
+describe('defineProvider', () => {
+  it('should create tasks with the mapped payload and normalize their status', async () => {
+    const taskStore = new MemoryTaskStore();
+    const creator = defineProvider(definition, { ...config, taskStore });
+    const poller = defineProvider(definition, { ...config, taskStore });
+    const create = vi.spyOn(httpClient(creator), 'request').mockResolvedValue({ data: { id: 't-1' } });
+    const status = vi.spyOn(httpClient(poller), 'request').mockResolvedValue({
+      data: { state: 'done', outputs: { glb: 'https://cdn.acme.test/t-1.glb', preview: 'https://cdn.acme.test/t-1.png' } }
+    });
+
+    const taskId = await creator.createTask({ type: TaskType.TEXT_TO_3D, prompt: 'a cat' });
+    const task = await poller.getTaskStatus(taskId);
+
+    expect(create.mock.calls[0][0]).toMatchObject({ method: 'POST', url: '/v1/text', data: { prompt: 'a cat' } });
+    expect(status.mock.calls[0][0]).toMatchObject({ method: 'GET', url: '/v1/tasks/t-1' });
+    expect(httpClient(creator).defaults.headers['X-Api-Key']).toBe('acme-key');
+    expect(task).toMatchObject({
+      id: 't-1',
+      provider: 'acme',
+      type: TaskType.TEXT_TO_3D,
+      status: TaskStatus.SUCCEEDED,
+      progress: 100,
+      result: {
+        model: 'https://cdn.acme.test/t-1.glb',
+        modelGlb: 'https://cdn.acme.test/t-1.glb',
+        thumbnail: 'https://cdn.acme.test/t-1.png'
+      }
+    });
+  });
+
+  it('should register supported types from the payload mappers', () => {
+    const provider = defineProvider(definition, config);
+
+    expect(provider.name).toBe('Acme');
+    expect(provider.supports(TaskType.IMAGE_TO_3D)).toBe(true);
+    expect(provider.supports(TaskType.RIG)).toBe(false);
+    expect(Object.keys(provider.describeCapabilities())).toEqual([TaskType.TEXT_TO_3D, TaskType.IMAGE_TO_3D]);
+  });
+
+  it('should map failed tasks and HTTP errors through the error map', async () => {
+    const provider = defineProvider(definition, config);
+    const request = vi.spyOn(httpClient(provider), 'request')
+      .mockResolvedValueOnce({ data: { id: 't-2' } })
+      .mockResolvedValueOnce({ data: { state: 'failed', error: { code: 'nsfw', message: 'Flagged' } } })
+      .mockRejectedValueOnce(httpError(402, { error: { code: 'no_credits', message: 'Out of credits' } }))
+      .mockRejectedValueOnce(httpError(400, { error: { code: 'bad_prompt' } }));
+
+    const taskId = await provider.createTask({ type: TaskType.TEXT_TO_3D, prompt: 'a cat' });
+    expect(await provider.getTaskStatus(taskId)).toMatchObject({
+      status: TaskStatus.FAILED,
+      error: { code: 'CONTENT_POLICY_VIOLATION', message: 'Flagged' }
+    });
+
+    const credits = await provider.createTask({ type: TaskType.TEXT_TO_3D, prompt: 'a cat' }).catch((e) => e);
+    expect(credits).toBeInstanceOf(ApiError);
+    expect(credits).toMatchObject({ code: 'INSUFFICIENT_CREDITS', httpStatus: 402 });
+    expect(credits.message).toContain('Out of credits');
+
+    const unmapped = await provider.createTask({ type: TaskType.TEXT_TO_3D, prompt: 'a cat' }).catch((e) => e);
+    expect(unmapped.code).toBe('ACME_ERROR_bad_prompt');
+    expect(request).toHaveBeenCalledTimes(4);
+  });
+
+  it('should require an API key and reject unsupported operations', async () => {
+    expect(() => defineProvider(definition)).toThrow(
+      'Acme API key is required. Provide it via config.apiKey or set ACME_API_KEY environment variable.'
+    );
+
+    const provider = defineProvider(definition, config);
+    await expect(provider.getTaskStatus('t-unknown')).rejects.toThrow('Unknown task ID');
+    await expect(provider.cancelTask('t-1')).rejects.toMatchObject({ code: 'UNSUPPORTED' });
+  });
+
+  it('should read the finish time, or keep the first one seen', async () => {
+    const taskStore = new MemoryTaskStore();
+    const reporting = defineProvider({ ...definition, getFinishedAt: (data) => data.finished_at }, config);
+    const creator = defineProvider(definition, { ...config, taskStore });
+    const poller = defineProvider(definition, { ...config, taskStore });
+    vi.spyOn(httpClient(reporting), 'request')
+      .mockResolvedValueOnce({ data: { id: 't-3' } })
+      .mockResolvedValueOnce({ data: { state: 'done', finished_at: 1700000000000 } });
+    vi.spyOn(httpClient(creator), 'request')
+      .mockResolvedValueOnce({ data: { id: 't-4' } })
+      .mockResolvedValueOnce({ data: { state: 'failed' } });
+    vi.spyOn(httpClient(poller), 'request').mockResolvedValue({ data: { state: 'failed' } });
+
+    const reported = await reporting.getTaskStatus(
+      await reporting.createTask({ type: TaskType.TEXT_TO_3D, prompt: 'a cat' })
+    );
+    expect(reported.finishedAt).toBe(1700000000000);
+
+    const taskId = await creator.createTask({ type: TaskType.TEXT_TO_3D, prompt: 'a cat' });
+    vi.useFakeTimers({ now: 1700000060000 });
+    try {
+      const first = await creator.getTaskStatus(taskId);
+      vi.setSystemTime(1700000120000);
+      const later = await poller.getTaskStatus(taskId);
+
+      expect(first.finishedAt).toBe(1700000060000);
+      expect(later.finishedAt).toBe(1700000060000);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should cancel through the cancel endpoint', async () => {
+    const posting = defineProvider({
+      ...definition,
+      endpoints: { ...definition.endpoints, cancel: '/v1/tasks/{taskId}/cancel' },
+      isError: (data) => data.ok === false
+    }, config);
+    const deleting = defineProvider({
+      ...definition,
+      endpoints: { ...definition.endpoints, cancel: { method: 'DELETE', path: '/v1/tasks/{taskId}' } }
+    }, config);
+    const post = vi.spyOn(httpClient(posting), 'request')
+      .mockResolvedValueOnce({ data: { ok: true } })
+      .mockResolvedValueOnce({ data: { ok: false, error: { code: 'already_done', message: 'Task finished' } } });
+    const del = vi.spyOn(httpClient(deleting), 'request').mockResolvedValue({ data: {} });
+
+    await posting.cancelTask('t 5');
+    const error = await posting.cancelTask('t-6').catch((e) => e);
+    await deleting.cancelTask('t-7');
+
+    expect(post.mock.calls[0][0]).toMatchObject({ method: 'POST', url: '/v1/tasks/t%205/cancel' });
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error.code).toBe('ACME_ERROR_already_done');
+    expect(error.message).toContain('Task finished');
+    expect(del.mock.calls[0][0]).toMatchObject({ method: 'DELETE', url: '/v1/tasks/t-7' });
+  });
+});
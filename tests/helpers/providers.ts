@@ -0,0 +1,48 @@
+// tests/helpers/providers.ts
+import type { AxiosInstance } from 'axios';
+import { AbstractProvider, ImageInput, RequestOptions } from '../../src/core/AbstractProvider';
+import { ProviderConfig, StandardTask, TaskStatus, TaskType, ProviderId, TaskParams } from '../../src/types';
+
+/**
+ * Provider double for client tests. Records submissions and reports every
+ * task as succeeded; subclasses override `doCreateTask` and
+ * `getTaskStatus`, which are public so tests can also spy on them.
+ */
+export class TestProvider extends AbstractProvider {
+  readonly name: string = 'Mock';
+  /** Params of each submission, in order */
+  created: TaskParams[] = [];
+
+  constructor(config: ProviderConfig = {}, types: TaskType[] = Object.values(TaskType)) {
+    super(config);
+    types.forEach((type) => this.supportedTaskTypes.add(type));
+  }
+
+  protected async prepareInput(input: ImageInput): Promise<string> {
+    return input;
+  }
+
+  async doCreateTask(params: TaskParams, _options?: RequestOptions): Promise<string> {
+    this.created.push(params);
+    return 'task-123';
+  }
+
+  async getTaskStatus(taskId: string, _options?: RequestOptions): Promise<StandardTask> {
+    return {
+      id: taskId,
+      provider: ProviderId.MOCK,
+      type: TaskType.TEXT_TO_3D,
+      status: TaskStatus.SUCCEEDED,
+      progress: 100,
+      createdAt: Date.now()
+    };
+  }
+}
+
+/**
+ * HTTP client of a built-in or `defineProvider()` provider, for spying on
+ * its requests.
+ */
+export function httpClient(provider: AbstractProvider): AxiosInstance {
+  return (provider as unknown as { client: AxiosInstance }).client;
+}
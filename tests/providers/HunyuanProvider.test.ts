@@ -0,0 +1,69 @@
+// tests/providers/HunyuanProvider.test.ts
+import { describe, it, expect, vi } from 'vitest';
+import { HunyuanProvider } from '../../src/providers/HunyuanProvider';
+import { MemoryTaskStore } from '../../src/stores/MemoryTaskStore';
+import { TaskStatus, TaskType } from '../../src/types';
+import { httpClient } from '../helpers/providers';
+
+const credentials = { secretId: 'test-id', secretKey: 'test-key' };
+
+describe('HunyuanProvider', () => {
+  describe('task store', () => {
+    it('should query jobs created by another instance sharing the store', async () => {
+      const taskStore = new MemoryTaskStore();
+      const creator = new HunyuanProvider({ ...credentials, taskStore });
+      const poller = new HunyuanProvider({ ...credentials, taskStore });
+
+      vi.spyOn(httpClient(creator), 'post').mockResolvedValue({
+        data: { Response: { JobId: 'job-1', RequestId: 'req-1' } }
+      });
+      const post = vi.spyOn(httpClient(poller), 'post').mockResolvedValue({
+        data: { Response: { RequestId: 'req-2', Status: 'RUN' } }
+      });
+
+      const taskId = await creator.createTask({ type: TaskType.TEXT_TO_3D, prompt: 'a cube' });
+      const task = await poller.getTaskStatus(taskId);
+
+      expect(task.status).toBe(TaskStatus.PROCESSING);
+      expect(task.type).toBe(TaskType.TEXT_TO_3D);
+      expect(post.mock.calls[0][1]).toBe(JSON.stringify({ JobId: 'job-1' }));
+    });
+
+    it('should reject unknown task IDs', async () => {
+      const provider = new HunyuanProvider(credentials);
+
+      await expect(provider.getTaskStatus('job-unknown')).rejects.toThrow('Unknown task ID');
+    });
+  });
+
+  describe('retries', () => {
+    it('should retry ServiceUnavailable errors', async () => {
+      const provider = new HunyuanProvider({ ...credentials, retry: { baseDelay: 1 } });
+      const post = vi.spyOn(httpClient(provider), 'post')
+        .mockResolvedValueOnce({
+          data: { Response: { RequestId: 'req-1', Error: { Code: 'ServiceUnavailable', Message: 'Try again later' } } }
+        })
+        .mockResolvedValueOnce({ data: { Response: { JobId: 'job-2', RequestId: 'req-2' } } });
+
+      const taskId = await provider.createTask({ type: TaskType.TEXT_TO_3D, prompt: 'a cube' });
+
+      expect(taskId).toBe('job-2');
+      expect(post).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('describeCapabilities', () => {
+    it('should describe option ranges and model URL inputs', () => {
+      const provider = new HunyuanProvider(credentials);
+      const capabilities = provider.describeCapabilities();
+
+      for (const type of Object.values(TaskType)) {
+        expect(capabilities[type] !== undefined).toBe(provider.supports(type));
+      }
+      const faceCount = capabilities[TaskType.TEXT_TO_3D]?.options.find((field) => field.name === 'FaceCount');
+      expect(faceCount).toMatchObject({ min: 40000, max: 1500000 });
+      expect(capabilities[TaskType.TEXTURE]?.source).toBe('modelUrl');
+      expect(capabilities[TaskType.TEXTURE]?.params[0]).toMatchObject({ name: 'modelUrl', required: true });
+    });
+  });
+});
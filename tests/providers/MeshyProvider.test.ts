@@ -0,0 +1,183 @@
+// tests/providers/MeshyProvider.test.ts
+import { describe, it, expect, vi } from 'vitest';
+import { AxiosError, AxiosHeaders } from 'axios';
+import { MeshyProvider } from '../../src/providers/MeshyProvider';
+import { MemoryTaskStore } from '../../src/stores/MemoryTaskStore';
+import { ApiError } from '../../src/core/Magi3DClient';
+import { TaskStatus, TaskType } from '../../src/types';
+import { httpClient } from '../helpers/providers';
+
+const config = { apiKey: 'msy_test', maxRetries: 0 };
+
+describe('MeshyProvider', () => {
+  describe('createTask', () => {
+    it('should send text-to-3D as a preview and refine by preview task ID', async () => {
+      const provider = new MeshyProvider(config);
+      const post = vi.spyOn(httpClient(provider), 'post').mockResolvedValue({ data: { result: 'task-1' } });
+
+      await provider.createTask({ type: TaskType.TEXT_TO_3D, prompt: 'a chair', providerOptions: { art_style: 'sculpture' } });
+      await provider.createTask({ type: TaskType.REFINE, taskId: 'task-1', providerOptions: { enable_pbr: true } });
+
+      expect(post.mock.calls[0][0]).toBe('/openapi/v2/text-to-3d');
+      expect(post.mock.calls[0][1]).toEqual({ mode: 'preview', prompt: 'a chair', art_style: 'sculpture' });
+      expect(post.mock.calls[1][1]).toEqual({ mode: 'refine', preview_task_id: 'task-1', enable_pbr: true });
+    });
+
+    it('should wrap raw base64 images in data URIs', async () => {
+      const provider = new MeshyProvider(config);
+      const post = vi.spyOn(httpClient(provider), 'post').mockResolvedValue({ data: { result: 'task-2' } });
+      const png = 'iVBORw0KGgo' + 'A'.repeat(100);
+
+      await provider.createTask({ type: TaskType.IMAGE_TO_3D, input: png });
+
+      expect(post.mock.calls[0][0]).toBe('/openapi/v1/image-to-3d');
+      expect(post.mock.calls[0][1]).toEqual({ image_url: `data:image/png;base64,${png}` });
+    });
+
+    it('should reject params Meshy cannot express', async () => {
+      const provider = new MeshyProvider(config);
+      vi.spyOn(httpClient(provider), 'post').mockResolvedValue({ data: { result: 'task-3' } });
+
+      await expect(provider.createTask({ type: TaskType.CONVERT, taskId: 't', format: '3mf' }))
+        .rejects.toThrow('Meshy cannot convert to 3mf');
+      await expect(provider.createTask({ type: TaskType.ANIMATE, taskId: 't', animation: 'preset:walk' }))
+        .rejects.toThrow('numeric action ID');
+      await expect(provider.createTask({ type: TaskType.TEXTURE, taskId: 't' }))
+        .rejects.toThrow('requires prompt or styleImage');
+    });
+
+    it('should map HTTP errors to SDK error codes', async () => {
+      const provider = new MeshyProvider(config);
+      const response = {
+        status: 402,
+        statusText: 'Payment Required',
+        data: { message: 'Not enough credits' },
+        headers: {},
+        config: { headers: new AxiosHeaders() }
+      };
+      vi.spyOn(httpClient(provider), 'post').mockRejectedValue(
+        new AxiosError('Request failed', 'ERR_BAD_REQUEST', undefined, undefined, response)
+      );
+
+      const error = await provider.createTask({ type: TaskType.TEXT_TO_3D, prompt: 'a chair' }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(ApiError);
+      expect(error.code).toBe('INSUFFICIENT_CREDITS');
+      expect(error.httpStatus).toBe(402);
+    });
+  });
+
+  describe('getTaskStatus', () => {
+    it('should query the endpoint of the task type and map model URLs', async () => {
+      const taskStore = new MemoryTaskStore();
+      const creator = new MeshyProvider({ ...config, taskStore });
+      const poller = new MeshyProvider({ ...config, taskStore });
+
+      vi.spyOn(httpClient(creator), 'post').mockResolvedValue({ data: { result: 'task-4' } });
+      const get = vi.spyOn(httpClient(poller), 'get').mockResolvedValue({
+        data: {
+          id: 'task-4',
+          status: 'SUCCEEDED',
+          progress: 100,
+          created_at: 1700000000000,
+          finished_at: 1700000060000,
+          model_urls: { glb: 'https://x/m.glb', fbx: 'https://x/m.fbx', usdz: 'https://x/m.usdz' },
+          thumbnail_url: 'https://x/t.png',
+          texture_urls: [{ base_color: 'https://x/albedo.png', normal: 'https://x/normal.png' }]
+        }
+      });
+
+      const taskId = await creator.createTask({ type: TaskType.MULTIVIEW_TO_3D, inputs: ['https://x/a.png', ''] });
+      const task = await poller.getTaskStatus(taskId);
+
+      expect(get.mock.calls[0][0]).toBe('/openapi/v1/multi-image-to-3d/task-4');
+      expect(task).toMatchObject({
+        provider: 'meshy',
+        type: TaskType.MULTIVIEW_TO_3D,
+        status: TaskStatus.SUCCEEDED,
+        finishedAt: 1700000060000,
+        result: {
+          model: 'https://x/m.glb',
+          modelFbx: 'https://x/m.fbx',
+          modelUsdz: 'https://x/m.usdz',
+          thumbnail: 'https://x/t.png',
+          textureMaps: { albedo: 'https://x/albedo.png', normal: 'https://x/normal.png' }
+        }
+      });
+    });
+
+    it('should map rigged models and task errors', async () => {
+      const provider = new MeshyProvider(config);
+      vi.spyOn(httpClient(provider), 'post').mockResolvedValue({ data: { result: 'rig-1' } });
+      const get = vi.spyOn(httpClient(provider), 'get').mockResolvedValueOnce({
+        data: {
+          id: 'rig-1',
+          status: 'SUCCEEDED',
+          result: { rigged_character_glb_url: 'https://x/rig.glb', rigged_character_fbx_url: 'https://x/rig.fbx' }
+        }
+      });
+
+      const taskId = await provider.createTask({ type: TaskType.RIG, taskId: 'task-4' });
+      const rigged = await provider.getTaskStatus(taskId);
+      expect(rigged.result).toMatchObject({ model: 'https://x/rig.glb', modelFbx: 'https://x/rig.fbx' });
+
+      get.mockResolvedValueOnce({ data: { id: 'rig-1', status: 'EXPIRED', task_error: { message: 'Task expired' } } });
+      const expired = await provider.getTaskStatus(taskId);
+      expect(expired.status).toBe(TaskStatus.FAILED);
+      expect(expired.error).toMatchObject({ code: 'TASK_EXPIRED', message: 'Task expired' });
+    });
+
+    it('should return the requested format of convert tasks', async () => {
+      const provider = new MeshyProvider(config);
+      vi.spyOn(httpClient(provider), 'post')
+        .mockResolvedValueOnce({ data: { result: 'remesh-stl' } })
+        .mockResolvedValueOnce({ data: { result: 'remesh-fbx' } });
+      vi.spyOn(httpClient(provider), 'get')
+        .mockResolvedValueOnce({ data: { id: 'remesh-stl', status: 'SUCCEEDED', model_urls: { stl: 'https://x/m.stl' } } })
+        .mockResolvedValueOnce({ data: { id: 'remesh-fbx', status: 'SUCCEEDED', model_urls: { glb: 'https://x/m.glb', fbx: 'https://x/m.fbx' } } });
+
+      const stl = await provider.getTaskStatus(
+        await provider.createTask({ type: TaskType.CONVERT, taskId: 'task-4', format: 'stl' })
+      );
+      const fbx = await provider.getTaskStatus(
+        await provider.createTask({ type: TaskType.CONVERT, taskId: 'task-4', format: 'fbx' })
+      );
+
+      expect(stl).toMatchObject({ type: TaskType.CONVERT, status: TaskStatus.SUCCEEDED });
+      expect(stl.result).toEqual({ model: 'https://x/m.stl' });
+      expect(fbx.result).toEqual({ model: 'https://x/m.fbx', modelFbx: 'https://x/m.fbx' });
+    });
+
+    it('should fail convert tasks missing the requested format', async () => {
+      const provider = new MeshyProvider(config);
+      vi.spyOn(httpClient(provider), 'post').mockResolvedValue({ data: { result: 'remesh-1' } });
+      vi.spyOn(httpClient(provider), 'get')
+        .mockResolvedValue({ data: { id: 'remesh-1', status: 'SUCCEEDED', model_urls: { glb: 'https://x/m.glb' } } });
+
+      const taskId = await provider.createTask({ type: TaskType.CONVERT, taskId: 'task-4', format: 'stl' });
+      const task = await provider.getTaskStatus(taskId);
+
+      expect(task.status).toBe(TaskStatus.FAILED);
+      expect(task.result).toBeUndefined();
+      expect(task.error).toMatchObject({ code: 'CONVERSION_FAILED' });
+    });
+
+    it('should reject unknown task IDs', async () => {
+      const provider = new MeshyProvider(config);
+
+      await expect(provider.getTaskStatus('task-unknown')).rejects.toThrow('Unknown task ID');
+    });
+  });
+
+  describe('describeCapabilities', () => {
+    it('should list every supported task type', () => {
+      const provider = new MeshyProvider(config);
+      const capabilities = provider.describeCapabilities();
+
+      for (const type of Object.values(TaskType)) {
+        expect(capabilities[type] !== undefined).toBe(provider.supports(type));
+      }
+      expect(capabilities[TaskType.TEXT_TO_3D]?.outputFormats).toEqual(['glb', 'fbx', 'obj', 'usdz']);
+    });
+  });
+});
@@ -0,0 +1,124 @@
+// tests/providers/MockProvider.test.ts
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { MockProvider } from '../../src/providers/MockProvider';
+import { Magi3DClient, ApiError } from '../../src/core/Magi3DClient';
+import { ProviderId, TaskStatus, TaskType } from '../../src/types';
+
+describe('MockProvider', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should move tasks from queued to running to succeeded', async () => {
+    const provider = new MockProvider({ durations: { queued: 1000, running: 4000 } });
+    const taskId = await provider.createTask({ type: TaskType.TEXT_TO_3D, prompt: 'a cat' });
+
+    expect(taskId).toBe('mock-1');
+    expect(await provider.getTaskStatus(taskId)).toMatchObject({ status: TaskStatus.PENDING, progress: 0 });
+
+    vi.advanceTimersByTime(2000);
+    expect(await provider.getTaskStatus(taskId)).toMatchObject({ status: TaskStatus.PROCESSING, progress: 25 });
+
+    vi.advanceTimersByTime(3000);
+    expect(await provider.getTaskStatus(taskId)).toMatchObject({
+      provider: ProviderId.MOCK,
+      status: TaskStatus.SUCCEEDED,
+      progress: 100,
+      result: { model: expect.stringMatching(/^data:model\/gltf-binary;base64,/) }
+    });
+  });
+
+  it('should return loadable placeholder files by default', async () => {
+    const provider = new MockProvider({ durations: { queued: 0, running: 0 } });
+    const taskId = await provider.createTask({ type: TaskType.TEXT_TO_3D, prompt: 'a cat' });
+    const { result } = await provider.getTaskStatus(taskId);
+
+    const decode = (url: string) => Buffer.from(url.slice(url.indexOf(',') + 1), 'base64');
+    const glb = decode(result!.model);
+    expect(glb.subarray(0, 4).toString('ascii')).toBe('glTF');
+    expect(glb.readUInt32LE(8)).toBe(glb.length);
+    expect(decode(result!.thumbnail!).subarray(1, 4).toString('ascii')).toBe('PNG');
+  });
+
+  it('should serve placeholder artifacts from artifactBaseUrl', async () => {
+    const provider = new MockProvider({
+      durations: { queued: 0, running: 0 },
+      artifactBaseUrl: 'https://assets.test/mock',
+      providerId: ProviderId.TRIPO
+    });
+    const taskId = await provider.createTask({ type: TaskType.TEXT_TO_3D, prompt: 'a cat' });
+
+    expect(await provider.getTaskStatus(taskId)).toMatchObject({
+      provider: ProviderId.TRIPO,
+      result: { model: 'https://assets.test/mock/mock-1.glb', thumbnail: 'https://assets.test/mock/mock-1.png' }
+    });
+  });
+
+  it('should support every task type with matching placeholder artifacts', async () => {
+    const provider = new MockProvider({ durations: { queued: 0, running: 0 } });
+
+    for (const type of Object.values(TaskType)) {
+      expect(provider.supports(type)).toBe(true);
+    }
+
+    const imageId = await provider.createTask({ type: TaskType.TEXT_TO_IMAGE, prompt: 'a cat' });
+    const convertId = await provider.createTask({ type: TaskType.CONVERT, taskId: 'mock-0', format: 'fbx' });
+    const checkId = await provider.createTask({ type: TaskType.PRE_RIG_CHECK, taskId: 'mock-0' });
+
+    expect((await provider.getTaskStatus(imageId)).result?.generatedImage).toMatch(/^data:image\/png;/);
+    expect((await provider.getTaskStatus(convertId)).result).toMatchObject({ modelFbx: expect.stringMatching(/^data:/) });
+    expect((await provider.getTaskStatus(checkId)).result).toMatchObject({ riggable: true });
+  });
+
+  it('should fail matching tasks with the injected error code', async () => {
+    const provider = new MockProvider({
+      durations: { queued: 0, running: 1000 },
+      failures: [{ code: 'CONTENT_POLICY_VIOLATION', types: [TaskType.RIG], times: 1 }]
+    });
+    const first = await provider.createTask({ type: TaskType.RIG, taskId: 'mock-0' });
+    const second = await provider.createTask({ type: TaskType.RIG, taskId: 'mock-0' });
+
+    vi.advanceTimersByTime(1000);
+
+    expect(await provider.getTaskStatus(first)).toMatchObject({
+      status: TaskStatus.FAILED,
+      error: { code: 'CONTENT_POLICY_VIOLATION' }
+    });
+    expect((await provider.getTaskStatus(second)).status).toBe(TaskStatus.SUCCEEDED);
+  });
+
+  it('should throw injected submit failures', async () => {
+    const provider = new MockProvider({
+      maxRetries: 0,
+      failures: [{ code: 'INSUFFICIENT_CREDITS', stage: 'submit', httpStatus: 403 }]
+    });
+
+    const error = await provider.createTask({ type: TaskType.TEXT_TO_3D, prompt: 'a cat' }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toMatchObject({ code: 'INSUFFICIENT_CREDITS', httpStatus: 403 });
+  });
+
+  it('should use per-type durations and support cancellation', async () => {
+    const provider = new MockProvider({
+      durations: { queued: 0, running: 1000 },
+      typeDurations: { [TaskType.ANIMATE]: { queued: 0, running: 10000 } }
+    });
+    const client = new Magi3DClient(provider);
+    const taskId = await client.createTask({ type: TaskType.ANIMATE, taskId: 'mock-0', animation: 'walk' });
+
+    vi.advanceTimersByTime(1000);
+    expect((await provider.getTaskStatus(taskId)).progress).toBe(10);
+
+    await client.cancelTask(taskId);
+    vi.advanceTimersByTime(10000);
+    expect(await provider.getTaskStatus(taskId)).toMatchObject({
+      status: TaskStatus.CANCELED,
+      error: { code: 'TASK_CANCELED' }
+    });
+  });
+});
@@ -0,0 +1,153 @@
+// tests/providers/RodinProvider.test.ts
+import { describe, it, expect, vi } from 'vitest';
+import { RodinProvider } from '../../src/providers/RodinProvider';
+import { MemoryTaskStore } from '../../src/stores/MemoryTaskStore';
+import { ApiError } from '../../src/core/Magi3DClient';
+import { TaskStatus, TaskType } from '../../src/types';
+import { httpClient } from '../helpers/providers';
+
+const config = { apiKey: 'rodin-test', maxRetries: 0 };
+
+const png = 'iVBORw0KGgo' + 'A'.repeat(100);
+
+const created = {
+  data: { error: null, uuid: 'task-1', jobs: { uuids: ['job-1', 'job-2'], subscription_key: 'sub-1' } }
+};
+
+describe('RodinProvider', () => {
+  describe('createTask', () => {
+    it('should upload images and send options as form fields', async () => {
+      const provider = new RodinProvider(config);
+      const post = vi.spyOn(httpClient(provider), 'post').mockResolvedValue(created);
+
+      await provider.createTask({
+        type: TaskType.MULTIVIEW_TO_3D,
+        inputs: [png, '', png],
+        providerOptions: { tier: 'Detail', material: 'All', addons: ['HighPack'], bbox_condition: [1, 2, 1] }
+      });
+
+      const [path, form] = post.mock.calls[0] as [string, FormData];
+      expect(path).toBe('/rodin');
+      expect(form.getAll('images')).toHaveLength(2);
+      expect((form.get('images') as File).name).toBe('image_0.png');
+      expect(form.get('tier')).toBe('Detail');
+      expect(form.get('material')).toBe('All');
+      expect(form.getAll('addons')).toEqual(['HighPack']);
+      expect(form.get('bbox_condition')).toBe('[1,2,1]');
+      expect(form.get('condition_mode')).toBe('concat');
+    });
+
+    it('should map error strings to SDK error codes', async () => {
+      const provider = new RodinProvider(config);
+      vi.spyOn(httpClient(provider), 'post').mockResolvedValue({
+        data: { error: 'INSUFFICIENT_FUND', message: 'Not enough credits' }
+      });
+
+      const error = await provider.createTask({ type: TaskType.TEXT_TO_3D, prompt: 'a chair' }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(ApiError);
+      expect(error.code).toBe('INSUFFICIENT_CREDITS');
+    });
+  });
+
+  describe('getTaskStatus', () => {
+    it('should combine job statuses until all jobs are done', async () => {
+      const provider = new RodinProvider(config);
+      const post = vi.spyOn(httpClient(provider), 'post')
+        .mockResolvedValueOnce(created)
+        .mockResolvedValueOnce({
+          data: { error: null, jobs: [{ uuid: 'job-1', status: 'Done' }, { uuid: 'job-2', status: 'Generating' }] }
+        });
+
+      const taskId = await provider.createTask({ type: TaskType.TEXT_TO_3D, prompt: 'a chair' });
+      const task = await provider.getTaskStatus(taskId);
+
+      expect(post.mock.calls[1]).toEqual(['/status', { subscription_key: 'sub-1' }, expect.anything()]);
+      expect(task).toMatchObject({ status: TaskStatus.PROCESSING, progress: 50, provider: 'rodin' });
+    });
+
+    it('should map the download list once all jobs are done', async () => {
+      const taskStore = new MemoryTaskStore();
+      const creator = new RodinProvider({ ...config, taskStore });
+      const poller = new RodinProvider({ ...config, taskStore });
+
+      vi.spyOn(httpClient(creator), 'post').mockResolvedValue(created);
+      const post = vi.spyOn(httpClient(poller), 'post')
+        .mockResolvedValueOnce({
+          data: { error: null, jobs: [{ uuid: 'job-1', status: 'Done' }, { uuid: 'job-2', status: 'Done' }] }
+        })
+        .mockResolvedValueOnce({
+          data: {
+            error: null,
+            list: [
+              { name: 'base_basic_pbr.glb', url: 'https://x/pbr.glb' },
+              { name: 'base_basic_shaded.fbx', url: 'https://x/shaded.fbx' },
+              { name: 'preview.webp', url: 'https://x/preview.webp' },
+              { name: 'texture_diffuse.png', url: 'https://x/diffuse.png' }
+            ]
+          }
+        });
+
+      const taskId = await creator.createTask({ type: TaskType.IMAGE_TO_3D, input: png });
+      const task = await poller.getTaskStatus(taskId);
+
+      expect(post.mock.calls[1][0]).toBe('/download');
+      expect(post.mock.calls[1][1]).toEqual({ task_uuid: 'task-1' });
+      expect(task).toMatchObject({
+        type: TaskType.IMAGE_TO_3D,
+        status: TaskStatus.SUCCEEDED,
+        result: {
+          model: 'https://x/pbr.glb',
+          modelPbr: 'https://x/pbr.glb',
+          modelFbx: 'https://x/shaded.fbx',
+          thumbnail: 'https://x/preview.webp',
+          textureMaps: { albedo: 'https://x/diffuse.png' }
+        }
+      });
+    });
+
+    it('should fail the task when a job fails', async () => {
+      const provider = new RodinProvider(config);
+      vi.spyOn(httpClient(provider), 'post')
+        .mockResolvedValueOnce(created)
+        .mockResolvedValueOnce({
+          data: { error: null, jobs: [{ uuid: 'job-1', status: 'Failed' }, { uuid: 'job-2', status: 'Waiting' }] }
+        });
+
+      const taskId = await provider.createTask({ type: TaskType.TEXT_TO_3D, prompt: 'a chair' });
+      const task = await provider.getTaskStatus(taskId);
+
+      expect(task.status).toBe(TaskStatus.FAILED);
+      expect(task.error?.code).toBe('GENERATION_FAILED');
+    });
+
+    it('should keep the finish time of the first finished status', async () => {
+      const taskStore = new MemoryTaskStore();
+      const creator = new RodinProvider({ ...config, taskStore });
+      const poller = new RodinProvider({ ...config, taskStore });
+      const failed = { data: { error: null, jobs: [{ uuid: 'job-1', status: 'Failed' }] } };
+
+      vi.spyOn(httpClient(creator), 'post').mockResolvedValueOnce(created).mockResolvedValueOnce(failed);
+      vi.spyOn(httpClient(poller), 'post').mockResolvedValue(failed);
+
+      const taskId = await creator.createTask({ type: TaskType.TEXT_TO_3D, prompt: 'a chair' });
+      vi.useFakeTimers({ now: 1700000000000 });
+      try {
+        const first = await creator.getTaskStatus(taskId);
+        vi.setSystemTime(1700000060000);
+        const later = await poller.getTaskStatus(taskId);
+
+        expect(first.finishedAt).toBe(1700000000000);
+        expect(later.finishedAt).toBe(1700000000000);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should reject unknown task IDs', async () => {
+      const provider = new RodinProvider(config);
+
+      await expect(provider.getTaskStatus('task-unknown')).rejects.toThrow('Unknown task ID');
+    });
+  });
+});
@@ -0,0 +1,150 @@
+// tests/providers/RouterProvider.test.ts
+import { describe, it, expect, vi } from 'vitest';
+import { ApiError } from '../../src/core/Magi3DClient';
+import { RouterProvider } from '../../src/providers/RouterProvider';
+import { StandardTask, TaskStatus, TaskType, ProviderId, TaskParams } from '../../src/types';
+import { TestProvider } from '../helpers/providers';
+
+// Mock provider that can be told to fail submissions
+class MockProvider extends TestProvider {
+  failWith?: Error;
+
+  constructor(readonly name: string, types: TaskType[]) {
+    super({}, types);
+  }
+
+  async doCreateTask(params: TaskParams) {
+    if (this.failWith) throw this.failWith;
+    this.created.push(params);
+    return `${this.name.toLowerCase()}-${this.created.length}`;
+  }
+
+  async getTaskStatus(taskId: string): Promise<StandardTask> {
+    return {
+      id: taskId,
+      provider: ProviderId.TRIPO,
+      type: TaskType.TEXT_TO_3D,
+      status: TaskStatus.SUCCEEDED,
+      progress: 100,
+      createdAt: Date.now()
+    };
+  }
+
+  cancelTask = vi.fn(async () => {});
+}
+
+function setup() {
+  const tripo = new MockProvider('Tripo', [TaskType.TEXT_TO_3D, TaskType.RIG]);
+  const hunyuan = new MockProvider('Hunyuan', [TaskType.TEXT_TO_3D, TaskType.UV_UNWRAP]);
+  return { tripo, hunyuan };
+}
+
+describe('RouterProvider', () => {
+  it('should prefix task IDs with the provider that created them', async () => {
+    const { tripo, hunyuan } = setup();
+    const router = new RouterProvider({ providers: [tripo, hunyuan] });
+
+    await expect(router.createTask({ type: TaskType.TEXT_TO_3D, prompt: 'a cat' })).resolves.toBe('Tripo:tripo-1');
+    await expect(router.createTask({ type: TaskType.UV_UNWRAP, taskId: 'x' })).resolves.toBe('Hunyuan:hunyuan-1');
+  });
+
+  it('should support the union of provider task types', () => {
+    const { tripo, hunyuan } = setup();
+    const router = new RouterProvider({ providers: [tripo, hunyuan] });
+
+    expect(router.supports(TaskType.RIG)).toBe(true);
+    expect(router.supports(TaskType.UV_UNWRAP)).toBe(true);
+    expect(router.supports(TaskType.ANIMATE)).toBe(false);
+  });
+
+  it('should fall back on credit, access, rate limit and server errors', async () => {
+    for (const code of ['INSUFFICIENT_CREDITS', 'ACCESS_DENIED', 'RATE_LIMIT_EXCEEDED', 'SERVER_ERROR']) {
+      const { tripo, hunyuan } = setup();
+      const onFallback = vi.fn();
+      const router = new RouterProvider({ providers: [tripo, hunyuan], onFallback });
+      tripo.failWith = new ApiError('nope', code);
+
+      await expect(router.createTask({ type: TaskType.TEXT_TO_3D, prompt: 'a cat' })).resolves.toBe('Hunyuan:hunyuan-1');
+      expect(onFallback).toHaveBeenCalledWith(expect.objectContaining({ from: 'Tripo', to: 'Hunyuan' }));
+    }
+  });
+
+  it('should surface other errors without falling back', async () => {
+    const { tripo, hunyuan } = setup();
+    const router = new RouterProvider({ providers: [tripo, hunyuan] });
+    tripo.failWith = new ApiError('bad prompt', 'CONTENT_POLICY_VIOLATION');
+
+    await expect(router.createTask({ type: TaskType.TEXT_TO_3D, prompt: 'x' })).rejects.toMatchObject({
+      code: 'CONTENT_POLICY_VIOLATION'
+    });
+    expect(hunyuan.created).toHaveLength(0);
+  });
+
+  it('should honor per-task-type routes and the shouldFallback override', async () => {
+    const { tripo, hunyuan } = setup();
+    const router = new RouterProvider({
+      providers: [tripo, hunyuan],
+      routes: { [TaskType.TEXT_TO_3D]: ['Hunyuan', 'Tripo'] },
+      shouldFallback: () => false
+    });
+    hunyuan.failWith = new ApiError('nope', 'INSUFFICIENT_CREDITS');
+
+    await expect(router.createTask({ type: TaskType.TEXT_TO_3D, prompt: 'a cat' })).rejects.toMatchObject({
+      code: 'INSUFFICIENT_CREDITS'
+    });
+    expect(tripo.created).toHaveLength(0);
+  });
+
+  it('should pin post-processing to the provider of the source task', async () => {
+    const { tripo, hunyuan } = setup();
+    const router = new RouterProvider({ providers: [hunyuan, tripo] });
+    const rigSpy = vi.spyOn(tripo, 'createTask');
+
+    const taskId = await router.createTask({ type: TaskType.RIG, taskId: 'Tripo:tripo-9' });
+
+    expect(taskId).toBe('Tripo:tripo-1');
+    expect(rigSpy.mock.calls[0][0]).toMatchObject({ taskId: 'tripo-9' });
+  });
+
+  it('should route status queries and cancellation by task ID', async () => {
+    const { tripo, hunyuan } = setup();
+    const router = new RouterProvider({ providers: [tripo, hunyuan] });
+    const statusSpy = vi.spyOn(hunyuan, 'getTaskStatus');
+
+    const task = await router.getTaskStatus('Hunyuan:job-1');
+    await router.cancelTask('Tripo:task-1');
+
+    expect(statusSpy).toHaveBeenCalledWith('job-1', {});
+    expect(task.id).toBe('Hunyuan:job-1');
+    expect(tripo.cancelTask).toHaveBeenCalledWith('task-1');
+    await expect(router.getTaskStatus('Meshy:abc')).rejects.toThrow('Unknown task ID');
+  });
+
+  it('should describe each task type using the preferred provider', () => {
+    const { tripo, hunyuan } = setup();
+    vi.spyOn(hunyuan, 'describeCapabilities').mockReturnValue({
+      [TaskType.TEXT_TO_3D]: { type: TaskType.TEXT_TO_3D, params: [], options: [], output: 'model', outputFormats: ['obj'] }
+    });
+    const router = new RouterProvider({
+      providers: [tripo, hunyuan],
+      routes: { [TaskType.TEXT_TO_3D]: ['Hunyuan', 'Tripo'] }
+    });
+
+    const capabilities = router.describeCapabilities();
+
+    expect(capabilities[TaskType.TEXT_TO_3D]?.outputFormats).toEqual(['obj']);
+    expect(capabilities[TaskType.RIG]).toMatchObject({ type: TaskType.RIG, params: [], output: 'model' });
+    // Not described by the mocked Hunyuan table
+    expect(capabilities[TaskType.UV_UNWRAP]).toBeUndefined();
+  });
+
+  it('should estimate on the provider owning the source task', () => {
+    const { tripo, hunyuan } = setup();
+    const estimate = vi.spyOn(tripo, 'estimateCost').mockReturnValue(undefined);
+    const router = new RouterProvider({ providers: [hunyuan, tripo] });
+
+    router.estimateCost({ type: TaskType.RIG, taskId: 'Tripo:tripo-9' });
+
+    expect(estimate).toHaveBeenCalledWith({ type: TaskType.RIG, taskId: 'tripo-9' });
+  });
+});
@@ -0,0 +1,121 @@
+// tests/providers/StabilityProvider.test.ts
+import { describe, it, expect, vi } from 'vitest';
+import { AxiosError, AxiosHeaders } from 'axios';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { fileURLToPath } from 'url';
+import { StabilityProvider } from '../../src/providers/StabilityProvider';
+import { MemoryTaskStore } from '../../src/stores/MemoryTaskStore';
+import { ApiError } from '../../src/core/Magi3DClient';
+import { TaskStatus, TaskType } from '../../src/types';
+import { httpClient } from '../helpers/providers';
+
+const config = { apiKey: 'sk-test', maxRetries: 0 };
+
+const png = 'iVBORw0KGgo' + 'A'.repeat(100);
+
+const glb = new TextEncoder().encode('glTF-binary').buffer;
+
+describe('StabilityProvider', () => {
+  it('should return the generated model as a data URL under a synthetic ID', async () => {
+    const provider = new StabilityProvider(config);
+    const post = vi.spyOn(httpClient(provider), 'post').mockResolvedValue({ data: glb });
+
+    const taskId = await provider.createTask({
+      type: TaskType.IMAGE_TO_3D,
+      input: png,
+      providerOptions: { model: 'stable-point-aware-3d', texture_resolution: 2048 }
+    });
+    const task = await provider.getTaskStatus(taskId);
+
+    const [path, form] = post.mock.calls[0] as [string, FormData];
+    expect(path).toBe('/v2beta/3d/stable-point-aware-3d');
+    expect(form.get('texture_resolution')).toBe('2048');
+    expect(form.has('model')).toBe(false);
+    expect(taskId).toMatch(/^stability_/);
+    expect(task).toMatchObject({
+      id: taskId,
+      provider: 'stability',
+      status: TaskStatus.SUCCEEDED,
+      progress: 100,
+      result: { modelGlb: `data:model/gltf-binary;base64,${Buffer.from(glb).toString('base64')}` }
+    });
+  });
+
+  it('should keep data URLs out of the task store', async () => {
+    const taskStore = new MemoryTaskStore();
+    const creator = new StabilityProvider({ ...config, taskStore });
+    const poller = new StabilityProvider({ ...config, taskStore });
+    vi.spyOn(httpClient(creator), 'post').mockResolvedValue({ data: glb });
+
+    const taskId = await creator.createTask({ type: TaskType.IMAGE_TO_3D, input: png });
+
+    expect(JSON.stringify(await taskStore.get(`stability:task:${taskId}`))).not.toContain('data:');
+    await expect(poller.getTaskStatus(taskId)).rejects.toThrow('set outputDir');
+  });
+
+  it('should release data URLs once read and cap unread ones', async () => {
+    const provider = new StabilityProvider(config);
+    vi.spyOn(httpClient(provider), 'post').mockResolvedValue({ data: glb });
+
+    const taskId = await provider.createTask({ type: TaskType.IMAGE_TO_3D, input: png });
+    expect(provider['models'].size).toBe(1);
+
+    expect((await provider.getTaskStatus(taskId)).result?.model).toMatch(/^data:model\/gltf-binary;base64,/);
+    expect(provider['models'].size).toBe(0);
+    await expect(provider.getTaskStatus(taskId)).rejects.toThrow('only returned once');
+
+    const unread = [];
+    for (let i = 0; i < 25; i++) {
+      unread.push(await provider.createTask({ type: TaskType.IMAGE_TO_3D, input: png }));
+    }
+    expect(provider['models'].size).toBe(20);
+    await expect(provider.getTaskStatus(unread[0])).rejects.toThrow('only returned once');
+    await expect(provider.getTaskStatus(unread[24])).resolves.toMatchObject({ status: TaskStatus.SUCCEEDED });
+  });
+
+  it('should write the model to outputDir', async () => {
+    const outputDir = await mkdtemp(join(tmpdir(), 'magi3d-stability-'));
+    try {
+      const taskStore = new MemoryTaskStore();
+      const creator = new StabilityProvider({ ...config, outputDir, taskStore });
+      const poller = new StabilityProvider({ ...config, outputDir, taskStore });
+      vi.spyOn(httpClient(creator), 'post').mockResolvedValue({ data: glb });
+
+      const taskId = await creator.createTask({ type: TaskType.IMAGE_TO_3D, input: png });
+      const task = await poller.getTaskStatus(taskId);
+
+      expect(task.result?.model).toMatch(/^file:\/\//);
+      expect(await readFile(fileURLToPath(task.result!.model), 'utf8')).toBe('glTF-binary');
+    } finally {
+      await rm(outputDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should map HTTP errors from binary error bodies', async () => {
+    const provider = new StabilityProvider(config);
+    const response = {
+      status: 403,
+      statusText: 'Forbidden',
+      data: new TextEncoder().encode(JSON.stringify({ name: 'content_moderation', errors: ['Flagged'] })).buffer,
+      headers: {},
+      config: { headers: new AxiosHeaders() }
+    };
+    vi.spyOn(httpClient(provider), 'post').mockRejectedValue(
+      new AxiosError('Request failed', 'ERR_BAD_REQUEST', undefined, undefined, response)
+    );
+
+    const error = await provider.createTask({ type: TaskType.IMAGE_TO_3D, input: png }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error.code).toBe('CONTENT_POLICY_VIOLATION');
+    expect(error.message).toContain('Flagged');
+  });
+
+  it('should reject unknown task IDs', async () => {
+    const provider = new StabilityProvider(config);
+
+    await expect(provider.getTaskStatus('stability_unknown')).rejects.toThrow('Unknown task ID');
+  });
+});
@@ -1,7 +1,8 @@
 // tests/providers/TripoProvider.test.ts
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import { TripoProvider } from '../../src/providers/TripoProvider';
 import { TaskType } from '../../src/types';
+import { httpClient } from '../helpers/providers';
 
 describe('TripoProvider', () => {
   describe('initialization', () => {
@@ -41,6 +42,21 @@ describe('TripoProvider', () => {
     });
   });
 
+  describe('describeCapabilities', () => {
+    it('should describe every supported task type', () => {
+      const provider = new TripoProvider({ apiKey: 'test-key' });
+      const capabilities = provider.describeCapabilities();
+
+      for (const type of Object.values(TaskType)) {
+        expect(capabilities[type] !== undefined).toBe(provider.supports(type));
+      }
+      const format = capabilities[TaskType.CONVERT]?.params.find((field) => field.name === 'format');
+      expect(format).toMatchObject({ type: 'enum', required: true });
+      expect(format?.values).toContain('usdz');
+      expect(capabilities[TaskType.RIG]?.source).toBe('taskId');
+    });
+  });
+
   describe('prepareInput', () => {
     it('should accept URL inputs', async () => {
       const provider = new TripoProvider({
@@ -62,6 +78,78 @@ describe('TripoProvider', () => {
     });
   });
 
+  describe('cancelTask', () => {
+    it('should reject with UNSUPPORTED', async () => {
+      const provider = new TripoProvider({
+        apiKey: 'test-key'
+      });
+
+      await expect(provider.cancelTask('task-123')).rejects.toMatchObject({
+        code: 'UNSUPPORTED'
+      });
+    });
+  });
+
+  describe('retries', () => {
+    it('should retry server errors on task creation', async () => {
+      const provider = new TripoProvider({
+        apiKey: 'test-key',
+        retry: { baseDelay: 1 }
+      });
+      const post = vi.spyOn(httpClient(provider), 'post')
+        .mockResolvedValueOnce({ data: { code: 1000, message: 'Server error' } })
+        .mockResolvedValueOnce({ data: { code: 0, data: { task_id: 'task-123' } } });
+
+      const taskId = await provider.createTask({ type: TaskType.TEXT_TO_3D, prompt: 'a cube' });
+
+      expect(taskId).toBe('task-123');
+      expect(post).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not retry non-transient errors', async () => {
+      const provider = new TripoProvider({
+        apiKey: 'test-key',
+        retry: { baseDelay: 1 }
+      });
+      const post = vi.spyOn(httpClient(provider), 'post')
+        .mockResolvedValue({ data: { code: 2010, message: 'Not enough credits' } });
+
+      await expect(
+        provider.createTask({ type: TaskType.TEXT_TO_3D, prompt: 'a cube' })
+      ).rejects.toMatchObject({ code: 'INSUFFICIENT_CREDITS' });
+      expect(post).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop after maxRetries', async () => {
+      const provider = new TripoProvider({
+        apiKey: 'test-key',
+        maxRetries: 2,
+        retry: { baseDelay: 1 }
+      });
+      const post = vi.spyOn(httpClient(provider), 'post')
+        .mockResolvedValue({ data: { code: 2000, message: 'Too many requests' } });
+
+      await expect(
+        provider.createTask({ type: TaskType.TEXT_TO_3D, prompt: 'a cube' })
+      ).rejects.toMatchObject({ code: 'RATE_LIMIT_EXCEEDED' });
+      expect(post).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('getTaskStatus', () => {
+    it('should report pre-rig checks without a riggable flag as not riggable', async () => {
+      const provider = new TripoProvider({ apiKey: 'test-key' });
+      vi.spyOn(httpClient(provider), 'get').mockResolvedValue({
+        data: { code: 0, data: { task_id: 'check-1', type: 'animate_prerigcheck', status: 'success', progress: 100, output: {} } }
+      });
+
+      const task = await provider.getTaskStatus('check-1');
+
+      expect(task.type).toBe(TaskType.PRE_RIG_CHECK);
+      expect(task.result).toMatchObject({ riggable: false });
+    });
+  });
+
   // E2E tests (skipped by default - require real API key)
   describe.skip('E2E tests', () => {
     it('should generate model from text', async () => {
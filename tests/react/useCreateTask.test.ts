@@ -148,7 +148,7 @@ describe('useCreateTask', () => {
         useCreateTask({ api: '/api/3d', onError })
       );
 
-      let caughtError: Error | null = null;
+      let caughtError = null as Error | null;
       await act(async () => {
         try {
           await result.current.createTask({
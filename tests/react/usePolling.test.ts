@@ -297,7 +297,7 @@ describe('usePolling', () => {
       });
 
       // Now refresh
-      let refreshedTask: StandardTask | null = null;
+      let refreshedTask = null as StandardTask | null;
       await act(async () => {
         refreshedTask = await result.current.refresh();
       });
@@ -312,7 +312,7 @@ describe('usePolling', () => {
         usePolling({ api: '/api/3d' })
       );
 
-      let refreshedTask: StandardTask | null = null;
+      let refreshedTask = null as StandardTask | null;
       await act(async () => {
         refreshedTask = await result.current.refresh();
       });
@@ -506,4 +506,39 @@ describe('usePolling', () => {
       });
     });
   });
+
+  describe('pollingStrategy', () => {
+    it('should space polls with the strategy', async () => {
+      mockFetchSuccess(createMockTask({ progress: 30 }));
+      mockFetchSuccess(createMockTask({ status: TaskStatus.SUCCEEDED, progress: 100 }));
+      const pollingStrategy = { nextDelay: vi.fn(() => 5000), onSettled: vi.fn() };
+
+      const { result } = renderHook(() =>
+        usePolling({ api: '/api/3d', pollingStrategy })
+      );
+
+      act(() => {
+        result.current.startPolling('test-task-id');
+      });
+
+      await waitFor(() => {
+        expect(result.current.progress).toBe(30);
+      });
+      expect(pollingStrategy.nextDelay).toHaveBeenCalledWith(expect.objectContaining({ attempt: 1 }));
+
+      await act(async () => {
+        vi.advanceTimersByTime(4000);
+      });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+
+      await act(async () => {
+        vi.advanceTimersByTime(1000);
+      });
+
+      await waitFor(() => {
+        expect(result.current.progress).toBe(100);
+      });
+      expect(pollingStrategy.onSettled).toHaveBeenCalledTimes(1);
+    });
+  });
 });
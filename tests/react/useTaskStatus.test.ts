@@ -240,7 +240,7 @@ describe('useTaskStatus', () => {
       });
 
       // Manually refresh
-      let refreshedTask: StandardTask | null = null;
+      let refreshedTask = null as StandardTask | null;
       await act(async () => {
         refreshedTask = await result.current.refresh();
       });
@@ -0,0 +1,91 @@
+// tests/stores/TaskStore.test.ts
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtemp, rm, readFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { MemoryTaskStore } from '../../src/stores/MemoryTaskStore';
+import { FileTaskStore } from '../../src/stores/FileTaskStore';
+import type { TaskStore } from '../../src/types';
+
+const tempDirs: string[] = [];
+
+async function createFileStore(): Promise<FileTaskStore> {
+  const dir = await mkdtemp(join(tmpdir(), 'magi3d-store-'));
+  tempDirs.push(dir);
+  return new FileTaskStore(join(dir, 'nested', 'tasks.json'));
+}
+
+afterEach(async () => {
+  await Promise.all(tempDirs.splice(0).map((dir) => rm(dir, { recursive: true, force: true })));
+});
+
+describe.each([
+  ['MemoryTaskStore', async (): Promise<TaskStore> => new MemoryTaskStore()],
+  ['FileTaskStore', createFileStore]
+])('%s', (_, createStore) => {
+  it('should get, set and delete values', async () => {
+    const store = await createStore();
+
+    await store.set('a', { taskType: 'text-to-3d', queryAction: 'Query' });
+    expect(await store.get('a')).toEqual({ taskType: 'text-to-3d', queryAction: 'Query' });
+
+    await store.delete('a');
+    expect(await store.get('a')).toBeUndefined();
+  });
+
+  it('should resolve missing keys to undefined', async () => {
+    const store = await createStore();
+
+    expect(await store.get('missing')).toBeUndefined();
+    await expect(store.delete('missing')).resolves.toBeUndefined();
+  });
+
+  it('should only set absent keys with setIfAbsent', async () => {
+    const store = await createStore();
+
+    const results = await Promise.all([store.setIfAbsent!('a', 1), store.setIfAbsent!('a', 2)]);
+    expect(results).toEqual([true, false]);
+    expect(await store.get('a')).toBe(1);
+
+    await store.set('expired', 1, { ttl: 1 });
+    await new Promise((r) => setTimeout(r, 10));
+    expect(await store.setIfAbsent!('expired', 2)).toBe(true);
+    expect(await store.get('expired')).toBe(2);
+  });
+
+  it('should list unexpired keys by prefix', async () => {
+    const store = await createStore();
+
+    await store.set('poll:a', 1);
+    await store.set('poll:b', 2, { ttl: 1 });
+    await store.set('other', 3);
+    await new Promise((r) => setTimeout(r, 10));
+
+    expect(await store.keys!('poll:')).toEqual(['poll:a']);
+  });
+
+  it('should expire entries after their TTL', async () => {
+    const store = await createStore();
+
+    await store.set('short', 1, { ttl: 10 });
+    await store.set('long', 2, { ttl: 60000 });
+    await new Promise((r) => setTimeout(r, 20));
+
+    expect(await store.get('short')).toBeUndefined();
+    expect(await store.get('long')).toBe(2);
+  });
+});
+
+describe('FileTaskStore', () => {
+  it('should share entries with other instances using the same file', async () => {
+    const store = await createFileStore();
+    const filePath = store['filePath'];
+
+    await Promise.all([store.set('a', 1), store.set('b', 2), store.set('c', 3)]);
+
+    const reopened = new FileTaskStore(filePath);
+    expect(await reopened.get('a')).toBe(1);
+    expect(await reopened.get('c')).toBe(3);
+    expect(Object.keys(JSON.parse(await readFile(filePath, 'utf8')))).toEqual(['a', 'b', 'c']);
+  });
+});
@@ -0,0 +1,27 @@
+// tests/utils/hash.test.ts
+import { describe, it, expect } from 'vitest';
+import { stableHash, stableStringify } from '../../src/utils/hash';
+
+describe('stableStringify', () => {
+  it('should sort keys and drop undefined properties', () => {
+    expect(stableStringify({ b: 1, a: undefined, c: [2, { y: 1, x: 0 }] })).toBe('{"b":1,"c":[2,{"x":0,"y":1}]}');
+  });
+
+  it('should keep array order', () => {
+    expect(stableStringify([3, 1, 2])).not.toBe(stableStringify([1, 2, 3]));
+  });
+});
+
+describe('stableHash', () => {
+  it('should be equal for equivalent objects', () => {
+    const a = { type: 'text_to_3d', prompt: 'a cat', providerOptions: { pbr: true, seed: 1 } };
+    const b = { providerOptions: { seed: 1, pbr: true }, prompt: 'a cat', type: 'text_to_3d', negativePrompt: undefined };
+
+    expect(stableHash(a)).toBe(stableHash(b));
+    expect(stableHash(a)).toMatch(/^[0-9a-f]{28}$/);
+  });
+
+  it('should differ for different values', () => {
+    expect(stableHash({ prompt: 'a cat' })).not.toBe(stableHash({ prompt: 'a dog' }));
+  });
+});
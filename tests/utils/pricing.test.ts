@@ -0,0 +1,55 @@
+// tests/utils/pricing.test.ts
+import { describe, it, expect } from 'vitest';
+import { estimateTaskCost, mergePricing } from '../../src/utils/pricing';
+import { PROVIDER_PRICING, PricingTable, ProviderId, TaskType } from '../../src/types';
+
+describe('estimateTaskCost', () => {
+  it('should apply matching modifiers from provider options', () => {
+    const estimate = estimateTaskCost('Hunyuan', PROVIDER_PRICING[ProviderId.HUNYUAN], {
+      type: TaskType.TEXT_TO_3D,
+      prompt: 'a cat',
+      providerOptions: { EnablePBR: true, FaceCount: 800000, PolygonType: 'triangle' }
+    });
+
+    expect(estimate).toEqual({
+      provider: 'Hunyuan',
+      type: TaskType.TEXT_TO_3D,
+      amount: 40,
+      unit: 'credits',
+      breakdown: [
+        { label: 'base', amount: 20 },
+        { label: 'EnablePBR', amount: 10 },
+        { label: 'FaceCount>=500000', amount: 10 }
+      ]
+    });
+  });
+
+  it('should read task params when the option is not set', () => {
+    const table = PROVIDER_PRICING[ProviderId.TRIPO];
+
+    expect(estimateTaskCost('Tripo', table, { type: TaskType.CONVERT, taskId: 't', format: 'fbx', quad: true })?.amount).toBe(10);
+    expect(
+      estimateTaskCost('Tripo', table, { type: TaskType.TEXT_TO_3D, prompt: 'a cat', providerOptions: { texture: false } })?.amount
+    ).toBe(10);
+  });
+
+  it('should never be negative and skip unpriced task types', () => {
+    const table: PricingTable = {
+      unit: 'USD',
+      tasks: { [TaskType.RIG]: { base: 1, modifiers: [{ field: 'outFormat', equals: 'fbx', amount: -5 }] } }
+    };
+
+    expect(estimateTaskCost('X', table, { type: TaskType.RIG, taskId: 't', outFormat: 'fbx' })?.amount).toBe(0);
+    expect(estimateTaskCost('X', table, { type: TaskType.ANIMATE, taskId: 't', animation: 'walk' })).toBeUndefined();
+  });
+});
+
+describe('mergePricing', () => {
+  it('should replace task types and keep the rest', () => {
+    const merged = mergePricing(PROVIDER_PRICING[ProviderId.TRIPO], { tasks: { [TaskType.RIG]: { base: 99 } } });
+
+    expect(merged.unit).toBe('credits');
+    expect(merged.tasks[TaskType.RIG]).toEqual({ base: 99 });
+    expect(merged.tasks[TaskType.REFINE]).toEqual({ base: 30 });
+  });
+});
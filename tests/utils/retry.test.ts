@@ -0,0 +1,97 @@
+// tests/utils/retry.test.ts
+import { describe, it, expect, vi } from 'vitest';
+import { withRetry, getRetryDelay } from '../../src/utils/retry';
+import { isTransientError, parseRetryAfter } from '../../src/utils/errors';
+import { ApiError } from '../../src/core/Magi3DClient';
+
+describe('isTransientError', () => {
+  it('should treat rate limits, 5xx and server errors as transient', () => {
+    expect(isTransientError(new ApiError('limit', 'RATE_LIMIT_EXCEEDED'))).toBe(true);
+    expect(isTransientError(new ApiError('bad gateway', 'TRIPO_ERROR_0', undefined, 502))).toBe(true);
+    expect(isTransientError(new ApiError('server', 'SERVER_ERROR'))).toBe(true);
+    expect(isTransientError(new ApiError('internal', 'INTERNAL_ERROR'))).toBe(true);
+    expect(isTransientError(Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }))).toBe(true);
+  });
+
+  it('should only retry timeouts for idempotent requests', () => {
+    const timeout = Object.assign(new Error('timeout of 120000ms exceeded'), { code: 'ECONNABORTED' });
+
+    expect(isTransientError(timeout)).toBe(false);
+    expect(isTransientError(timeout, true)).toBe(true);
+  });
+
+  it('should not retry client errors', () => {
+    expect(isTransientError(new ApiError('credits', 'INSUFFICIENT_CREDITS', undefined, 403))).toBe(false);
+    expect(isTransientError(new Error('boom'))).toBe(false);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('should parse seconds and HTTP dates', () => {
+    expect(parseRetryAfter('3')).toBe(3000);
+    expect(parseRetryAfter(new Date(Date.now() + 10000).toUTCString())).toBeGreaterThan(8000);
+    expect(parseRetryAfter('soon')).toBeUndefined();
+    expect(parseRetryAfter(undefined)).toBeUndefined();
+  });
+});
+
+describe('getRetryDelay', () => {
+  it('should back off exponentially with jitter', () => {
+    for (let i = 0; i < 20; i++) {
+      const delay = getRetryDelay(3, new Error('x'), { baseDelay: 100 });
+      expect(delay).toBeGreaterThanOrEqual(200);
+      expect(delay).toBeLessThanOrEqual(400);
+    }
+  });
+
+  it('should cap delays at maxDelay', () => {
+    expect(getRetryDelay(20, new Error('x'), { baseDelay: 100, maxDelay: 1000 })).toBeLessThanOrEqual(1000);
+  });
+
+  it('should honor Retry-After hints', () => {
+    const error = new ApiError('limit', 'RATE_LIMIT_EXCEEDED', undefined, 429, 1234);
+    expect(getRetryDelay(1, error)).toBe(1234);
+  });
+});
+
+describe('withRetry', () => {
+  it('should retry transient errors and return the result', async () => {
+    const request = vi.fn()
+      .mockRejectedValueOnce(new ApiError('server', 'SERVER_ERROR'))
+      .mockResolvedValue('ok');
+
+    await expect(withRetry(request, { maxRetries: 3, idempotent: false, baseDelay: 1 })).resolves.toBe('ok');
+    expect(request).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not retry rate limits when retryRateLimits is false', async () => {
+    const request = vi.fn().mockRejectedValue(new ApiError('limit', 'RATE_LIMIT_EXCEEDED', undefined, 429));
+
+    await expect(
+      withRetry(request, { maxRetries: 3, idempotent: true, baseDelay: 1, retryRateLimits: false })
+    ).rejects.toMatchObject({ code: 'RATE_LIMIT_EXCEEDED' });
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it('should let shouldRetry override the decision', async () => {
+    const shouldRetry = vi.fn().mockReturnValue(false);
+    const request = vi.fn().mockRejectedValue(new ApiError('server', 'SERVER_ERROR'));
+
+    await expect(
+      withRetry(request, { maxRetries: 3, idempotent: false, baseDelay: 1, shouldRetry })
+    ).rejects.toMatchObject({ code: 'SERVER_ERROR' });
+    expect(request).toHaveBeenCalledTimes(1);
+    expect(shouldRetry).toHaveBeenCalledWith(expect.objectContaining({ attempt: 1, idempotent: false, retryable: true }));
+  });
+
+  it('should stop waiting when the signal is aborted', async () => {
+    const controller = new AbortController();
+    const request = vi.fn().mockRejectedValue(new ApiError('server', 'SERVER_ERROR'));
+
+    const promise = withRetry(request, { maxRetries: 3, idempotent: true, baseDelay: 10000, signal: controller.signal });
+    controller.abort();
+
+    await expect(promise).rejects.toThrow();
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+});